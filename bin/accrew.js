@@ -0,0 +1,36 @@
+#!/usr/bin/env node
+// Command-line entry point: runs Accrew headless and forwards the arguments to its CLI
+// mode (src/main/cli.ts). From a source checkout, run `npm run build:main` first.
+import { spawn } from 'child_process'
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+const appDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '..')
+const args = process.argv.slice(2)
+
+// Where the installers put the app; ACCREW_APP points elsewhere
+const INSTALLED_APPS = {
+  darwin: '/Applications/Accrew.app/Contents/MacOS/Accrew',
+  win32: path.join(process.env.LOCALAPPDATA ?? '', 'Programs', 'accrew', 'Accrew.exe'),
+}
+
+// WHY: electron is a devDependency (electron-builder refuses it in dependencies), so it
+// is only there in a source checkout — elsewhere the installed app runs the command
+async function resolveCommand() {
+  try {
+    const { default: electronPath } = await import('electron')
+    return [electronPath, [appDir, '--cli', ...args]]
+  } catch {
+    const app = process.env.ACCREW_APP || INSTALLED_APPS[process.platform]
+    return app && fs.existsSync(app) ? [app, ['--cli', ...args]] : null
+  }
+}
+
+const command = await resolveCommand()
+if (!command) {
+  process.stderr.write('Accrew app not found — install it, or set ACCREW_APP to its executable\n')
+  process.exit(1)
+}
+const child = spawn(command[0], command[1], { stdio: 'inherit' })
+child.on('exit', (code, signal) => process.exit(code ?? (signal ? 1 : 0)))
@@ -4,6 +4,8 @@ import { Sidebar, SidebarHandle } from './components/Sidebar'
 import { ChatPane, ChatPaneHandle } from './components/ChatPane'
 import { ChangesPanel } from './components/ChangesPanel'
 import { SettingsDialog } from './components/SettingsDialog'
+import { UsageDialog } from './components/UsageDialog'
+import { ScheduleDialog } from './components/ScheduleDialog'
 import { PanelLeft, PanelLeftClose } from 'lucide-react'
 
 const MIN_SIDEBAR_WIDTH = 200
@@ -22,6 +24,9 @@ export default function App() {
     loadSessions,
     loadWorkspaces,
     loadConfig,
+    loadPendingPermissions,
+    loadMessageQueues,
+    loadRunQueue,
     setupEventListeners,
     setActiveSession,
     setSidebarWidth,
@@ -273,6 +278,9 @@ export default function App() {
     loadSessions()
     loadWorkspaces()
     loadConfig()
+    loadPendingPermissions()
+    loadMessageQueues()
+    loadRunQueue()
     
     // Setup event listeners
     const cleanup = setupEventListeners()
@@ -345,6 +353,8 @@ export default function App() {
       
       {/* Settings dialog */}
       <SettingsDialog />
+      <UsageDialog />
+      <ScheduleDialog />
     </div>
   )
 }
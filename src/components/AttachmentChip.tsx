@@ -0,0 +1,49 @@
+import type { Attachment } from '../shared/types'
+import { cn } from '../lib/utils'
+import { File, Folder, Image, X } from 'lucide-react'
+
+interface AttachmentChipProps {
+  attachment: Attachment
+  previewUrl?: string // Thumbnail for images still being composed
+  onRemove?: () => void
+}
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${bytes} B`
+}
+
+export function AttachmentChip({ attachment, previewUrl, onRemove }: AttachmentChipProps) {
+  const Icon = attachment.type === 'directory' ? Folder : attachment.mimeType ? Image : File
+
+  return (
+    <div
+      className={cn(
+        'group inline-flex items-center gap-1.5 max-w-[220px] h-7 pl-1 pr-2 rounded-md border border-border/50 bg-muted/40 text-xs',
+        !onRemove && 'cursor-pointer hover:bg-muted/70'
+      )}
+      onClick={onRemove ? undefined : () => window.accrew.shell.openPath(attachment.path)}
+      title={attachment.path}
+    >
+      {previewUrl ? (
+        <img src={previewUrl} alt="" className="w-5 h-5 rounded object-cover flex-shrink-0" />
+      ) : (
+        <Icon className="w-3.5 h-3.5 mx-0.5 text-muted-foreground flex-shrink-0" />
+      )}
+      <span className="truncate">{attachment.name}</span>
+      {attachment.size !== undefined && (
+        <span className="text-muted-foreground/60 flex-shrink-0">{formatSize(attachment.size)}</span>
+      )}
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="-mr-1 p-0.5 rounded text-muted-foreground hover:text-foreground hover:bg-accent"
+          title="Remove attachment"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  )
+}
@@ -1,8 +1,8 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
 import { MultiFileDiff, PatchDiff } from '@pierre/diffs/react'
 import { useStore } from '../store'
-import { X, RefreshCw, FilePlus, FileX, FileEdit, FileQuestion, File } from 'lucide-react'
-import type { ChangedFile } from '../shared/types'
+import { X, Folder, RefreshCw, FilePlus, FileX, FileEdit, FileQuestion, FileSymlink, File, Square, SquareCheck, SquareMinus, Undo2, Plus, Minus, Sparkles, GitCommitHorizontal } from 'lucide-react'
+import type { ChangedFile, GitHunk } from '../shared/types'
 
 const MIN_FILE_LIST_HEIGHT = 80
 const MAX_FILE_LIST_HEIGHT = 400
@@ -15,6 +15,8 @@ function FileStatusIcon({ status }: { status: ChangedFile['status'] }) {
       return <FileEdit className="w-3 h-3 text-yellow-500" />
     case 'deleted':
       return <FileX className="w-3 h-3 text-red-500" />
+    case 'renamed':
+      return <FileSymlink className="w-3 h-3 text-purple-500" />
     case 'untracked':
       return <FileQuestion className="w-3 h-3 text-blue-500" />
     default:
@@ -27,11 +29,28 @@ function statusLabel(status: ChangedFile['status']): string {
     case 'created': return 'A'
     case 'modified': return 'M'
     case 'deleted': return 'D'
+    case 'renamed': return 'R'
     case 'untracked': return '?'
     default: return ''
   }
 }
 
+// WHY: staged/unstaged are only set for files git reports — in a multi-workspace session
+// some workspaces may be git repos and others not, so this is decided per file
+function inRepo(file: ChangedFile): boolean {
+  return file.staged !== undefined
+}
+
+function sameFile(a: ChangedFile | null, b: ChangedFile): boolean {
+  return !!a && a.path === b.path && a.workspace === b.workspace
+}
+
+function StageToggleIcon({ file }: { file: ChangedFile }) {
+  if (file.staged && file.unstaged) return <SquareMinus className="w-3.5 h-3.5 text-primary" />
+  if (file.staged) return <SquareCheck className="w-3.5 h-3.5 text-primary" />
+  return <Square className="w-3.5 h-3.5 text-muted-foreground" />
+}
+
 export function ChangesPanel() {
   const { 
     changesPanel, 
@@ -39,14 +58,49 @@ export function ChangesPanel() {
     selectChangedFile,
     loadChangedFiles,
     activeSessionId,
+    sessions,
     theme,
     selectedDiff,  // Fallback for non-git tool diffs
     config,
-    setChangesFileListHeight
+    setChangesFileListHeight,
+    sessionGitInfo,
+    stageFile,
+    unstageFile,
+    discardFile,
+    stageHunk,
+    unstageHunk,
+    commitChanges,
+    draftCommitMessage
   } = useStore()
 
-  const { open, files, selectedFile, diffContent, diffType } = changesPanel
+  const { open, files, selectedFile, selectedWorkspace, diffContent, diffType, hunks } = changesPanel
   const [refreshing, setRefreshing] = useState(false)
+  const [confirmDiscard, setConfirmDiscard] = useState<ChangedFile | null>(null)
+  const [commitMessage, setCommitMessage] = useState('')
+  const [committing, setCommitting] = useState(false)
+  const [drafting, setDrafting] = useState(false)
+  const [gitError, setGitError] = useState<string | null>(null)
+  const [lastCommit, setLastCommit] = useState<string | null>(null)
+  const isRepo = activeSessionId ? sessionGitInfo[activeSessionId]?.isRepo ?? false : false
+  const canCommit = isRepo || files.some(inRepo)
+  const activeSession = sessions.find(s => s.id === activeSessionId)
+  // Files of a multi-workspace session are grouped under the workspace they belong to
+  const groups = activeSession?.linkedWorkspaces?.length
+    ? [activeSession.workspace, ...activeSession.linkedWorkspaces.map(w => w.name)].map((name, index) => ({
+        name,
+        files: files.filter(f => index === 0 ? !f.workspace : f.workspace === name)
+      })).filter(group => group.files.length > 0)
+    : [{ name: null, files }]
+  const stagedCount = files.filter(f => f.staged).length
+
+  // WHY: Commit state belongs to the session being viewed — a half-written message
+  // must not be committed into another session's workspace after switching
+  useEffect(() => {
+    setCommitMessage('')
+    setGitError(null)
+    setLastCommit(null)
+    setConfirmDiscard(null)
+  }, [activeSessionId])
   
   // File list height resize state
   const [isDragging, setIsDragging] = useState(false)
@@ -105,8 +159,50 @@ export function ChangesPanel() {
     }
   }
 
-  const handleFileClick = async (filePath: string) => {
-    await selectChangedFile(filePath)
+  const handleFileClick = async (file: ChangedFile) => {
+    await selectChangedFile(file.path, file.workspace)
+  }
+
+  // Surface git's error message (conflicting patch, nothing staged) instead of failing silently
+  const runGit = async (action: () => Promise<unknown>) => {
+    setGitError(null)
+    try {
+      await action()
+    } catch (err) {
+      setGitError(err instanceof Error ? err.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : 'Git command failed')
+    }
+  }
+
+  const handleToggleStaged = (file: ChangedFile) => runGit(() =>
+    file.unstaged ? stageFile(file.path, file.workspace) : unstageFile(file.path, file.workspace)
+  )
+
+  const handleDiscard = (file: ChangedFile) => {
+    if (!sameFile(confirmDiscard, file)) {
+      setConfirmDiscard(file)
+      return
+    }
+    setConfirmDiscard(null)
+    runGit(() => discardFile(file.path, file.workspace))
+  }
+
+  const handleDraft = async () => {
+    setDrafting(true)
+    await runGit(async () => {
+      const draft = await draftCommitMessage()
+      if (draft) setCommitMessage(draft)
+    })
+    setDrafting(false)
+  }
+
+  const handleCommit = async () => {
+    setCommitting(true)
+    await runGit(async () => {
+      const hash = await commitChanges(commitMessage)
+      setCommitMessage('')
+      setLastCommit(hash)
+    })
+    setCommitting(false)
   }
 
   // For non-git diffs, use the selectedDiff from the store
@@ -152,23 +248,63 @@ export function ChangesPanel() {
             className="overflow-y-auto"
             style={{ height: localHeight }}
           >
-            {files.map((file) => (
-              <button
-                key={file.path}
-                onClick={() => handleFileClick(file.path)}
-                className={`w-full flex items-center gap-1.5 px-3 py-1 hover:bg-muted/50 transition-colors text-left ${
-                  selectedFile === file.path ? 'bg-muted' : ''
-                }`}
-              >
-                <FileStatusIcon status={file.status} />
-                <span className="text-xs truncate flex-1 min-w-0">
-                  {file.path}
-                </span>
-                <span className="text-[10px] text-muted-foreground flex-shrink-0">
-                  {statusLabel(file.status)}
-                </span>
-              </button>
-          ))}
+            {groups.map((group) => (
+              <div key={group.name ?? ''}>
+                {group.name && (
+                  <div className="flex items-center gap-1.5 px-3 pt-2 pb-1 text-[10px] font-medium uppercase tracking-wide text-muted-foreground">
+                    <Folder className="w-3 h-3" />
+                    <span className="truncate">{group.name}</span>
+                    <span className="text-muted-foreground/60">{group.files.length}</span>
+                  </div>
+                )}
+                {group.files.map((file) => (
+                  <div
+                    key={file.path}
+                    onClick={() => handleFileClick(file)}
+                    className={`group w-full flex items-center gap-1.5 px-3 py-1 hover:bg-muted/50 transition-colors text-left cursor-pointer ${
+                      selectedFile === file.path && selectedWorkspace === (file.workspace ?? null) ? 'bg-muted' : ''
+                    }`}
+                  >
+                    {inRepo(file) && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          handleToggleStaged(file)
+                        }}
+                        className="flex-shrink-0"
+                        title={file.unstaged ? 'Stage file' : 'Unstage file'}
+                      >
+                        <StageToggleIcon file={file} />
+                      </button>
+                    )}
+                    <FileStatusIcon status={file.status} />
+                    <span className="text-xs truncate flex-1 min-w-0">
+                      {file.path}
+                    </span>
+                    {inRepo(file) && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          handleDiscard(file)
+                        }}
+                        onMouseLeave={() => sameFile(confirmDiscard, file) && setConfirmDiscard(null)}
+                        className={`flex-shrink-0 flex items-center gap-1 text-[10px] transition-all ${
+                          sameFile(confirmDiscard, file)
+                            ? 'text-destructive'
+                            : 'opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive'
+                        }`}
+                        title="Discard changes"
+                      >
+                        {sameFile(confirmDiscard, file) ? 'Discard?' : <Undo2 className="w-3 h-3" />}
+                      </button>
+                    )}
+                    <span className="text-[10px] text-muted-foreground flex-shrink-0">
+                      {statusLabel(file.status)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ))}
           </div>
           {/* Resize handle for file list height */}
           <div
@@ -178,6 +314,18 @@ export function ChangesPanel() {
         </div>
       )}
 
+      {/* Per-hunk staging for the selected file */}
+      {diffType === 'git' && hunks && (hunks.unstaged.length > 0 || hunks.staged.length > 0) && (
+        <div className="border-b border-border/50 py-1 max-h-40 overflow-y-auto">
+          {hunks.unstaged.map(hunk => (
+            <HunkRow key={`u${hunk.index}`} hunk={hunk} staged={false} onClick={() => runGit(() => stageHunk(hunk))} />
+          ))}
+          {hunks.staged.map(hunk => (
+            <HunkRow key={`s${hunk.index}`} hunk={hunk} staged onClick={() => runGit(() => unstageHunk(hunk))} />
+          ))}
+        </div>
+      )}
+
       {/* Diff viewer */}
       <div className="flex-1 overflow-auto">
         {!selectedFile ? (
@@ -221,6 +369,69 @@ export function ChangesPanel() {
           </div>
         )}
       </div>
+
+      {/* Commit */}
+      {canCommit && (
+        <div className="border-t border-border/50 p-3 space-y-2">
+          <textarea
+            value={commitMessage}
+            onChange={(e) => setCommitMessage(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && stagedCount > 0 && commitMessage.trim()) {
+                e.preventDefault()
+                handleCommit()
+              }
+            }}
+            placeholder="Commit message"
+            rows={3}
+            className="w-full resize-none rounded-md border border-border bg-background px-2 py-1.5 text-xs outline-none focus:border-primary/50"
+          />
+          {gitError && <p className="text-xs text-destructive break-words">{gitError}</p>}
+          {lastCommit && !gitError && (
+            <p className="text-xs text-muted-foreground">Committed {lastCommit}</p>
+          )}
+          <div className="flex items-center justify-end gap-2">
+            <button
+              onClick={handleDraft}
+              disabled={drafting || stagedCount === 0}
+              className="flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+              title="Draft a message from this session's changes"
+            >
+              <Sparkles className={`w-3 h-3 ${drafting ? 'animate-pulse' : ''}`} />
+              {drafting ? 'Drafting…' : 'Draft'}
+            </button>
+            <button
+              onClick={handleCommit}
+              disabled={committing || stagedCount === 0 || !commitMessage.trim()}
+              className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+              title="Commit staged changes (⌘↵)"
+            >
+              <GitCommitHorizontal className="w-3 h-3" />
+              Commit{stagedCount > 0 && ` (${stagedCount})`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function HunkRow({ hunk, staged, onClick }: { hunk: GitHunk; staged: boolean; onClick: () => void }) {
+  // WHY: Show only the range and git's function context — the full hunk is already
+  // visible in the diff below, this row just needs to be identifiable
+  const [, range, context] = hunk.header.match(/^@@ (.*?) @@ ?(.*)$/) || [null, hunk.header, '']
+  return (
+    <div className="flex items-center gap-2 px-3 py-0.5 text-xs">
+      <span className="font-mono text-[10px] text-muted-foreground flex-shrink-0">{range}</span>
+      <span className="truncate flex-1 min-w-0 text-muted-foreground/70">{context}</span>
+      <button
+        onClick={onClick}
+        className="flex items-center gap-1 flex-shrink-0 text-[10px] text-muted-foreground hover:text-foreground transition-colors"
+        title={staged ? 'Unstage hunk' : 'Stage hunk'}
+      >
+        {staged ? <Minus className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+        {staged ? 'Unstage' : 'Stage'}
+      </button>
     </div>
   )
 }
@@ -1,11 +1,16 @@
-import { useRef, useEffect, useMemo, forwardRef, useImperativeHandle } from 'react'
+import { useState, useRef, useEffect, useMemo, useCallback, forwardRef, useImperativeHandle } from 'react'
 import { useStore } from '../store'
 import { MessageBubble } from './MessageBubble'
 import { StreamingMessage } from './StreamingMessage'
 import { PromptInput, PromptInputHandle } from './PromptInput'
 import { ConversationNav } from './ConversationNav'
+import { PermissionDialog } from './PermissionDialog'
+import { MessageQueue } from './MessageQueue'
+import { ExportMenu } from './ExportMenu'
 import { STREAMING_MESSAGE_ID } from '../shared/types'
-import { Circle, GitBranch, FileDiff } from 'lucide-react'
+import type { PermissionDecision, Attachment } from '../shared/types'
+import { formatTokenCount, formatPremiumRequests } from '../lib/utils'
+import { Circle, GitBranch, FileDiff, Gauge } from 'lucide-react'
 
 export interface ChatPaneHandle {
   focusInput: () => void
@@ -27,9 +32,17 @@ export const ChatPane = forwardRef<ChatPaneHandle>(function ChatPane(_, ref) {
     changesPanel,
     openChangesPanel,
     closeChangesPanel,
-    pendingOperations
+    pendingOperations,
+    pendingPermissions,
+    respondToPermission,
+    messageScrollTarget,
+    clearMessageScrollTarget,
+    messageQueues,
+    queueMessage
   } = useStore()
 
+  const [isolateWorktree, setIsolateWorktree] = useState(false)
+  const [createError, setCreateError] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const scrollContainerRef = useRef<HTMLDivElement>(null)
   const promptInputRef = useRef<PromptInputHandle>(null)
@@ -79,10 +92,33 @@ export const ChatPane = forwardRef<ChatPaneHandle>(function ChatPane(_, ref) {
     }
   }), [])
 
+  // WHY: Show one request at a time, oldest first — the SDK blocks each tool call
+  // independently, so answering in arrival order matches the agent's own sequence
+  const sessionPermissions = useMemo(() =>
+    pendingPermissions.filter(p => p.sessionId === activeSessionId)
+  , [pendingPermissions, activeSessionId])
+  const currentPermission = sessionPermissions[0] || null
+
+  const handlePermissionResponse = useCallback((decision: PermissionDecision) => {
+    if (currentPermission) {
+      respondToPermission(currentPermission.id, decision)
+    }
+  }, [currentPermission, respondToPermission])
+
   // Get streaming state for the current session - directly from Map for content display
   const currentStreaming = activeSessionId ? streamingStates.get(activeSessionId) || null : null
   // Use streamingSessions (Set) for boolean check - more reliable reactivity than Map.has()
   const isStreamingThisSession = activeSessionId ? streamingSessions.has(activeSessionId) : false
+  const queuedMessages = activeSessionId ? messageQueues[activeSessionId] || [] : []
+
+  const sessionUsage = useMemo(() => {
+    const withUsage = messages.filter(m => m.usage)
+    if (withUsage.length === 0) return null
+    return withUsage.reduce((total, m) => ({
+      tokens: total.tokens + m.usage!.inputTokens + m.usage!.outputTokens,
+      premiumRequests: total.premiumRequests + m.usage!.premiumRequests
+    }), { tokens: 0, premiumRequests: 0 })
+  }, [messages])
 
   // WHY: Scroll to start of response when streaming begins — user wants to see the beginning
   // of the response, not the bottom. Only scrolls once per streaming session to avoid
@@ -104,7 +140,10 @@ export const ChatPane = forwardRef<ChatPaneHandle>(function ChatPane(_, ref) {
   // scrolling (user just typed them), and streaming has its own scroll-to-start effect.
   // Without this guard, sending a message causes a double-scroll: once to the user
   // message, then again to the streaming start.
+  // WHY: Skip when a search result is being opened — ConversationNav (a child, so its
+  // effect runs first in the same commit) is scrolling to the matched message.
   useEffect(() => {
+    if (messageScrollTarget) return
     if (messages.length > 0) {
       const lastMsg = messages[messages.length - 1]
       if (lastMsg.role === 'assistant' && !currentStreaming) {
@@ -126,11 +165,16 @@ export const ChatPane = forwardRef<ChatPaneHandle>(function ChatPane(_, ref) {
     wasStreamingRef.current = !!currentStreaming
   }, [currentStreaming])
 
-  const handleSend = async (content: string, workspace?: string) => {
+  const handleSend = async (content: string, workspace?: string, attachments?: Attachment[]) => {
     if (activeSessionId) {
-      await sendMessage(content)
+      await sendMessage(content, attachments)
     } else {
-      await createSession(workspace, content)
+      setCreateError(null)
+      try {
+        await createSession(workspace, content, { worktree: isolateWorktree, attachments })
+      } catch (err) {
+        setCreateError(err instanceof Error ? err.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : 'Could not create session')
+      }
     }
   }
 
@@ -148,6 +192,7 @@ export const ChatPane = forwardRef<ChatPaneHandle>(function ChatPane(_, ref) {
   // WHY: Priority order for status display — streaming takes precedence over pending ops,
   // pending ops over session status. Shows most relevant state to user.
   const getStatusDisplay = () => {
+    if (currentPermission) return { color: 'text-orange-500 fill-orange-500', label: 'Waiting for approval', animate: true }
     if (currentStreaming) return { color: 'text-violet-500 fill-violet-500', label: 'Working', animate: true }
     if (pendingOperations.has('regenerateTitle')) return { color: 'text-blue-500 fill-blue-500', label: 'Renaming...', animate: true }
     if (pendingOperations.has('refreshWorkspaces')) return { color: 'text-blue-500 fill-blue-500', label: 'Refreshing...', animate: true }
@@ -170,6 +215,11 @@ export const ChatPane = forwardRef<ChatPaneHandle>(function ChatPane(_, ref) {
                   {activeSession.workspace && (
                     <div className="flex items-center gap-2 text-xs text-muted-foreground">
                       <span className="truncate">{activeSession.workspace}</span>
+                      {activeSession.linkedWorkspaces?.map(w => (
+                        <span key={w.path} className="truncate" title={w.path}>
+                          <span className="text-muted-foreground/50 mr-2">+</span>{w.name}
+                        </span>
+                      ))}
                       {gitInfo?.isRepo && gitInfo.branch ? (
                         <>
                           <span className="text-muted-foreground/50">·</span>
@@ -201,6 +251,16 @@ export const ChatPane = forwardRef<ChatPaneHandle>(function ChatPane(_, ref) {
                     </div>
                   )}
                 </div>
+                {sessionUsage && (
+                  <div
+                    className="flex items-center gap-1 text-xs text-muted-foreground"
+                    title={`${sessionUsage.tokens.toLocaleString()} tokens · ${formatPremiumRequests(sessionUsage.premiumRequests)} in this session`}
+                  >
+                    <Gauge className="w-3 h-3" />
+                    <span>{formatTokenCount(sessionUsage.tokens)}</span>
+                  </div>
+                )}
+                <ExportMenu sessionId={activeSession.id} />
                 <div className="flex items-center gap-1.5 text-xs">
                   <Circle className={`w-2 h-2 ${getStatusDisplay().color} ${getStatusDisplay().animate ? 'animate-pulse' : ''}`} />
                   <span className="text-muted-foreground">{getStatusDisplay().label}</span>
@@ -220,6 +280,22 @@ export const ChatPane = forwardRef<ChatPaneHandle>(function ChatPane(_, ref) {
                 {/* WHY: key forces remount on session switch — without it, local value state
                     bleeds across sessions because React reuses the component instance */}
                 <PromptInput key="new" ref={promptInputRef} onSend={handleSend} disabled={isStreamingThisSession} centered />
+                <div className="mt-3 flex items-center gap-3 px-2 text-xs">
+                  <label
+                    className="flex items-center gap-1.5 text-muted-foreground hover:text-foreground cursor-pointer select-none"
+                    title="Work on a new branch in a dedicated git worktree, so other sessions in the same workspace aren't affected"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isolateWorktree}
+                      onChange={(e) => setIsolateWorktree(e.target.checked)}
+                      className="accent-primary"
+                    />
+                    <GitBranch className="w-3 h-3" />
+                    Isolated worktree
+                  </label>
+                  {createError && <span className="text-destructive truncate" title={createError}>{createError}</span>}
+                </div>
               </div>
             </div>
           ) : (
@@ -235,9 +311,10 @@ export const ChatPane = forwardRef<ChatPaneHandle>(function ChatPane(_, ref) {
               </div>
               {/* Input at bottom when there's content */}
               <div className="border-t border-border/50 p-6 flex-shrink-0">
+                <MessageQueue queue={queuedMessages} isStreaming={isStreamingThisSession} />
                 {/* WHY: key forces remount on session switch — without it, local value state
                     bleeds across sessions because React reuses the component instance */}
-                <PromptInput key={activeSessionId} ref={promptInputRef} onSend={handleSend} disabled={isStreamingThisSession} />
+                <PromptInput key={activeSessionId} ref={promptInputRef} onSend={handleSend} onQueue={queueMessage} disabled={isStreamingThisSession} />
               </div>
             </>
           )}
@@ -250,6 +327,17 @@ export const ChatPane = forwardRef<ChatPaneHandle>(function ChatPane(_, ref) {
             messages={filteredMessages}
             isStreaming={isStreamingThisSession}
             scrollContainerRef={scrollContainerRef}
+            scrollTarget={messageScrollTarget}
+            onScrollTargetReached={clearMessageScrollTarget}
+          />
+        )}
+        {currentPermission && (
+          <PermissionDialog
+            key={currentPermission.id}
+            request={currentPermission}
+            workspace={activeSession?.workspace ?? null}
+            queued={sessionPermissions.length - 1}
+            onRespond={handlePermissionResponse}
           />
         )}
       </div>
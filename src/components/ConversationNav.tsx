@@ -6,13 +6,15 @@ interface ConversationNavProps {
   messages: Message[]
   isStreaming: boolean
   scrollContainerRef: React.RefObject<HTMLDivElement | null>
+  scrollTarget?: { sessionId: string; messageId: string } | null
+  onScrollTargetReached?: () => void
 }
 
 // WHY: Always-visible timeline — only user messages (instructions) get dots, connected by
 // a single thin line. No markers for responses. User prompts are the natural bookmarks
 // ("where did I ask about X?"), and the gap between dots implicitly shows how long each
 // response was. Always visible for orientation; dots clickable for navigation.
-export function ConversationNav({ messages, isStreaming, scrollContainerRef }: ConversationNavProps) {
+export function ConversationNav({ messages, isStreaming, scrollContainerRef, scrollTarget, onScrollTargetReached }: ConversationNavProps) {
   const [activeId, setActiveId] = useState<string | null>(null)
   const [positions, setPositions] = useState<Map<string, number>>(new Map())
   const observerRef = useRef<IntersectionObserver | null>(null)
@@ -112,6 +114,25 @@ export function ConversationNav({ messages, isStreaming, scrollContainerRef }: C
     }
   }, [scrollContainerRef])
 
+  // WHY: Search results jump here through the same scrollTo as the dots. The target is
+  // only consumed once this session's messages are loaded — setActiveSession clears and
+  // reloads asynchronously, so an earlier attempt would find nothing to scroll to.
+  // Targets missing from the loaded list (e.g. the in-flight streaming message) are dropped.
+  useEffect(() => {
+    if (!scrollTarget || messages.length === 0 || messages[0].sessionId !== scrollTarget.sessionId) return
+    const { messageId } = scrollTarget
+    onScrollTargetReached?.()
+    if (!messages.some(m => m.id === messageId)) return
+    requestAnimationFrame(() => {
+      scrollTo(messageId)
+      const el = scrollContainerRef.current?.querySelector(`[data-message-id="${messageId}"]`)
+      el?.animate(
+        [{ backgroundColor: 'rgba(234, 179, 8, 0.2)' }, { backgroundColor: 'transparent' }],
+        { duration: 2000, easing: 'ease-out' }
+      )
+    })
+  }, [scrollTarget, messages, scrollTo, scrollContainerRef, onScrollTargetReached])
+
   if (userMessages.length < 2 && !isStreaming) return null
 
   const getTooltip = (msg: Message): string => {
@@ -0,0 +1,61 @@
+import { useState } from 'react'
+import { useStore } from '../store'
+import type { SessionExportFormat } from '../shared/types'
+import { Download, FileText, Globe, Braces } from 'lucide-react'
+
+const FORMATS: { format: SessionExportFormat; label: string; description: string; icon: typeof FileText }[] = [
+  { format: 'markdown', label: 'Markdown', description: 'For docs, issues and pull requests', icon: FileText },
+  { format: 'html', label: 'HTML', description: 'A single page anyone can open', icon: Globe },
+  { format: 'json', label: 'JSON', description: 'Can be imported back into Accrew', icon: Braces },
+]
+
+export function ExportMenu({ sessionId }: { sessionId: string }) {
+  const { exportSession } = useStore()
+  const [open, setOpen] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = async (format: SessionExportFormat) => {
+    setOpen(false)
+    setError(null)
+    try {
+      await exportSession(sessionId, format)
+    } catch (err) {
+      setError(err instanceof Error ? err.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : 'Export failed')
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`p-1 rounded-md transition-colors ${
+          error ? 'text-destructive' : 'text-muted-foreground hover:text-foreground hover:bg-accent/50'
+        }`}
+        title={error ? `Export failed: ${error}` : 'Export session'}
+      >
+        <Download className="w-3.5 h-3.5" />
+      </button>
+      {open && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 top-full mt-1 w-64 bg-popover border border-border rounded-lg shadow-lg overflow-hidden z-20">
+            {FORMATS.map(({ format, label, description, icon: Icon }) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className="w-full flex items-start gap-2.5 px-3 py-2 text-left hover:bg-accent/50 transition-colors"
+              >
+                <Icon className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm">{label}</p>
+                  <p className="text-xs text-muted-foreground">{description}</p>
+                </div>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,21 @@
 import { useState } from 'react'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
-import type { Message, ToolCall } from '../shared/types'
+import type { Message, ToolCall, CheckpointConflict, TurnCheckpoint, MessageUsage, MessageEditMode } from '../shared/types'
 import { 
   Brain, 
-  Terminal
+  Terminal,
+  Undo2,
+  AlertTriangle,
+  Gauge,
+  GitFork,
+  Pencil,
+  CornerDownLeft
 } from 'lucide-react'
+import { useStore } from '../store'
+import { formatTokenCount, formatPremiumRequests } from '../lib/utils'
 import { ToolRenderer } from './ToolRenderers'
+import { AttachmentChip } from './AttachmentChip'
 
 interface MessageBubbleProps {
   message: Message
@@ -16,17 +25,11 @@ export function MessageBubble({ message }: MessageBubbleProps) {
   const isUser = message.role === 'user'
 
   if (isUser) {
-    return (
-      <div data-message-id={message.id} data-message-role={message.role} className="mb-4 flex items-start gap-2">
-        <Terminal className="w-4 h-4 text-muted-foreground flex-shrink-0 mt-0.5" />
-        {/* WHY: whitespace-pre-wrap preserves line breaks entered by the user in the input box */}
-        <p className="text-sm font-medium whitespace-pre-wrap">{message.content}</p>
-      </div>
-    )
+    return <UserMessage message={message} />
   }
 
   return (
-    <div data-message-id={message.id} data-message-role={message.role} className="mb-6 border-l-2 border-muted pl-4 ml-1 relative z-10">
+    <div data-message-id={message.id} data-message-role={message.role} className="group mb-6 border-l-2 border-muted pl-4 ml-1 relative z-10">
       {/* Thinking - compact */}
       {message.thinking && (
         <ThinkingBlock content={message.thinking} />
@@ -65,6 +68,339 @@ export function MessageBubble({ message }: MessageBubbleProps) {
           </ReactMarkdown>
         </div>
       )}
+
+      {/* WHY: Keep whatever was saved before the cut-off and say so — an empty or
+          half-finished reply with no explanation reads as the agent giving up */}
+      {message.status === 'interrupted' && (
+        <div className="mt-3 flex items-center gap-1.5 text-xs text-orange-500">
+          <AlertTriangle className="w-3 h-3" />
+          <span>Interrupted — this turn stopped before it finished{message.content || message.toolCalls?.length ? '; showing what was saved' : ''}</span>
+        </div>
+      )}
+
+      {/* Undo every file change this turn made */}
+      {message.checkpoint && message.checkpoint.files.length > 0 && (
+        <RevertTurnAction messageId={message.id} checkpoint={message.checkpoint} />
+      )}
+
+      {message.status !== 'streaming' && <ForkAction message={message} />}
+
+      {message.usage && <UsageFooter usage={message.usage} />}
+    </div>
+  )
+}
+
+function ForkAction({ message }: { message: Message }) {
+  const forkSession = useStore(state => state.forkSession)
+  const [forking, setForking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFork = async () => {
+    setForking(true)
+    setError(null)
+    try {
+      await forkSession(message.sessionId, message.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : 'Fork failed')
+      setForking(false)
+    }
+  }
+
+  return (
+    <div className="mt-2 flex items-center gap-2 text-xs">
+      <button
+        onClick={handleFork}
+        disabled={forking}
+        className="flex items-center gap-1.5 text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all disabled:opacity-50"
+        title="Start a new session with the conversation up to here"
+      >
+        <GitFork className="w-3 h-3" />
+        <span>{forking ? 'Forking…' : 'Fork from here'}</span>
+      </button>
+      {error && <span className="text-destructive">{error}</span>}
+    </div>
+  )
+}
+
+function UserMessage({ message }: { message: Message }) {
+  const [editing, setEditing] = useState(false)
+
+  if (editing) {
+    return <PromptEditor message={message} onClose={() => setEditing(false)} />
+  }
+
+  return (
+    <div data-message-id={message.id} data-message-role={message.role} className="group mb-4 flex items-start gap-2">
+      <Terminal className="w-4 h-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+      <div className="min-w-0">
+        {/* WHY: whitespace-pre-wrap preserves line breaks entered by the user in the input box */}
+        <p className="text-sm font-medium whitespace-pre-wrap">{message.content}</p>
+        {message.attachments && message.attachments.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1.5">
+            {message.attachments.map((attachment) => (
+              <AttachmentChip key={attachment.path} attachment={attachment} />
+            ))}
+          </div>
+        )}
+        {message.edits && (
+          <span
+            className="text-xs text-muted-foreground/60"
+            title={`Earlier version${message.edits.length === 1 ? '' : 's'}:\n\n${message.edits.map(e => e.content).join('\n\n')}`}
+          >
+            edited
+          </span>
+        )}
+      </div>
+      <button
+        onClick={() => setEditing(true)}
+        className="p-1 -mt-0.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all flex-shrink-0"
+        title="Edit and resend"
+      >
+        <Pencil className="w-3 h-3" />
+      </button>
+    </div>
+  )
+}
+
+function PromptEditor({ message, onClose }: { message: Message; onClose: () => void }) {
+  const editMessage = useStore(state => state.editMessage)
+  const messages = useStore(state => state.messages)
+  const isStreaming = useStore(state => state.streamingSessions.has(message.sessionId))
+  const [content, setContent] = useState(message.content)
+  const [revert, setRevert] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [conflicts, setConflicts] = useState<CheckpointConflict[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const laterTurns = messages.slice(messages.findIndex(m => m.id === message.id) + 1)
+  const revertable = laterTurns.filter(m => m.checkpoint && m.checkpoint.files.length > 0 && !m.checkpoint.revertedAt)
+
+  const handleSubmit = async (mode: MessageEditMode, force = false) => {
+    if (!content.trim()) return
+    setBusy(true)
+    setError(null)
+    try {
+      const result = await editMessage(message.id, content.trim(), mode, { revert: mode === 'replace' && revert, force })
+      if (result.edited) {
+        onClose()
+      } else {
+        // WHY: Nothing was dropped yet — ask before overwriting edits made after those turns
+        setConflicts(result.conflicts)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : 'Could not resend the prompt')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div data-message-id={message.id} data-message-role={message.role} className="mb-4 flex items-start gap-2">
+      <Terminal className="w-4 h-4 text-muted-foreground flex-shrink-0 mt-2.5" />
+      <div className="flex-1 min-w-0 space-y-2">
+        <textarea
+          autoFocus
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault()
+              if (!isStreaming) handleSubmit('replace')
+            } else if (e.key === 'Escape') {
+              // Escape also stops the agent — only cancel the edit here
+              e.preventDefault()
+              e.stopPropagation()
+              onClose()
+            }
+          }}
+          rows={Math.min(12, Math.max(2, content.split('\n').length))}
+          className="w-full resize-none px-3 py-2 rounded-lg border border-border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        {conflicts ? (
+          <ConflictNotice
+            conflicts={conflicts}
+            busy={busy}
+            onCancel={() => setConflicts(null)}
+            onForce={() => handleSubmit('replace', true)}
+            forceLabel="Revert anyway and resend"
+          />
+        ) : (
+          <div className="flex items-center gap-3 text-xs">
+            {revertable.length > 0 && (
+              <label className="flex items-center gap-1.5 text-muted-foreground hover:text-foreground cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={revert}
+                  onChange={(e) => setRevert(e.target.checked)}
+                  className="accent-primary"
+                />
+                <Undo2 className="w-3 h-3" />
+                Revert file changes from later turns
+              </label>
+            )}
+            <div className="ml-auto flex items-center gap-2">
+              <button
+                onClick={onClose}
+                className="px-2.5 py-1 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+              >
+                Cancel
+              </button>
+              {laterTurns.length > 0 && (
+                <button
+                  onClick={() => handleSubmit('branch')}
+                  disabled={busy || !content.trim()}
+                  className="flex items-center gap-1.5 px-2.5 py-1 rounded-md border border-border hover:bg-muted transition-colors disabled:opacity-50"
+                  title="Keep this conversation as it is and run the edited prompt in a fork"
+                >
+                  <GitFork className="w-3 h-3" />
+                  Branch
+                </button>
+              )}
+              <button
+                onClick={() => handleSubmit('replace')}
+                disabled={busy || !content.trim() || isStreaming}
+                className="flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+                title={laterTurns.length > 0 ? 'Drop the turns after this prompt and run it again' : 'Run the prompt again'}
+              >
+                <CornerDownLeft className="w-3 h-3" />
+                Resend
+              </button>
+            </div>
+          </div>
+        )}
+        {isStreaming && laterTurns.length > 0 && (
+          <p className="text-xs text-muted-foreground">Stop the agent to resend here, or branch to let it finish</p>
+        )}
+        {error && <p className="text-xs text-destructive break-words">{error}</p>}
+      </div>
+    </div>
+  )
+}
+
+function UsageFooter({ usage }: { usage: MessageUsage }) {
+  const cached = usage.cacheReadTokens > 0 ? ` (${formatTokenCount(usage.cacheReadTokens)} cached)` : ''
+  return (
+    <div
+      className="mt-2 flex items-center gap-1.5 text-xs text-muted-foreground/70 opacity-0 group-hover:opacity-100 transition-opacity"
+      title={`${usage.calls} model call${usage.calls === 1 ? '' : 's'} · ${usage.cacheWriteTokens.toLocaleString()} cache write tokens`}
+    >
+      <Gauge className="w-3 h-3" />
+      <span>{formatTokenCount(usage.inputTokens)} in{cached}</span>
+      <span>·</span>
+      <span>{formatTokenCount(usage.outputTokens)} out</span>
+      <span>·</span>
+      <span>{formatPremiumRequests(usage.premiumRequests)}</span>
+      <span>·</span>
+      <span className="truncate">{usage.models.join(', ')}</span>
+    </div>
+  )
+}
+
+const CONFLICT_LABELS: Record<CheckpointConflict['reason'], string> = {
+  modified: 'changed since this turn',
+  created: 'created since this turn',
+  deleted: 'deleted since this turn',
+  unknown: 'turn did not finish'
+}
+
+function RevertTurnAction({ messageId, checkpoint }: { messageId: string; checkpoint: TurnCheckpoint }) {
+  const revertTurn = useStore(state => state.revertTurn)
+  const [reverting, setReverting] = useState(false)
+  const [conflicts, setConflicts] = useState<CheckpointConflict[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const fileCount = checkpoint.files.length
+  const filesLabel = `${fileCount} file${fileCount === 1 ? '' : 's'}`
+
+  if (checkpoint.revertedAt) {
+    return (
+      <div className="mt-3 flex items-center gap-1.5 text-xs text-muted-foreground/70">
+        <Undo2 className="w-3 h-3" />
+        <span>Reverted {filesLabel}</span>
+      </div>
+    )
+  }
+
+  const handleRevert = async (force: boolean) => {
+    setReverting(true)
+    setError(null)
+    try {
+      const result = await revertTurn(messageId, force)
+      // WHY: Conflicts without force mean nothing was written — ask before overwriting
+      // edits made after this turn (by the user or a later turn)
+      setConflicts(result.reverted ? null : result.conflicts)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Revert failed')
+    } finally {
+      setReverting(false)
+    }
+  }
+
+  if (conflicts) {
+    return (
+      <div className="mt-3">
+        <ConflictNotice
+          conflicts={conflicts}
+          busy={reverting}
+          onCancel={() => setConflicts(null)}
+          onForce={() => handleRevert(true)}
+          forceLabel="Revert anyway"
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-3 flex items-center gap-2 text-xs">
+      <button
+        onClick={() => handleRevert(false)}
+        disabled={reverting}
+        className="flex items-center gap-1.5 text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all disabled:opacity-50"
+        title={checkpoint.files.join('\n')}
+      >
+        <Undo2 className="w-3 h-3" />
+        <span>{reverting ? 'Reverting…' : `Revert this turn (${filesLabel})`}</span>
+      </button>
+      {error && <span className="text-destructive">{error}</span>}
+    </div>
+  )
+}
+
+function ConflictNotice({ conflicts, busy, onCancel, onForce, forceLabel }: {
+  conflicts: CheckpointConflict[]
+  busy: boolean
+  onCancel: () => void
+  onForce: () => void
+  forceLabel: string
+}) {
+  return (
+    <div className="rounded-md border border-orange-500/30 bg-orange-500/5 p-3 text-xs">
+      <div className="flex items-center gap-1.5 font-medium text-foreground">
+        <AlertTriangle className="w-3.5 h-3.5 text-orange-500" />
+        <span>{conflicts.length === 1 ? '1 file has' : `${conflicts.length} files have`} changed since this turn</span>
+      </div>
+      <ul className="mt-2 space-y-0.5">
+        {conflicts.map(c => (
+          <li key={c.path} className="flex gap-2 text-muted-foreground">
+            <span className="font-mono truncate" title={c.path}>{c.path}</span>
+            <span className="flex-shrink-0 opacity-70">{CONFLICT_LABELS[c.reason]}</span>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-3 flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-2.5 py-1 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onForce}
+          disabled={busy}
+          className="px-2.5 py-1 rounded-md bg-destructive text-destructive-foreground hover:bg-destructive/90 transition-colors disabled:opacity-50"
+        >
+          {forceLabel}
+        </button>
+      </div>
     </div>
   )
 }
@@ -0,0 +1,156 @@
+import { useState, useRef, useEffect, KeyboardEvent } from 'react'
+import { useStore } from '../store'
+import { cn } from '../lib/utils'
+import type { QueuedMessage } from '../shared/types'
+import { ListOrdered, ChevronUp, ChevronDown, X, Pencil, Send, Paperclip } from 'lucide-react'
+
+interface MessageQueueProps {
+  queue: QueuedMessage[]
+  isStreaming: boolean
+}
+
+interface QueueItemProps {
+  message: QueuedMessage
+  index: number
+  count: number
+  isStreaming: boolean
+}
+
+function QueueItem({ message, index, count, isStreaming }: QueueItemProps) {
+  const { updateQueuedMessage, removeQueuedMessage, moveQueuedMessage, sendQueuedNow } = useStore()
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState(message.content)
+  const inputRef = useRef<HTMLTextAreaElement>(null)
+
+  useEffect(() => {
+    if (editing) {
+      inputRef.current?.focus()
+      inputRef.current?.select()
+    }
+  }, [editing])
+
+  const save = async () => {
+    const trimmed = draft.trim()
+    setEditing(false)
+    if (!trimmed) {
+      await removeQueuedMessage(message.id)
+    } else if (trimmed !== message.content) {
+      await updateQueuedMessage(message.id, trimmed)
+    }
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      save()
+    } else if (e.key === 'Escape') {
+      // WHY: Escape is the global "stop generating" shortcut — cancelling an edit
+      // must not also abort the turn the queue is waiting on
+      e.preventDefault()
+      e.stopPropagation()
+      setDraft(message.content)
+      setEditing(false)
+    }
+  }
+
+  return (
+    <div className="group flex items-start gap-2 px-3 py-2 rounded-lg bg-muted/30 border border-border/50">
+      <span className="text-xs text-muted-foreground/60 tabular-nums pt-0.5">{index + 1}</span>
+      {editing ? (
+        <textarea
+          ref={inputRef}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={save}
+          rows={Math.min(draft.split('\n').length, 6)}
+          className="flex-1 bg-transparent resize-none outline-none text-sm"
+        />
+      ) : (
+        <p
+          onDoubleClick={() => setEditing(true)}
+          className="flex-1 min-w-0 text-sm text-foreground/80 whitespace-pre-wrap break-words line-clamp-3"
+        >
+          {message.content}
+        </p>
+      )}
+      {!editing && message.attachments && (
+        <span
+          className="flex items-center gap-0.5 pt-0.5 text-xs text-muted-foreground/60"
+          title={message.attachments.map(a => a.name).join('\n')}
+        >
+          <Paperclip className="w-3 h-3" />
+          {message.attachments.length}
+        </span>
+      )}
+      {!editing && (
+        <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+          {!isStreaming && (
+            <button
+              onClick={() => sendQueuedNow(message.id)}
+              className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-accent"
+              title="Send now"
+            >
+              <Send className="w-3 h-3" />
+            </button>
+          )}
+          <button
+            onClick={() => setEditing(true)}
+            className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-accent"
+            title="Edit"
+          >
+            <Pencil className="w-3 h-3" />
+          </button>
+          <button
+            onClick={() => moveQueuedMessage(message.id, index - 1)}
+            disabled={index === 0}
+            className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-accent disabled:opacity-30 disabled:pointer-events-none"
+            title="Move up"
+          >
+            <ChevronUp className="w-3 h-3" />
+          </button>
+          <button
+            onClick={() => moveQueuedMessage(message.id, index + 1)}
+            disabled={index === count - 1}
+            className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-accent disabled:opacity-30 disabled:pointer-events-none"
+            title="Move down"
+          >
+            <ChevronDown className="w-3 h-3" />
+          </button>
+          <button
+            onClick={() => removeQueuedMessage(message.id)}
+            className="p-1 rounded text-muted-foreground hover:text-destructive hover:bg-accent"
+            title="Remove from queue"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function MessageQueue({ queue, isStreaming }: MessageQueueProps) {
+  if (queue.length === 0) return null
+
+  return (
+    <div className="mb-3 space-y-1.5">
+      <div className="flex items-center gap-2 px-1 text-xs text-muted-foreground">
+        <ListOrdered className="w-3 h-3" />
+        <span>Queued</span>
+        <span className={cn('ml-auto', !isStreaming && 'text-orange-500')}>
+          {isStreaming ? 'Sends when the agent finishes' : 'Paused — send one to continue'}
+        </span>
+      </div>
+      {queue.map((message, index) => (
+        <QueueItem
+          key={message.id}
+          message={message}
+          index={index}
+          count={queue.length}
+          isStreaming={isStreaming}
+        />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+import { useEffect } from 'react'
+import type { PermissionRequest, PermissionDecision } from '../shared/types'
+import { ShieldAlert, Terminal, FileEdit, FileText, Globe, Plug, Wrench } from 'lucide-react'
+
+interface PermissionDialogProps {
+  request: PermissionRequest
+  workspace: string | null
+  queued: number // Further requests waiting behind this one
+  onRespond: (decision: PermissionDecision) => void
+}
+
+function kindLabel(kind: PermissionRequest['kind']): string {
+  switch (kind) {
+    case 'shell': return 'Run command'
+    case 'write': return 'Write file'
+    case 'read': return 'Read file'
+    case 'url': return 'Fetch URL'
+    case 'mcp': return 'Call MCP tool'
+    default: return 'Use tool'
+  }
+}
+
+function KindIcon({ kind }: { kind: PermissionRequest['kind'] }) {
+  switch (kind) {
+    case 'shell':
+      return <Terminal className="w-4 h-4 text-muted-foreground" />
+    case 'write':
+      return <FileEdit className="w-4 h-4 text-muted-foreground" />
+    case 'read':
+      return <FileText className="w-4 h-4 text-muted-foreground" />
+    case 'url':
+      return <Globe className="w-4 h-4 text-muted-foreground" />
+    case 'mcp':
+      return <Plug className="w-4 h-4 text-muted-foreground" />
+    default:
+      return <Wrench className="w-4 h-4 text-muted-foreground" />
+  }
+}
+
+// WHY: Rendered inside ChatPane (not as a global modal) — the request belongs to the
+// session being viewed, and the conversation above stays visible so the user can see
+// what the agent was doing when it asked.
+export function PermissionDialog({ request, workspace, queued, onRespond }: PermissionDialogProps) {
+  // Enter approves once, Escape denies — mirrors a native confirm dialog
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter' && !e.shiftKey && !(e.target instanceof HTMLTextAreaElement)) {
+        e.preventDefault()
+        e.stopPropagation()
+        onRespond('allow-once')
+      } else if (e.key === 'Escape') {
+        e.preventDefault()
+        e.stopPropagation()
+        onRespond('deny')
+      }
+    }
+    // WHY: Capture phase so Escape denies the request instead of reaching App's
+    // global handler, which would abort the whole streaming turn
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [onRespond])
+
+  const scope = workspace ? `in ${workspace}` : 'for the system agent'
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-end justify-center p-6">
+      <div className="absolute inset-0 bg-background/60" />
+      <div className="relative w-full max-w-2xl bg-card border border-border rounded-lg shadow-xl p-5">
+        <div className="flex items-start gap-3">
+          <div className="flex-shrink-0 w-9 h-9 rounded-full bg-orange-500/10 flex items-center justify-center">
+            <ShieldAlert className="w-5 h-5 text-orange-500" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <KindIcon kind={request.kind} />
+              <h3 className="text-sm font-semibold text-foreground">{kindLabel(request.kind)}</h3>
+              {queued > 0 && (
+                <span className="ml-auto text-xs text-muted-foreground">+{queued} more waiting</span>
+              )}
+            </div>
+            {request.intention && (
+              <p className="mt-1 text-xs text-muted-foreground">{request.intention}</p>
+            )}
+            <pre className="mt-2 font-mono text-xs whitespace-pre-wrap break-all bg-muted/40 rounded px-2 py-1.5 max-h-40 overflow-y-auto">
+              {request.summary || request.target}
+            </pre>
+          </div>
+        </div>
+        <div className="mt-4 flex flex-wrap justify-end gap-2">
+          <button
+            onClick={() => onRespond('deny-always')}
+            className="px-3 py-1.5 text-xs font-medium rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+            title={`Always deny "${request.target}" ${scope}`}
+          >
+            Always deny
+          </button>
+          <button
+            onClick={() => onRespond('deny')}
+            className="px-3 py-1.5 text-xs font-medium rounded-md border border-border hover:bg-muted text-foreground transition-colors"
+            title="Deny (Esc)"
+          >
+            Deny
+          </button>
+          <button
+            onClick={() => onRespond('allow-always')}
+            className="px-3 py-1.5 text-xs font-medium rounded-md border border-border hover:bg-muted text-foreground transition-colors"
+            title={`Always allow "${request.target}" ${scope}`}
+          >
+            Always allow
+          </button>
+          <button
+            onClick={() => onRespond('allow-session')}
+            className="px-3 py-1.5 text-xs font-medium rounded-md border border-border hover:bg-muted text-foreground transition-colors"
+            title={`Allow "${request.target}" until this session ends`}
+          >
+            Allow for session
+          </button>
+          <button
+            onClick={() => onRespond('allow-once')}
+            className="px-3 py-1.5 text-xs font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+            title="Allow once (Enter)"
+          >
+            Allow once
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
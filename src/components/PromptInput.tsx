@@ -1,10 +1,13 @@
-import { useState, useRef, useEffect, useCallback, useMemo, KeyboardEvent, forwardRef, useImperativeHandle } from 'react'
+import { useState, useRef, useEffect, useCallback, useMemo, KeyboardEvent, ClipboardEvent, DragEvent, forwardRef, useImperativeHandle } from 'react'
 import { useStore } from '../store'
 import { cn } from '../lib/utils'
-import { Send, Loader2, Square } from 'lucide-react'
+import { AttachmentChip } from './AttachmentChip'
+import type { PromptTemplate, Attachment } from '../shared/types'
+import { Send, Loader2, Square, SquareSlash, Paperclip } from 'lucide-react'
 
 interface PromptInputProps {
-  onSend: (content: string, workspace?: string) => Promise<void>
+  onSend: (content: string, workspace?: string, attachments?: Attachment[]) => Promise<void>
+  onQueue?: (content: string, attachments?: Attachment[]) => Promise<void> // Accept input while the agent is streaming
   disabled?: boolean
   centered?: boolean
 }
@@ -13,21 +16,32 @@ export interface PromptInputHandle {
   focus: () => void
 }
 
-export const PromptInput = forwardRef<PromptInputHandle, PromptInputProps>(function PromptInput({ onSend, disabled, centered }, ref) {
+interface PendingAttachment {
+  attachment: Attachment
+  previewUrl?: string // Object URL of a dropped or pasted image
+}
+
+export const PromptInput = forwardRef<PromptInputHandle, PromptInputProps>(function PromptInput({ onSend, onQueue, disabled, centered }, ref) {
   const [value, setValue] = useState('')
   const [showAutocomplete, setShowAutocomplete] = useState(false)
   const [autocompleteIndex, setAutocompleteIndex] = useState(0)
   const [mentionStart, setMentionStart] = useState<number | null>(null)
   const [mentionFilter, setMentionFilter] = useState('')
   const [tabTrigger, setTabTrigger] = useState(false) // Track if autocomplete was triggered by Tab
+  const [commandStart, setCommandStart] = useState<number | null>(null) // Index of the "/" being completed
+  const [commandFilter, setCommandFilter] = useState('')
+  const [sendError, setSendError] = useState<string | null>(null)
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([])
+  const [dragging, setDragging] = useState(false)
   const [sending, setSending] = useState(false)
   
   const inputRef = useRef<HTMLTextAreaElement>(null)
   const autocompleteRef = useRef<HTMLDivElement>(null)
   
-  const { workspaces, activeSessionId, aborting, abortSession, streamingSessions } = useStore()
+  const { workspaces, sessions, promptTemplates, loadPromptTemplates, activeSessionId, aborting, abortSession, streamingSessions } = useStore()
   // Use streamingSessions (Set) for boolean check - more reliable reactivity than Map.has()
   const isStreaming = activeSessionId ? streamingSessions.has(activeSessionId) : false
+  const canQueue = isStreaming && !!onQueue && !aborting
 
   // Expose focus method to parent
   useImperativeHandle(ref, () => ({
@@ -45,13 +59,38 @@ export const PromptInput = forwardRef<PromptInputHandle, PromptInputProps>(funct
     [workspaces, mentionFilter]
   )
 
+  const filteredTemplates = useMemo(() =>
+    commandStart === null ? [] : promptTemplates.filter(t =>
+      t.name.toLowerCase().includes(commandFilter.toLowerCase())
+    ).slice(0, 8),
+    [promptTemplates, commandStart, commandFilter]
+  )
+  const showCommands = filteredTemplates.length > 0
+
   const handleChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newValue = e.target.value
     const cursorPos = e.target.selectionStart
     setValue(newValue)
+    setSendError(null)
 
-    // Check for @ trigger
     const beforeCursor = newValue.slice(0, cursorPos)
+
+    // Check for a /command at the start of the prompt, after an optional @mention
+    const commandMatch = beforeCursor.match(/^(@(\S+)\s+)?\/([\w.-]*)$/)
+    if (commandMatch) {
+      // Templates are loaded when the command starts — the mention decides whose apply
+      if (commandStart === null) {
+        loadPromptTemplates(commandMatch[2])
+      }
+      setCommandStart(commandMatch[1]?.length ?? 0)
+      setCommandFilter(commandMatch[3])
+      setAutocompleteIndex(0)
+      setShowAutocomplete(false)
+      return
+    }
+    setCommandStart(null)
+
+    // Check for @ trigger
     const lastAtIndex = beforeCursor.lastIndexOf('@')
     
     if (lastAtIndex !== -1) {
@@ -69,7 +108,25 @@ export const PromptInput = forwardRef<PromptInputHandle, PromptInputProps>(funct
     setShowAutocomplete(false)
     setMentionStart(null)
     setMentionFilter('')
-  }, [])
+  }, [commandStart, loadPromptTemplates])
+
+  const selectTemplate = useCallback((template: PromptTemplate) => {
+    if (commandStart === null) return
+    const before = value.slice(0, commandStart)
+    const after = value.slice(commandStart + 1 + commandFilter.length).trimStart()
+    const inserted = `/${template.name} `
+    setValue(`${before}${inserted}${after}`)
+    setCommandStart(null)
+    setCommandFilter('')
+
+    requestAnimationFrame(() => {
+      if (inputRef.current) {
+        inputRef.current.focus()
+        const newCursorPos = before.length + inserted.length
+        inputRef.current.setSelectionRange(newCursorPos, newCursorPos)
+      }
+    })
+  }, [commandStart, commandFilter, value])
 
   const selectWorkspace = useCallback((workspace: { name: string; displayName: string }) => {
     if (tabTrigger) {
@@ -118,7 +175,93 @@ export const PromptInput = forwardRef<PromptInputHandle, PromptInputProps>(funct
     }
   }, [mentionStart, mentionFilter, value, tabTrigger])
 
+  const addAttachments = useCallback((added: PendingAttachment[]) => {
+    setAttachments(current => [
+      ...current,
+      ...added.filter(a => !current.some(c => c.attachment.path === a.attachment.path))
+    ])
+  }, [])
+
+  // Files with a path on disk are referenced in place; anything else is saved first
+  const addFiles = useCallback(async (files: File[]) => {
+    setSendError(null)
+    try {
+      const added: PendingAttachment[] = []
+      for (const file of files) {
+        const filePath = window.accrew.attachments.pathForFile(file)
+        const [attachment] = filePath
+          ? await window.accrew.attachments.fromPaths([filePath])
+          : [await window.accrew.attachments.save(file.name || 'pasted', await file.arrayBuffer(), file.type)]
+        if (attachment) {
+          added.push({ attachment, previewUrl: attachment.mimeType ? URL.createObjectURL(file) : undefined })
+        }
+      }
+      addAttachments(added)
+    } catch (err) {
+      setSendError(err instanceof Error ? err.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : 'Could not attach file')
+    }
+  }, [addAttachments])
+
+  const pickAttachments = useCallback(async () => {
+    const workspacePath = sessions.find(s => s.id === activeSessionId)?.workspacePath
+    const picked = await window.accrew.attachments.pick(workspacePath || undefined)
+    addAttachments(picked.map(attachment => ({ attachment })))
+    inputRef.current?.focus()
+  }, [sessions, activeSessionId, addAttachments])
+
+  const removeAttachment = useCallback((path: string) => {
+    setAttachments(current => current.filter(a => {
+      if (a.attachment.path !== path) return true
+      if (a.previewUrl) URL.revokeObjectURL(a.previewUrl)
+      return false
+    }))
+  }, [])
+
+  // WHY: Only files are taken over — pasting text must keep working as usual
+  const handlePaste = useCallback((e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files)
+    if (files.length > 0) {
+      e.preventDefault()
+      addFiles(files)
+    }
+  }, [addFiles])
+
+  const handleDragOver = useCallback((e: DragEvent<HTMLDivElement>) => {
+    if (e.dataTransfer.types.includes('Files')) {
+      e.preventDefault()
+      setDragging(true)
+    }
+  }, [])
+
+  const handleDrop = useCallback((e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setDragging(false)
+    addFiles(Array.from(e.dataTransfer.files))
+  }, [addFiles])
+
   const handleKeyDown = useCallback((e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (showCommands) {
+      switch (e.key) {
+        case 'ArrowDown':
+          e.preventDefault()
+          setAutocompleteIndex(i => Math.min(i + 1, filteredTemplates.length - 1))
+          return
+        case 'ArrowUp':
+          e.preventDefault()
+          setAutocompleteIndex(i => Math.max(i - 1, 0))
+          return
+        case 'Enter':
+        case 'Tab':
+          e.preventDefault()
+          selectTemplate(filteredTemplates[autocompleteIndex])
+          return
+        case 'Escape':
+          e.preventDefault()
+          setCommandStart(null)
+          return
+      }
+    }
+
     if (showAutocomplete && filteredWorkspaces.length > 0) {
       switch (e.key) {
         case 'ArrowDown':
@@ -223,24 +366,50 @@ export const PromptInput = forwardRef<PromptInputHandle, PromptInputProps>(funct
       e.preventDefault()
       handleSubmit()
     }
-  }, [showAutocomplete, filteredWorkspaces, autocompleteIndex, selectWorkspace, value, workspaces])
+  }, [showCommands, filteredTemplates, selectTemplate, showAutocomplete, filteredWorkspaces, autocompleteIndex, selectWorkspace, value, workspaces, canQueue])
 
   const handleSubmit = useCallback(async () => {
     const trimmed = value.trim()
-    if (!trimmed || disabled || sending || aborting) return
+    if (!trimmed) return
+
+    const sentAttachments = attachments
+    const attached = attachments.map(a => a.attachment)
+
+    if (canQueue && onQueue) {
+      setValue('')
+      setAttachments([])
+      try {
+        await onQueue(trimmed, attached)
+      } catch (err) {
+        console.error('Failed to queue message:', err)
+        setValue(current => current || value)
+        setAttachments(current => current.length > 0 ? current : sentAttachments)
+        setSendError(err instanceof Error ? err.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : 'Could not queue message')
+      }
+      return
+    }
+
+    if (disabled || sending || aborting) return
 
-    const mentionMatch = trimmed.match(/^@(\S+)\s*(.*)$/)
+    // WHY: Only a new session takes its workspace from the leading mention — in a reply
+    // the mention stays in the prompt, where it links the workspace to the session
+    const mentionMatch = centered ? trimmed.match(/^@(\S+)\s*(.*)$/) : null
     const workspace = mentionMatch ? mentionMatch[1] : undefined
     const prompt = mentionMatch ? (mentionMatch[2] || trimmed) : trimmed
 
     setSending(true)
     try {
-      await onSend(prompt, workspace)
-      setValue('')
+      await onSend(prompt, workspace, attached)
+      // WHY: Only clear what was sent — the turn can run for minutes before onSend
+      // resolves, and anything typed meanwhile is a follow-up the user still wants
+      setValue(current => current === value ? '' : current)
+      setAttachments(current => current === sentAttachments ? [] : current)
+    } catch (err) {
+      setSendError(err instanceof Error ? err.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : 'Could not send message')
     } finally {
       setSending(false)
     }
-  }, [value, disabled, sending, aborting, onSend])
+  }, [value, attachments, disabled, sending, aborting, canQueue, onQueue, onSend, centered])
 
   // Stable textarea height - only grow, don't shrink while typing
   useEffect(() => {
@@ -265,21 +434,60 @@ export const PromptInput = forwardRef<PromptInputHandle, PromptInputProps>(funct
 
   // Scroll autocomplete selection into view
   useEffect(() => {
-    if (showAutocomplete && autocompleteRef.current) {
+    if ((showAutocomplete || showCommands) && autocompleteRef.current) {
       const selected = autocompleteRef.current.children[autocompleteIndex] as HTMLElement
       selected?.scrollIntoView({ block: 'nearest' })
     }
-  }, [autocompleteIndex, showAutocomplete])
+  }, [autocompleteIndex, showAutocomplete, showCommands])
 
   const handleAbort = useCallback(async () => {
     await abortSession()
   }, [abortSession])
 
-  const isDisabled = disabled || sending || aborting
+  // WHY: While streaming, the input stays usable when it can queue — the prompt that
+  // started the turn is still "sending" until the turn ends
+  const isDisabled = (disabled || sending || aborting) && !canQueue
   const canSend = value.trim() && !isDisabled && !isStreaming
 
   return (
     <div className="relative w-full">
+      {/* Command autocomplete dropdown */}
+      {showCommands && (
+        <div
+          ref={autocompleteRef}
+          className="absolute bottom-full left-0 right-0 mb-2 bg-popover border border-border rounded-lg shadow-lg overflow-hidden max-h-64 overflow-y-auto z-10"
+        >
+          {filteredTemplates.map((template, index) => (
+            <button
+              key={template.name}
+              className={cn(
+                'w-full flex items-start gap-3 px-3 py-2.5 text-left',
+                index === autocompleteIndex ? 'bg-accent' : 'hover:bg-muted/50'
+              )}
+              onClick={() => selectTemplate(template)}
+              onMouseEnter={() => setAutocompleteIndex(index)}
+              title={template.path}
+            >
+              <SquareSlash className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium font-mono truncate">/{template.name}</span>
+                  {template.placeholders.map(key => (
+                    <span key={key} className="text-xs font-mono text-muted-foreground">{`{{${key}}}`}</span>
+                  ))}
+                  {template.source === 'workspace' && (
+                    <span className="ml-auto text-xs text-muted-foreground/60">workspace</span>
+                  )}
+                </div>
+                {template.description && (
+                  <p className="text-xs text-muted-foreground truncate">{template.description}</p>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Autocomplete dropdown */}
       {showAutocomplete && filteredWorkspaces.length > 0 && (
         <div
@@ -306,67 +514,99 @@ export const PromptInput = forwardRef<PromptInputHandle, PromptInputProps>(funct
       )}
 
       {/* Input container */}
-      <div className={cn(
-        "flex items-center gap-2 rounded-2xl border w-full transition-all",
-        centered 
-          ? "bg-card border-border shadow-lg shadow-black/5" 
-          : "bg-muted/30 border-border/50",
-        "focus-within:border-muted-foreground/50 focus-within:shadow-lg focus-within:shadow-black/10"
-      )}>
-        <textarea
-          ref={inputRef}
-          value={value}
-          onChange={handleChange}
-          onKeyDown={handleKeyDown}
-          placeholder={aborting ? "Stopping..." : (centered ? "What would you like to do?" : "Reply...")}
-          disabled={isDisabled}
-          rows={1}
-          className={cn(
-            "flex-1 bg-transparent resize-none outline-none border-none focus:ring-0 focus:outline-none placeholder:text-muted-foreground/50 disabled:opacity-50",
-            centered 
-              ? "px-6 py-4 text-lg min-h-[56px]" 
-              : "px-4 py-3 text-sm min-h-[44px]"
-          )}
-        />
-        {isStreaming || aborting ? (
-          <button
-            onClick={handleAbort}
-            disabled={aborting}
+      <div
+        onDragOver={handleDragOver}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          "flex flex-col rounded-2xl border w-full transition-all",
+          centered 
+            ? "bg-card border-border shadow-lg shadow-black/5" 
+            : "bg-muted/30 border-border/50",
+          "focus-within:border-muted-foreground/50 focus-within:shadow-lg focus-within:shadow-black/10",
+          dragging && "border-primary/60 bg-primary/5"
+        )}
+      >
+        {attachments.length > 0 && (
+          <div className={cn("flex flex-wrap gap-1.5", centered ? "px-5 pt-3" : "px-3 pt-2.5")}>
+            {attachments.map(({ attachment, previewUrl }) => (
+              <AttachmentChip
+                key={attachment.path}
+                attachment={attachment}
+                previewUrl={previewUrl}
+                onRemove={() => removeAttachment(attachment.path)}
+              />
+            ))}
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <textarea
+            ref={inputRef}
+            value={value}
+            onChange={handleChange}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            placeholder={aborting ? "Stopping..." : canQueue ? "Queue a follow-up..." : (centered ? "What would you like to do?" : "Reply...")}
+            disabled={isDisabled}
+            rows={1}
             className={cn(
-              'rounded-xl flex-shrink-0 self-center',
-              aborting 
-                ? 'bg-muted text-muted-foreground cursor-not-allowed'
-                : 'bg-destructive text-destructive-foreground hover:bg-destructive/90',
-              centered ? 'p-3 mr-3' : 'p-2.5 mr-2'
+              "flex-1 bg-transparent resize-none outline-none border-none focus:ring-0 focus:outline-none placeholder:text-muted-foreground/50 disabled:opacity-50",
+              centered 
+                ? "px-6 py-4 text-lg min-h-[56px]" 
+                : "px-4 py-3 text-sm min-h-[44px]"
             )}
-            title={aborting ? "Stopping..." : "Stop generating (Esc)"}
-          >
-            {aborting ? (
-              <Loader2 className={cn("animate-spin", centered ? "w-5 h-5" : "w-4 h-4")} />
-            ) : (
-              <Square className={cn(centered ? "w-5 h-5" : "w-4 h-4")} fill="currentColor" />
-            )}
-          </button>
-        ) : (
+          />
           <button
-            onClick={handleSubmit}
-            disabled={!canSend}
-            className={cn(
-              'rounded-xl flex-shrink-0 self-center',
-              centered ? 'p-3 mr-3' : 'p-2.5 mr-2',
-              canSend
-                ? 'bg-primary text-primary-foreground hover:bg-primary/90'
-                : 'bg-transparent text-muted-foreground/40'
-            )}
+            onClick={pickAttachments}
+            disabled={isDisabled}
+            className="p-1.5 rounded-lg flex-shrink-0 self-center text-muted-foreground hover:text-foreground hover:bg-accent/50 disabled:opacity-50 disabled:pointer-events-none"
+            title="Attach files or folders (or drop / paste them)"
           >
-            {sending ? (
-              <Loader2 className={cn("animate-spin", centered ? "w-5 h-5" : "w-4 h-4")} />
-            ) : (
-              <Send className={cn(centered ? "w-5 h-5" : "w-4 h-4")} />
-            )}
+            <Paperclip className={cn(centered ? "w-5 h-5" : "w-4 h-4")} />
           </button>
-        )}
+          {isStreaming || aborting ? (
+            <button
+              onClick={handleAbort}
+              disabled={aborting}
+              className={cn(
+                'rounded-xl flex-shrink-0 self-center',
+                aborting 
+                  ? 'bg-muted text-muted-foreground cursor-not-allowed'
+                  : 'bg-destructive text-destructive-foreground hover:bg-destructive/90',
+                centered ? 'p-3 mr-3' : 'p-2.5 mr-2'
+              )}
+              title={aborting ? "Stopping..." : "Stop generating (Esc)"}
+            >
+              {aborting ? (
+                <Loader2 className={cn("animate-spin", centered ? "w-5 h-5" : "w-4 h-4")} />
+              ) : (
+                <Square className={cn(centered ? "w-5 h-5" : "w-4 h-4")} fill="currentColor" />
+              )}
+            </button>
+          ) : (
+            <button
+              onClick={handleSubmit}
+              disabled={!canSend}
+              className={cn(
+                'rounded-xl flex-shrink-0 self-center',
+                centered ? 'p-3 mr-3' : 'p-2.5 mr-2',
+                canSend
+                  ? 'bg-primary text-primary-foreground hover:bg-primary/90'
+                  : 'bg-transparent text-muted-foreground/40'
+              )}
+            >
+              {sending ? (
+                <Loader2 className={cn("animate-spin", centered ? "w-5 h-5" : "w-4 h-4")} />
+              ) : (
+                <Send className={cn(centered ? "w-5 h-5" : "w-4 h-4")} />
+              )}
+            </button>
+          )}
+        </div>
       </div>
+      {sendError && (
+        <p className="mt-2 px-2 text-xs text-destructive break-words">{sendError}</p>
+      )}
     </div>
   )
 })
@@ -0,0 +1,237 @@
+import { useState, useEffect } from 'react'
+import { useStore } from '../store'
+import { cn, formatRelativeTime, truncate } from '../lib/utils'
+import type { ScheduledJob } from '../shared/types'
+import { X, CalendarClock, Play, Pause, Trash2, Plus, GitBranch, AlertTriangle } from 'lucide-react'
+
+function formatRunTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+function errorText(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : fallback
+}
+
+export function ScheduleDialog() {
+  const { schedulesOpen, setSchedulesOpen, scheduledJobs, loadScheduledJobs, setActiveSession } = useStore()
+  const [prompt, setPrompt] = useState('')
+  const [scheduleText, setScheduleText] = useState('')
+  const [worktree, setWorktree] = useState(false)
+  const [preview, setPreview] = useState<{ nextRunAt: number | null } | { error: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (schedulesOpen) {
+      loadScheduledJobs()
+    }
+  }, [schedulesOpen, loadScheduledJobs])
+
+  // Confirm what the schedule text was understood as while it's typed
+  useEffect(() => {
+    if (!scheduleText.trim()) {
+      setPreview(null)
+      return
+    }
+    let stale = false
+    window.accrew.schedule.preview(scheduleText)
+      .then(nextRunAt => !stale && setPreview({ nextRunAt }))
+      .catch(err => !stale && setPreview({ error: errorText(err, 'Invalid schedule') }))
+    return () => { stale = true }
+  }, [scheduleText])
+
+  if (!schedulesOpen) return null
+
+  const handleAdd = async () => {
+    setError(null)
+    try {
+      await window.accrew.schedule.create(prompt, scheduleText, worktree)
+      setPrompt('')
+      setScheduleText('')
+      setWorktree(false)
+    } catch (err) {
+      setError(errorText(err, 'Could not schedule the job'))
+    }
+  }
+
+  // Job list refreshes through the schedule:updated event
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(errorText(err, 'Something went wrong'))
+    }
+  }
+
+  const openSession = (sessionId: string) => {
+    setActiveSession(sessionId)
+    setSchedulesOpen(false)
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-background/80 backdrop-blur-sm"
+        onClick={() => setSchedulesOpen(false)}
+      />
+
+      {/* Dialog */}
+      <div className="relative bg-card border border-border rounded-xl shadow-2xl w-full max-w-2xl mx-4 animate-in">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+          <h2 className="flex items-center gap-2 text-lg font-semibold">
+            <CalendarClock className="w-5 h-5 text-muted-foreground" />
+            Scheduled jobs
+          </h2>
+          <button
+            onClick={() => setSchedulesOpen(false)}
+            className="p-1.5 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+          {/* New job */}
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Each run starts a new session, which shows up unread in the sidebar. Runs missed while Accrew was closed happen when it next starts.
+            </p>
+            <textarea
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              placeholder="@api run a dependency audit and summarize what needs updating"
+              rows={3}
+              className="w-full resize-none px-3 py-2 rounded-lg border border-border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={scheduleText}
+                onChange={(e) => setScheduleText(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && prompt.trim() && handleAdd()}
+                placeholder="every weekday at 9:00, tonight, tomorrow at 7am"
+                className="flex-1 px-3 py-2 rounded-lg border border-border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+              <button
+                onClick={handleAdd}
+                disabled={!prompt.trim() || !scheduleText.trim() || (preview !== null && 'error' in preview)}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                Schedule
+              </button>
+            </div>
+            <div className="flex items-center gap-3 text-xs">
+              <label className="flex items-center gap-1.5 text-muted-foreground hover:text-foreground cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={worktree}
+                  onChange={(e) => setWorktree(e.target.checked)}
+                  className="accent-primary"
+                />
+                <GitBranch className="w-3 h-3" />
+                Work in a new worktree
+              </label>
+              {preview && (
+                'error' in preview
+                  ? <span className="text-destructive truncate">{preview.error}</span>
+                  : preview.nextRunAt !== null && <span className="text-muted-foreground">First run {formatRunTime(preview.nextRunAt)}</span>
+              )}
+            </div>
+            {error && <p className="text-xs text-destructive break-words">{error}</p>}
+          </div>
+
+          {/* Jobs */}
+          {scheduledJobs.length === 0 ? (
+            <p className="text-xs text-muted-foreground/60">No scheduled jobs yet</p>
+          ) : (
+            <div className="rounded-lg border border-border divide-y divide-border">
+              {scheduledJobs.map((job) => (
+                <JobRow
+                  key={job.id}
+                  job={job}
+                  onToggle={() => runAction(() => window.accrew.schedule.setEnabled(job.id, !job.enabled))}
+                  onRunNow={() => runAction(async () => openSession(await window.accrew.schedule.runNow(job.id)))}
+                  onDelete={() => runAction(() => window.accrew.schedule.delete(job.id))}
+                  onOpenSession={openSession}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function JobRow({ job, onToggle, onRunNow, onDelete, onOpenSession }: {
+  job: ScheduledJob
+  onToggle: () => void
+  onRunNow: () => void
+  onDelete: () => void
+  onOpenSession: (sessionId: string) => void
+}) {
+  const finished = job.nextRunAt === null
+
+  return (
+    <div className={cn('group flex items-start gap-3 px-3 py-2 text-xs', !job.enabled && 'opacity-60')}>
+      <div className="flex-1 min-w-0 space-y-0.5">
+        <p className="text-sm truncate" title={job.prompt}>{truncate(job.prompt, 120)}</p>
+        <div className="flex items-center gap-1.5 text-muted-foreground">
+          <span>{job.scheduleText}</span>
+          {job.worktree && <GitBranch className="w-3 h-3" />}
+          <span>·</span>
+          <span>
+            {finished ? 'Done' : !job.enabled ? 'Paused' : `Next ${formatRunTime(job.nextRunAt!)}`}
+          </span>
+          {job.lastRunAt && (
+            <>
+              <span>·</span>
+              {job.lastSessionId && !job.lastError ? (
+                <button onClick={() => onOpenSession(job.lastSessionId!)} className="hover:text-foreground underline-offset-2 hover:underline">
+                  Last run {formatRelativeTime(job.lastRunAt)}
+                </button>
+              ) : (
+                <span>Last run {formatRelativeTime(job.lastRunAt)}</span>
+              )}
+            </>
+          )}
+        </div>
+        {job.lastError && (
+          <p className="flex items-center gap-1 text-destructive">
+            <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate" title={job.lastError}>{job.lastError}</span>
+          </p>
+        )}
+      </div>
+      <div className="flex items-center gap-0.5 flex-shrink-0">
+        <button
+          onClick={onRunNow}
+          className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+          title="Run now"
+        >
+          <Play className="w-3.5 h-3.5" />
+        </button>
+        {!finished && (
+          <button
+            onClick={onToggle}
+            className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+            title={job.enabled ? 'Pause' : 'Resume'}
+          >
+            {job.enabled ? <Pause className="w-3.5 h-3.5" /> : <CalendarClock className="w-3.5 h-3.5" />}
+          </button>
+        )}
+        <button
+          onClick={onDelete}
+          className="p-1 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors"
+          title="Delete job"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  )
+}
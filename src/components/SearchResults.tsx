@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react'
+import { useStore } from '../store'
+import { cn, formatRelativeTime } from '../lib/utils'
+import type { SearchResult } from '../shared/types'
+import { SEARCH_MATCH_START, SEARCH_MATCH_END } from '../shared/types'
+import { Search, Folder, User, Bot } from 'lucide-react'
+
+interface SearchResultsProps {
+  query: string
+}
+
+// Queries shorter than this match too much of the history to be useful
+const MIN_QUERY_LENGTH = 2
+const SEARCH_DEBOUNCE_MS = 250
+
+// WHY: Snippets mark matches with private-use sentinels instead of HTML — message
+// content is untrusted, so it is split into text nodes rather than rendered as markup
+function Snippet({ text }: { text: string }) {
+  const parts: { text: string; match: boolean }[] = []
+  for (const segment of text.split(SEARCH_MATCH_START)) {
+    const end = segment.indexOf(SEARCH_MATCH_END)
+    if (end === -1) {
+      parts.push({ text: segment, match: false })
+    } else {
+      parts.push({ text: segment.slice(0, end), match: true })
+      parts.push({ text: segment.slice(end + SEARCH_MATCH_END.length), match: false })
+    }
+  }
+
+  return (
+    <>
+      {parts.map((part, i) => part.match ? (
+        <mark key={i} className="bg-yellow-500/25 text-foreground rounded-sm">{part.text}</mark>
+      ) : (
+        <span key={i}>{part.text}</span>
+      ))}
+    </>
+  )
+}
+
+export function SearchResults({ query }: SearchResultsProps) {
+  const { searchMessages, openSearchResult } = useStore()
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [searching, setSearching] = useState(false)
+
+  const trimmed = query.trim()
+
+  useEffect(() => {
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([])
+      return
+    }
+
+    // WHY: Ignore responses for queries the user has already typed past — results
+    // arrive out of order when an earlier, broader query takes longer
+    let cancelled = false
+    setSearching(true)
+    const timer = setTimeout(async () => {
+      try {
+        const found = await searchMessages(trimmed)
+        if (!cancelled) setResults(found)
+      } catch (error) {
+        console.error('Search failed:', error)
+        if (!cancelled) setResults([])
+      } finally {
+        if (!cancelled) setSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [trimmed, searchMessages])
+
+  if (trimmed.length < MIN_QUERY_LENGTH) return null
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center gap-2 px-4 py-2 text-xs font-medium text-muted-foreground">
+        <Search className="w-3 h-3" />
+        <span>In messages</span>
+        {!searching && <span className="ml-auto text-xs opacity-60">{results.length}</span>}
+      </div>
+      {searching && results.length === 0 ? (
+        <p className="px-4 py-2 text-xs text-muted-foreground/60">Searching…</p>
+      ) : results.length === 0 ? (
+        <p className="px-4 py-2 text-xs text-muted-foreground/60">No matching messages</p>
+      ) : (
+        <div className={cn('space-y-0.5 px-2', searching && 'opacity-60')}>
+          {results.map((result) => (
+            <div
+              key={result.messageId}
+              onClick={() => openSearchResult(result)}
+              className="px-3 py-2 rounded-lg cursor-pointer hover:bg-accent/50 transition-colors"
+            >
+              <div className="flex items-center gap-1.5">
+                {result.role === 'user' ? (
+                  <User className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+                ) : (
+                  <Bot className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+                )}
+                <span className="text-xs font-medium text-foreground truncate">{result.sessionTitle}</span>
+              </div>
+              <p className="mt-1 text-xs text-muted-foreground line-clamp-3 break-words">
+                <Snippet text={result.snippet} />
+              </p>
+              <div className="flex items-center gap-1.5 text-xs text-muted-foreground/70 mt-1">
+                {result.workspace && (
+                  <>
+                    <Folder className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate">{result.workspace}</span>
+                    <span>·</span>
+                  </>
+                )}
+                <span className="whitespace-nowrap">{formatRelativeTime(result.createdAt)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
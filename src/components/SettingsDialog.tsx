@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import { useStore } from '../store'
-import { X, Folder, Type, Cpu, Bug } from 'lucide-react'
+import { X, Folder, Type, Cpu, Bug, ShieldCheck, Trash2, Bell, Archive, Bot, Layers } from 'lucide-react'
+import type { AgentProviderName, PermissionRule, RetentionPreview, Session } from '../shared/types'
 
 interface ModelInfo {
   id: string
@@ -13,9 +14,19 @@ export function SettingsDialog() {
   const [workspaceDepth, setWorkspaceDepth] = useState(1)
   const [diffFont, setDiffFont] = useState('')
   const [diffFontSize, setDiffFontSize] = useState(13)
+  const [provider, setProvider] = useState<AgentProviderName>('copilot')
+  const [openaiBaseUrl, setOpenaiBaseUrl] = useState('')
+  const [openaiApiKey, setOpenaiApiKey] = useState('')
+  const [fakeFixture, setFakeFixture] = useState('')
   const [model, setModel] = useState('')
   const [debugEnabled, setDebugEnabled] = useState(false)
+  const [notificationsEnabled, setNotificationsEnabled] = useState(true)
+  const [archiveAfterDays, setArchiveAfterDays] = useState(2)
+  const [deleteAfterDays, setDeleteAfterDays] = useState(90)
+  const [maxConcurrentRuns, setMaxConcurrentRuns] = useState(3)
+  const [retentionPreview, setRetentionPreview] = useState<RetentionPreview | null>(null)
   const [availableModels, setAvailableModels] = useState<ModelInfo[]>([])
+  const [permissionRules, setPermissionRules] = useState<PermissionRule[]>([])
 
   useEffect(() => {
     if (config) {
@@ -23,8 +34,16 @@ export function SettingsDialog() {
       setWorkspaceDepth(config.workspaceDepth)
       setDiffFont(config.diffFont)
       setDiffFontSize(config.diffFontSize)
+      setProvider(config.provider)
+      setOpenaiBaseUrl(config.openaiCompatible?.baseUrl ?? '')
+      setOpenaiApiKey(config.openaiCompatible?.apiKey ?? '')
+      setFakeFixture(config.fakeProvider?.fixture ?? '')
       setModel(config.model)
       setDebugEnabled(config.debug)
+      setNotificationsEnabled(config.notifications)
+      setArchiveAfterDays(config.archiveAfterDays)
+      setDeleteAfterDays(config.deleteAfterDays)
+      setMaxConcurrentRuns(config.maxConcurrentRuns)
     }
   }, [config])
 
@@ -36,19 +55,45 @@ export function SettingsDialog() {
       }).catch(() => {
         // Silently fail - user can still type model name manually
       })
+      window.accrew.permission.rules().then(setPermissionRules)
     }
   }, [settingsOpen])
 
+  // Show what the rules being edited would remove before they're saved
+  useEffect(() => {
+    if (!settingsOpen) return
+    let stale = false
+    window.accrew.retention.preview({ archiveAfterDays, deleteAfterDays })
+      .then(preview => !stale && setRetentionPreview(preview))
+      .catch(() => !stale && setRetentionPreview(null))
+    return () => { stale = true }
+  }, [settingsOpen, archiveAfterDays, deleteAfterDays])
+
   if (!settingsOpen) return null
 
+  // WHY: Rule deletion applies immediately rather than on Save — rules live in the
+  // database, not in Config, and a running agent should stop matching them right away
+  const handleDeleteRule = async (id: number) => {
+    setPermissionRules(await window.accrew.permission.deleteRule(id))
+  }
+
   const handleSave = async () => {
     await updateConfig({
       workspaceFolder,
       workspaceDepth,
       diffFont,
       diffFontSize,
+      provider,
+      openaiCompatible: openaiBaseUrl.trim()
+        ? { baseUrl: openaiBaseUrl.trim(), ...(openaiApiKey.trim() && { apiKey: openaiApiKey.trim() }) }
+        : undefined,
+      fakeProvider: { ...config?.fakeProvider, fixture: fakeFixture.trim() || undefined },
       model,
       debug: debugEnabled,
+      notifications: notificationsEnabled,
+      archiveAfterDays,
+      deleteAfterDays,
+      maxConcurrentRuns,
     })
     setSettingsOpen(false)
   }
@@ -75,7 +120,7 @@ export function SettingsDialog() {
         </div>
 
         {/* Content */}
-        <div className="p-6 space-y-6">
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
           {/* Workspace folder */}
           <div className="space-y-2">
             <label className="flex items-center gap-2 text-sm font-medium">
@@ -162,6 +207,53 @@ export function SettingsDialog() {
             </div>
           </div>
 
+          {/* Agent provider */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <Bot className="w-4 h-4 text-muted-foreground" />
+              Agent
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Backend that runs sessions. Workspaces can pick their own in .accrew.json
+            </p>
+            <select
+              value={provider}
+              onChange={(e) => setProvider(e.target.value as AgentProviderName)}
+              className="w-full px-3 py-2 rounded-lg border border-border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              <option value="copilot">GitHub Copilot</option>
+              <option value="openai-compatible">OpenAI-compatible server (chat only, no tools)</option>
+              <option value="fake">Replay a recorded session (offline demo)</option>
+            </select>
+            {provider === 'openai-compatible' && (
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={openaiBaseUrl}
+                  onChange={(e) => setOpenaiBaseUrl(e.target.value)}
+                  placeholder="http://localhost:11434/v1"
+                  className="flex-1 px-3 py-2 rounded-lg border border-border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                />
+                <input
+                  type="password"
+                  value={openaiApiKey}
+                  onChange={(e) => setOpenaiApiKey(e.target.value)}
+                  placeholder="API key (optional)"
+                  className="w-40 px-3 py-2 rounded-lg border border-border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                />
+              </div>
+            )}
+            {provider === 'fake' && (
+              <input
+                type="text"
+                value={fakeFixture}
+                onChange={(e) => setFakeFixture(e.target.value)}
+                placeholder="Fixture file — leave empty for the built-in demo"
+                className="w-full px-3 py-2 rounded-lg border border-border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+            )}
+          </div>
+
           {/* Model selection */}
           <div className="space-y-2">
             <label className="flex items-center gap-2 text-sm font-medium">
@@ -180,7 +272,8 @@ export function SettingsDialog() {
               className="w-full px-3 py-2 rounded-lg border border-border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
             />
             <datalist id="model-options">
-              {availableModels.map((m) => (
+              {/* Listed by Copilot — other servers name their own models */}
+              {provider === 'copilot' && availableModels.map((m) => (
                 <option key={m.id} value={m.id}>
                   {m.name || m.id}
                 </option>
@@ -188,6 +281,88 @@ export function SettingsDialog() {
             </datalist>
           </div>
 
+          {/* Notifications */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <Bell className="w-4 h-4 text-muted-foreground" />
+              Notifications
+            </label>
+            <p className="text-xs text-muted-foreground">
+              When an agent finishes, fails or needs permission in a session you're not looking at
+            </p>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={notificationsEnabled}
+                onChange={(e) => setNotificationsEnabled(e.target.checked)}
+                className="rounded border-border"
+              />
+              <span className="text-sm">Show desktop notifications</span>
+            </label>
+          </div>
+
+          {/* Concurrency */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <Layers className="w-4 h-4 text-muted-foreground" />
+              Concurrent Runs
+            </label>
+            <div className="flex items-center gap-2 text-sm">
+              <span>Run at most</span>
+              <input
+                type="number"
+                min="0"
+                value={maxConcurrentRuns}
+                onChange={(e) => setMaxConcurrentRuns(Math.max(0, parseInt(e.target.value) || 0))}
+                className="w-20 px-3 py-2 rounded-lg border border-border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+              <span>agents at once</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Further prompts wait in the sidebar until one finishes; 0 means no limit. Workspaces can set a lower limit of their own in .accrew.json
+            </p>
+          </div>
+
+          {/* Retention */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <Archive className="w-4 h-4 text-muted-foreground" />
+              Retention
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Applied hourly while Accrew runs. Pinned sessions are always kept; 0 turns a rule off. Workspaces can override both in .accrew.json
+            </p>
+            <div className="flex items-center gap-2 text-sm">
+              <span>Archive after</span>
+              <input
+                type="number"
+                min="0"
+                value={archiveAfterDays}
+                onChange={(e) => setArchiveAfterDays(Math.max(0, parseInt(e.target.value) || 0))}
+                className="w-20 px-3 py-2 rounded-lg border border-border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+              <span>idle days, delete</span>
+              <input
+                type="number"
+                min="0"
+                value={deleteAfterDays}
+                onChange={(e) => setDeleteAfterDays(Math.max(0, parseInt(e.target.value) || 0))}
+                className="w-20 px-3 py-2 rounded-lg border border-border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+              <span>days after</span>
+            </div>
+            {retentionPreview && (
+              retentionPreview.archive.length === 0 && retentionPreview.delete.length === 0 ? (
+                <p className="text-xs text-muted-foreground/60">Nothing would be archived or deleted right now</p>
+              ) : (
+                <div className="space-y-1 text-xs">
+                  <PreviewList label="Would archive now" sessions={retentionPreview.archive} />
+                  <PreviewList label="Would delete now" sessions={retentionPreview.delete} destructive />
+                </div>
+              )
+            )}
+          </div>
+
           {/* Debug mode */}
           <div className="space-y-2">
             <label className="flex items-center gap-2 text-sm font-medium">
@@ -207,6 +382,40 @@ export function SettingsDialog() {
               <span className="text-sm">Enable debug logging</span>
             </label>
           </div>
+
+          {/* Permission rules */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <ShieldCheck className="w-4 h-4 text-muted-foreground" />
+              Permission Rules
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Tool permissions remembered with "Always allow" or "Always deny"
+            </p>
+            {permissionRules.length === 0 ? (
+              <p className="text-xs text-muted-foreground/60">No rules yet</p>
+            ) : (
+              <div className="max-h-40 overflow-y-auto rounded-lg border border-border divide-y divide-border">
+                {permissionRules.map((rule) => (
+                  <div key={rule.id} className="flex items-center gap-2 px-3 py-1.5 text-xs">
+                    <span className={rule.action === 'allow' ? 'text-green-500' : 'text-red-500'}>
+                      {rule.action === 'allow' ? 'Allow' : 'Deny'}
+                    </span>
+                    <span className="text-muted-foreground">{rule.kind}</span>
+                    <span className="font-mono truncate flex-1 min-w-0">{rule.pattern}</span>
+                    <span className="text-muted-foreground truncate max-w-[30%]">{rule.workspace ?? 'system agent'}</span>
+                    <button
+                      onClick={() => handleDeleteRule(rule.id)}
+                      className="p-1 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors"
+                      title="Delete rule"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Footer */}
@@ -228,3 +437,18 @@ export function SettingsDialog() {
     </div>
   )
 }
+
+// Names the first few sessions so a rule that's too aggressive is obvious before saving
+const PREVIEW_TITLES = 3
+
+function PreviewList({ label, sessions, destructive }: { label: string; sessions: Session[]; destructive?: boolean }) {
+  if (sessions.length === 0) return null
+  const shown = sessions.slice(0, PREVIEW_TITLES).map(s => `"${s.title}"`).join(', ')
+  const more = sessions.length - PREVIEW_TITLES
+
+  return (
+    <p className={destructive ? 'text-destructive' : 'text-muted-foreground'} title={sessions.map(s => s.title).join('\n')}>
+      {label} ({sessions.length}): {shown}{more > 0 && ` and ${more} more`}
+    </p>
+  )
+}
@@ -3,6 +3,8 @@ import { cn, formatRelativeTime, truncate } from '../lib/utils'
 import { 
   Plus, 
   Settings, 
+  Gauge,
+  CalendarClock,
   ChevronDown,
   ChevronRight,
   MessageSquare,
@@ -14,9 +16,19 @@ import {
   AlertTriangle,
   Folder,
   Filter,
-  X
+  X,
+  GitBranch,
+  GitMerge,
+  GitFork,
+  FileInput,
+  Pin,
+  PinOff,
+  Hourglass,
+  ArrowUpToLine,
+  Ban
 } from 'lucide-react'
 import { useState, useRef, useEffect, forwardRef, useImperativeHandle } from 'react'
+import { SearchResults } from './SearchResults'
 
 export interface SidebarHandle {
   focusFilter: () => void
@@ -31,12 +43,26 @@ export const Sidebar = forwardRef<SidebarHandle>(function Sidebar(_, ref) {
     deleteSession,
     archiveSession,
     unarchiveSession,
+    setSessionPinned,
+    mergeWorktree,
+    discardWorktree,
     markSessionUnread,
-    setSettingsOpen
+    setSettingsOpen,
+    setUsageOpen,
+    setSchedulesOpen,
+    importSession,
+    pendingPermissions,
+    runQueue,
+    prioritizeRun,
+    cancelRun
   } = useStore()
 
   const [archiveExpanded, setArchiveExpanded] = useState(false)
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
+  const [worktreeArchiveId, setWorktreeArchiveId] = useState<string | null>(null)
+  const [worktreeBusy, setWorktreeBusy] = useState(false)
+  const [worktreeError, setWorktreeError] = useState<string | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
   const [filterText, setFilterText] = useState('')
   const [filterOpen, setFilterOpen] = useState(false)
   const filterInputRef = useRef<HTMLInputElement>(null)
@@ -59,7 +85,8 @@ export const Sidebar = forwardRef<SidebarHandle>(function Sidebar(_, ref) {
     if (!filterText) return true
     const search = filterText.toLowerCase()
     const titleMatch = session.title.toLowerCase().includes(search)
-    const workspaceMatch = session.workspace?.toLowerCase().includes(search) ?? false
+    const workspaceMatch = [session.workspace, ...(session.linkedWorkspaces ?? []).map(w => w.name)]
+      .some(name => name?.toLowerCase().includes(search))
     return titleMatch || workspaceMatch
   }
 
@@ -80,6 +107,46 @@ export const Sidebar = forwardRef<SidebarHandle>(function Sidebar(_, ref) {
 
   const sessionToDelete = sessions.find(s => s.id === deleteConfirmId)
 
+  // WHY: Archiving a worktree session is the natural point to decide what happens to
+  // its branch — ask instead of leaving worktrees to pile up under the workspace
+  const handleArchiveClick = (session: typeof sessions[0]) => {
+    if (session.worktree) {
+      setWorktreeError(null)
+      setWorktreeArchiveId(session.id)
+    } else {
+      archiveSession(session.id)
+    }
+  }
+
+  const handleWorktreeArchive = async (action: 'merge' | 'discard' | 'keep') => {
+    if (!worktreeArchiveId) return
+    setWorktreeBusy(true)
+    setWorktreeError(null)
+    try {
+      if (action === 'merge') await mergeWorktree(worktreeArchiveId)
+      else if (action === 'discard') await discardWorktree(worktreeArchiveId)
+      else await archiveSession(worktreeArchiveId)
+      setWorktreeArchiveId(null)
+    } catch (err) {
+      setWorktreeError(err instanceof Error ? err.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : 'Failed')
+    } finally {
+      setWorktreeBusy(false)
+    }
+  }
+
+  const sessionToArchive = sessions.find(s => s.id === worktreeArchiveId)
+
+  // Forks link back to the session they came from, and that session lists its forks
+  const forkLinks = (session: typeof sessions[0]) => ({
+    forkedFrom: session.forkedFrom ? sessions.find(s => s.id === session.forkedFrom) : undefined,
+    forks: sessions.filter(s => s.forkedFrom === session.id).sort((a, b) => b.updatedAt - a.updatedAt)
+  })
+
+  const queuePosition = (sessionId: string) => {
+    const index = runQueue.findIndex(r => r.sessionId === sessionId)
+    return index === -1 ? undefined : index + 1
+  }
+
   // WHY: Sort by updatedAt descending — most recently active session should appear at top
   const recentSessions = sessions
     .filter(s => s.status !== 'archived' && filterSession(s))
@@ -88,17 +155,65 @@ export const Sidebar = forwardRef<SidebarHandle>(function Sidebar(_, ref) {
     .filter(s => s.status === 'archived' && filterSession(s))
     .sort((a, b) => b.updatedAt - a.updatedAt)
 
+  // WHY: Sessions the system agent started are listed under it, oldest first, in the
+  // order it delegated. One whose parent isn't listed (archived, deleted, filtered out)
+  // stands on its own
+  const recentIds = new Set(recentSessions.map(s => s.id))
+  const topLevelSessions = recentSessions.filter(s => !s.parentSessionId || !recentIds.has(s.parentSessionId))
+  const childSessions = (parentId: string) => recentSessions
+    .filter(s => s.parentSessionId === parentId)
+    .sort((a, b) => a.createdAt - b.createdAt)
+
+  const renderRecentSession = (session: typeof sessions[0]) => (
+    <SessionItem
+      key={session.id}
+      session={session}
+      isActive={session.id === activeSessionId}
+      isStreaming={streamingSessions.has(session.id)}
+      isWaiting={pendingPermissions.some(p => p.sessionId === session.id)}
+      queuePosition={queuePosition(session.id)}
+      {...forkLinks(session)}
+      onSelect={() => setActiveSession(session.id)}
+      onOpenSession={setActiveSession}
+      onDelete={() => handleDeleteClick(session.id)}
+      onArchive={() => handleArchiveClick(session)}
+      onMarkUnread={() => markSessionUnread(session.id)}
+      onTogglePin={() => setSessionPinned(session.id, !session.pinned)}
+      onPrioritizeRun={() => prioritizeRun(session.id)}
+      onCancelRun={() => cancelRun(session.id)}
+    />
+  )
+
   return (
     <div className="h-full flex flex-col bg-sidebar pt-14">
       {/* New session button */}
       <div className="px-3 py-3">
-        <button
-          onClick={() => setActiveSession(null)}
-          className="w-full flex items-center gap-2 px-3 py-2 rounded-lg border border-border/50 hover:bg-accent/50 text-foreground transition-colors text-sm font-medium"
-        >
-          <Plus className="w-4 h-4" />
-          New session
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setActiveSession(null)}
+            className="flex-1 flex items-center gap-2 px-3 py-2 rounded-lg border border-border/50 hover:bg-accent/50 text-foreground transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            New session
+          </button>
+          <button
+            onClick={async () => {
+              setImportError(null)
+              try {
+                await importSession()
+              } catch (err) {
+                setImportError(err instanceof Error ? err.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : 'Import failed')
+              }
+            }}
+            className="p-2 rounded-lg border border-border/50 hover:bg-accent/50 text-muted-foreground hover:text-foreground transition-colors"
+            title="Import a session exported as JSON"
+          >
+            <FileInput className="w-4 h-4" />
+          </button>
+        </div>
+        {importError && (
+          <p className="mt-2 px-1 text-xs text-destructive break-words">{importError}</p>
+        )}
       </div>
 
       {/* Sessions header */}
@@ -110,7 +225,7 @@ export const Sidebar = forwardRef<SidebarHandle>(function Sidebar(_, ref) {
               type="text"
               value={filterText}
               onChange={(e) => setFilterText(e.target.value)}
-              placeholder="Filter sessions..."
+              placeholder="Search sessions and messages..."
               className="flex-1 bg-transparent text-xs text-foreground placeholder:text-muted-foreground/60 outline-none"
             />
             <button
@@ -152,18 +267,19 @@ export const Sidebar = forwardRef<SidebarHandle>(function Sidebar(_, ref) {
           <>
             {/* Recent sessions */}
             <div className="space-y-0.5 px-2">
-              {recentSessions.map((session) => (
-                <SessionItem
-                  key={session.id}
-                  session={session}
-                  isActive={session.id === activeSessionId}
-                  isStreaming={streamingSessions.has(session.id)}
-                  onSelect={() => setActiveSession(session.id)}
-                  onDelete={() => handleDeleteClick(session.id)}
-                  onArchive={() => archiveSession(session.id)}
-                  onMarkUnread={() => markSessionUnread(session.id)}
-                />
-              ))}
+              {topLevelSessions.map((session) => {
+                const children = childSessions(session.id)
+                return (
+                  <div key={session.id}>
+                    {renderRecentSession(session)}
+                    {children.length > 0 && (
+                      <div className="ml-4 pl-1 border-l border-border space-y-0.5">
+                        {children.map(renderRecentSession)}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
             </div>
 
             {/* Archive section */}
@@ -191,9 +307,12 @@ export const Sidebar = forwardRef<SidebarHandle>(function Sidebar(_, ref) {
                         isActive={session.id === activeSessionId}
                         isStreaming={false}
                         isArchived
+                        {...forkLinks(session)}
                         onSelect={() => setActiveSession(session.id)}
+                        onOpenSession={setActiveSession}
                         onDelete={() => handleDeleteClick(session.id)}
                         onUnarchive={() => unarchiveSession(session.id)}
+                        onTogglePin={() => setSessionPinned(session.id, !session.pinned)}
                       />
                     ))}
                   </div>
@@ -202,19 +321,96 @@ export const Sidebar = forwardRef<SidebarHandle>(function Sidebar(_, ref) {
             )}
           </>
         )}
+
+        {/* Full-text matches inside conversations */}
+        {filterOpen && <SearchResults query={filterText} />}
       </div>
 
       {/* Footer */}
-      <div className="border-t border-border/50 p-2">
+      <div className="border-t border-border/50 p-2 flex items-center gap-1">
         <button
           onClick={() => setSettingsOpen(true)}
-          className="w-full flex items-center gap-2 px-3 py-2 rounded-md hover:bg-accent/50 text-muted-foreground hover:text-foreground transition-colors text-sm"
+          className="flex-1 flex items-center gap-2 px-3 py-2 rounded-md hover:bg-accent/50 text-muted-foreground hover:text-foreground transition-colors text-sm"
         >
           <Settings className="w-4 h-4" />
           Settings
         </button>
+        <button
+          onClick={() => setUsageOpen(true)}
+          className="p-2 rounded-md hover:bg-accent/50 text-muted-foreground hover:text-foreground transition-colors"
+          title="Usage"
+        >
+          <Gauge className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setSchedulesOpen(true)}
+          className="p-2 rounded-md hover:bg-accent/50 text-muted-foreground hover:text-foreground transition-colors"
+          title="Scheduled jobs"
+        >
+          <CalendarClock className="w-4 h-4" />
+        </button>
       </div>
 
+      {/* Worktree archive dialog */}
+      {sessionToArchive?.worktree && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div 
+            className="absolute inset-0 bg-black/50" 
+            onClick={() => !worktreeBusy && setWorktreeArchiveId(null)}
+          />
+          <div className="relative bg-card border border-border rounded-lg shadow-xl p-6 max-w-md mx-4">
+            <div className="flex items-start gap-3">
+              <div className="flex-shrink-0 w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+                <GitBranch className="w-5 h-5 text-primary" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <h3 className="text-base font-semibold text-foreground">Archive worktree session?</h3>
+                <p className="mt-1 text-sm text-muted-foreground">
+                  "{truncate(sessionToArchive.title, 40)}" works on branch <span className="font-mono text-xs">{sessionToArchive.worktree.branch}</span>. Merging commits any uncommitted changes first.
+                </p>
+                {worktreeError && (
+                  <p className="mt-2 text-xs text-destructive break-words">{worktreeError}</p>
+                )}
+              </div>
+            </div>
+            <div className="mt-5 flex flex-wrap justify-end gap-2">
+              <button
+                onClick={() => setWorktreeArchiveId(null)}
+                disabled={worktreeBusy}
+                className="px-3 py-1.5 text-sm font-medium rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleWorktreeArchive('keep')}
+                disabled={worktreeBusy}
+                className="px-3 py-1.5 text-sm font-medium rounded-md border border-border hover:bg-muted text-foreground transition-colors disabled:opacity-50"
+                title="Archive and leave the worktree and branch in place"
+              >
+                Keep worktree
+              </button>
+              <button
+                onClick={() => handleWorktreeArchive('discard')}
+                disabled={worktreeBusy}
+                className="px-3 py-1.5 text-sm font-medium rounded-md border border-destructive/50 text-destructive hover:bg-destructive/10 transition-colors disabled:opacity-50"
+                title="Delete the worktree and its branch"
+              >
+                Delete worktree
+              </button>
+              <button
+                onClick={() => handleWorktreeArchive('merge')}
+                disabled={worktreeBusy}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+                title="Merge the branch into the workspace, then delete the worktree"
+              >
+                <GitMerge className="w-3.5 h-3.5" />
+                {worktreeBusy ? 'Working…' : 'Merge'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete confirmation dialog */}
       {deleteConfirmId && (
         <div className="fixed inset-0 z-50 flex items-center justify-center">
@@ -263,20 +459,37 @@ interface SessionItemProps {
     updatedAt: number
     hasUnread: boolean
     status: 'active' | 'completed' | 'error' | 'archived'
+    worktree?: { branch: string }
+    linkedWorkspaces?: { name: string }[]
+    pinned?: boolean
   }
   isActive: boolean
   isStreaming: boolean
+  isWaiting?: boolean
+  queuePosition?: number // Set while the turn waits for a run slot, 1 = next to start
   isArchived?: boolean
+  forkedFrom?: { id: string; title: string }
+  forks: { id: string; title: string }[]
   onSelect: () => void
+  onOpenSession: (id: string) => void
   onDelete: () => void
   onArchive?: () => void
   onUnarchive?: () => void
   onMarkUnread?: () => void
+  onTogglePin: () => void
+  onPrioritizeRun?: () => void
+  onCancelRun?: () => void
 }
 
-function SessionItem({ session, isActive, isStreaming, isArchived, onSelect, onDelete, onArchive, onUnarchive, onMarkUnread }: SessionItemProps) {
-  // Show status indicator: streaming (purple pulse) > unread (blue dot) > error (red) > nothing
+function SessionItem({ session, isActive, isStreaming, isWaiting, queuePosition, isArchived, forkedFrom, forks, onSelect, onOpenSession, onDelete, onArchive, onUnarchive, onMarkUnread, onTogglePin, onPrioritizeRun, onCancelRun }: SessionItemProps) {
+  // Show status indicator: waiting for approval (orange pulse) > queued (hourglass) > streaming (purple pulse) > unread (blue dot) > error (red) > nothing
   const getStatusIndicator = () => {
+    if (isWaiting) {
+      return <Circle className="w-2 h-2 text-orange-500 fill-orange-500 animate-pulse flex-shrink-0" />
+    }
+    if (queuePosition) {
+      return <Hourglass className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+    }
     if (isStreaming) {
       return <Circle className="w-2 h-2 text-violet-500 fill-violet-500 animate-pulse flex-shrink-0" />
     }
@@ -308,12 +521,63 @@ function SessionItem({ session, isActive, isStreaming, isArchived, onSelect, onD
           )}>
             {session.title}
           </span>
+          {session.pinned && (
+            <span title="Pinned — kept by the retention rules" className="flex-shrink-0 text-muted-foreground">
+              <Pin className="w-3 h-3" />
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-1.5 text-xs text-muted-foreground mt-0.5">
           {session.workspace && (
             <>
               <Folder className="w-3 h-3 flex-shrink-0" />
               <span className="truncate">{session.workspace}</span>
+              {session.linkedWorkspaces && (
+                <span
+                  className="flex-shrink-0"
+                  title={session.linkedWorkspaces.map(w => w.name).join(', ')}
+                >
+                  +{session.linkedWorkspaces.length}
+                </span>
+              )}
+              <span>·</span>
+            </>
+          )}
+          {session.worktree && (
+            <span title={session.worktree.branch} className="flex-shrink-0">
+              <GitBranch className="w-3 h-3" />
+            </span>
+          )}
+          {forkedFrom && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                onOpenSession(forkedFrom.id)
+              }}
+              className="flex-shrink-0 hover:text-foreground"
+              title={`Forked from "${forkedFrom.title}"`}
+            >
+              <GitFork className="w-3 h-3" />
+            </button>
+          )}
+          {forks.length > 0 && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                onOpenSession(forks[0].id)
+              }}
+              className="flex items-center gap-0.5 flex-shrink-0 hover:text-foreground"
+              title={`Forked into ${forks.map(f => `"${f.title}"`).join(', ')} — click to open the latest`}
+            >
+              <GitFork className="w-3 h-3" />
+              {forks.length}
+            </button>
+          )}
+          {queuePosition && (
+            <>
+              <span className="whitespace-nowrap" title="Waiting for another session to finish — see the concurrency limit in Settings">
+                queued #{queuePosition}
+              </span>
               <span>·</span>
             </>
           )}
@@ -323,6 +587,42 @@ function SessionItem({ session, isActive, isStreaming, isArchived, onSelect, onD
 
       {/* Action buttons */}
       <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-all flex-shrink-0 pt-0.5">
+        {queuePosition && (
+          <>
+            {queuePosition > 1 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onPrioritizeRun?.()
+                }}
+                className="p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-all"
+                title="Run next"
+              >
+                <ArrowUpToLine className="w-3.5 h-3.5" />
+              </button>
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                onCancelRun?.()
+              }}
+              className="p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-all"
+              title="Cancel this run — the prompt stays in the conversation"
+            >
+              <Ban className="w-3.5 h-3.5" />
+            </button>
+          </>
+        )}
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            onTogglePin()
+          }}
+          className="p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-all"
+          title={session.pinned ? 'Unpin session' : 'Pin session so it is never archived or deleted automatically'}
+        >
+          {session.pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+        </button>
         {isArchived ? (
           <button
             onClick={(e) => {
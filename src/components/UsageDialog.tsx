@@ -0,0 +1,170 @@
+import { useState, useEffect } from 'react'
+import { useStore } from '../store'
+import { cn, formatTokenCount, formatRequestCount } from '../lib/utils'
+import type { TokenUsage, UsageBucket, UsageSummary } from '../shared/types'
+import { X, Gauge, Folder, Cpu, CalendarDays } from 'lucide-react'
+
+const RANGES: { label: string; days?: number }[] = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: 'All time' },
+]
+
+function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="flex-1 rounded-lg border border-border px-3 py-2">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold tabular-nums">{value}</p>
+      {detail && <p className="text-xs text-muted-foreground/70">{detail}</p>}
+    </div>
+  )
+}
+
+function BucketTable({ icon: Icon, title, buckets, emptyKey }: {
+  icon: typeof Folder
+  title: string
+  buckets: UsageBucket[]
+  emptyKey?: string
+}) {
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm font-medium">
+        <Icon className="w-4 h-4 text-muted-foreground" />
+        {title}
+      </label>
+      {buckets.length === 0 ? (
+        <p className="text-xs text-muted-foreground/60">No usage recorded</p>
+      ) : (
+        <div className="rounded-lg border border-border divide-y divide-border text-xs">
+          <div className="flex items-center gap-2 px-3 py-1.5 text-muted-foreground">
+            <span className="flex-1">Name</span>
+            <span className="w-16 text-right">Input</span>
+            <span className="w-16 text-right">Output</span>
+            <span className="w-16 text-right">Requests</span>
+          </div>
+          {buckets.map((bucket) => (
+            <div key={bucket.key} className="flex items-center gap-2 px-3 py-1.5">
+              <span className="flex-1 min-w-0 truncate">{bucket.key || emptyKey}</span>
+              <span className="w-16 text-right tabular-nums">{formatTokenCount(bucket.inputTokens)}</span>
+              <span className="w-16 text-right tabular-nums">{formatTokenCount(bucket.outputTokens)}</span>
+              <span className="w-16 text-right tabular-nums">{formatRequestCount(bucket.premiumRequests)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// WHY: Bars show tokens rather than premium requests — every call has a token count,
+// while premium requests are zero on included models and would leave days blank
+function DailyChart({ days }: { days: UsageBucket[] }) {
+  const tokens = (usage: TokenUsage) => usage.inputTokens + usage.outputTokens
+  const max = Math.max(1, ...days.map(tokens))
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm font-medium">
+        <CalendarDays className="w-4 h-4 text-muted-foreground" />
+        By day
+      </label>
+      {days.length === 0 ? (
+        <p className="text-xs text-muted-foreground/60">No usage recorded</p>
+      ) : (
+        <div className="flex items-end gap-0.5 h-24 rounded-lg border border-border p-2">
+          {days.map((day) => (
+            <div
+              key={day.key}
+              className="flex-1 min-w-[3px] bg-primary/60 hover:bg-primary rounded-sm transition-colors"
+              style={{ height: `${Math.max(2, (tokens(day) / max) * 100)}%` }}
+              title={`${day.key}: ${tokens(day).toLocaleString()} tokens · ${formatRequestCount(day.premiumRequests)} premium requests`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function UsageDialog() {
+  const { usageOpen, setUsageOpen } = useStore()
+  const [range, setRange] = useState(RANGES[1])
+  const [summary, setSummary] = useState<UsageSummary | null>(null)
+
+  useEffect(() => {
+    if (usageOpen) {
+      window.accrew.usage.summary(range.days).then(setSummary)
+    }
+  }, [usageOpen, range])
+
+  if (!usageOpen) return null
+
+  const total = summary?.total
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-background/80 backdrop-blur-sm"
+        onClick={() => setUsageOpen(false)}
+      />
+
+      {/* Dialog */}
+      <div className="relative bg-card border border-border rounded-xl shadow-2xl w-full max-w-2xl mx-4 animate-in">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+          <h2 className="flex items-center gap-2 text-lg font-semibold">
+            <Gauge className="w-5 h-5 text-muted-foreground" />
+            Usage
+          </h2>
+          <div className="flex items-center gap-3">
+            <div className="flex rounded-lg border border-border overflow-hidden text-xs">
+              {RANGES.map((r) => (
+                <button
+                  key={r.label}
+                  onClick={() => setRange(r)}
+                  className={cn(
+                    'px-2.5 py-1 transition-colors',
+                    r === range ? 'bg-accent text-foreground' : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {r.label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setUsageOpen(false)}
+              className="p-1.5 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+          {!summary || !total ? (
+            <p className="text-sm text-muted-foreground">Loading…</p>
+          ) : (
+            <>
+              <div className="flex gap-3">
+                <Stat
+                  label="Input tokens"
+                  value={formatTokenCount(total.inputTokens)}
+                  detail={total.cacheReadTokens > 0 ? `${formatTokenCount(total.cacheReadTokens)} from cache` : undefined}
+                />
+                <Stat label="Output tokens" value={formatTokenCount(total.outputTokens)} />
+                <Stat label="Premium requests" value={formatRequestCount(total.premiumRequests)} />
+                <Stat label="Model calls" value={total.calls.toLocaleString()} />
+              </div>
+              <DailyChart days={summary.byDay} />
+              <BucketTable icon={Folder} title="By workspace" buckets={summary.byWorkspace} emptyKey="System agent" />
+              <BucketTable icon={Cpu} title="By model" buckets={summary.byModel} />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
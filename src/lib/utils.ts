@@ -31,3 +31,19 @@ export function truncate(str: string, maxLength: number): string {
   if (str.length <= maxLength) return str
   return str.slice(0, maxLength - 1) + '…'
 }
+
+export function formatTokenCount(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1).replace(/\.0$/, '')}k`
+  return String(count)
+}
+
+// Premium requests are fractional for models with a multiplier below 1
+export function formatRequestCount(count: number): string {
+  return String(Number(count.toFixed(2)))
+}
+
+export function formatPremiumRequests(count: number): string {
+  const formatted = formatRequestCount(count)
+  return `${formatted} premium request${formatted === '1' ? '' : 's'}`
+}
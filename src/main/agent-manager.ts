@@ -1,37 +1,110 @@
 import { v4 as uuid } from 'uuid'
+import path from 'path'
+import fs from 'fs'
 import { app, BrowserWindow } from 'electron'
 import { Database } from './database.js'
 import { WorkspaceManager } from './workspace-manager.js'
 import { ConfigManager } from './config-manager.js'
-import { CopilotClient, type StreamEvent } from './copilot-client.js'
+import { CheckpointManager } from './checkpoint-manager.js'
+import { GitManager } from './git-manager.js'
+import { FileChangeTracker } from './file-change-tracker.js'
+import { createOrchestratorTools, ORCHESTRATOR_INSTRUCTIONS } from './orchestrator-tools.js'
+import { createAgentProvider, type AgentProvider, type StreamEvent, type ToolPermissionRequest } from './agent-provider.js'
 import { debug } from './logger.js'
-import type { Session, Message, FileChange, ToolCall, WorkspaceMatch, Workspace } from './types.js'
+import type { Session, Message, FileChange, ToolCall, WorkspaceMatch, Workspace, PermissionRequest, PermissionDecision, RevertResult, QueuedMessage, QueuedRun, Attachment, LinkedWorkspace, MessageEditMode, EditResult } from './types.js'
 
 type EventEmitter = (event: string, data: unknown) => void
 
+// WHY: Streaming state is written to the DB at most this often — often enough that a
+// crash loses little, rarely enough that token-by-token deltas don't each cost a write
+// (plus an FTS reindex of the whole message)
+const PERSIST_INTERVAL_MS = 1000
+// Tool results within this long of each other share one scan for changed files
+const DETECT_INTERVAL_MS = 500
+
+interface PendingPermission {
+  request: PermissionRequest
+  workspace: string | null
+  resolve: (approved: boolean) => void
+}
+
+interface PendingRun extends QueuedRun {
+  workspaceLimit?: number
+  resolve: (started: boolean) => void
+}
+
 interface ActiveSession {
   session: Session
-  copilotClient: CopilotClient | null
+  provider: AgentProvider | null
   currentMessageId: string | null
   thinking: string
   toolCalls: ToolCall[]
   fileChanges: FileChange[]
+  changeTracker: FileChangeTracker | null // Set while a turn in a workspace is running
   content: string
   aborted: boolean
+  approvedPermissions: Set<string> // `${kind}:${target}` keys approved for this session
+}
+
+// Derive a display summary and a rule-matchable target from the loosely typed request
+function describePermissionRequest(request: ToolPermissionRequest): { summary: string; target: string } {
+  const str = (value: unknown) => typeof value === 'string' ? value : ''
+  switch (request.kind) {
+    case 'shell': {
+      const command = str(request.fullCommandText)
+      // WHY: Target is the executable, not the full command line — approving "npm"
+      // for the session should cover "npm test" and "npm run build" alike
+      const commands = Array.isArray(request.commands) ? request.commands as { identifier?: string }[] : []
+      const target = commands[0]?.identifier || command.trim().split(/\s+/)[0] || '*'
+      return { summary: command || str(request.intention), target }
+    }
+    case 'write':
+      return { summary: str(request.fileName), target: str(request.fileName) || '*' }
+    case 'read':
+      return { summary: str(request.path) || str(request.intention), target: str(request.path) || '*' }
+    case 'url': {
+      const url = str(request.url)
+      let target = url
+      try {
+        target = new URL(url).hostname
+      } catch {
+        // Keep raw value
+      }
+      return { summary: url, target: target || '*' }
+    }
+    case 'mcp': {
+      const target = `${str(request.serverName)}/${str(request.toolName)}`
+      return { summary: str(request.toolTitle) || target, target }
+    }
+    default:
+      return { summary: str(request.toolName) || request.kind, target: str(request.toolName) || '*' }
+  }
 }
 
 export class AgentManager {
   private database: Database
   private workspaceManager: WorkspaceManager
   private configManager: ConfigManager
+  private gitManager: GitManager
+  private checkpoints: CheckpointManager
   private emit: EventEmitter
   private activeSessions: Map<string, ActiveSession> = new Map()
+  private pendingPermissions: Map<string, PendingPermission> = new Map()
+  private messageQueues: Map<string, QueuedMessage[]> = new Map()
+  private busySessions: Set<string> = new Set() // Sessions with a turn in flight or queued to run
+  private runQueue: PendingRun[] = []
+  private runningTurns: Map<string, string | null> = new Map() // Session ID → workspace of each turn holding a run slot
+  private turnEndWaiters: Set<() => void> = new Set()
+  private persistTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()
+  private detectTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()
   private viewedSessionId: string | null = null
 
-  constructor(database: Database, workspaceManager: WorkspaceManager, configManager: ConfigManager, emit: EventEmitter) {
+  constructor(database: Database, workspaceManager: WorkspaceManager, configManager: ConfigManager, gitManager: GitManager, emit: EventEmitter) {
     this.database = database
     this.workspaceManager = workspaceManager
     this.configManager = configManager
+    this.gitManager = gitManager
+    this.checkpoints = new CheckpointManager(database)
     this.emit = emit
   }
 
@@ -39,17 +112,36 @@ export class AgentManager {
     this.viewedSessionId = sessionId
   }
 
-  async createSession(workspaceName: string | undefined, prompt: string, sessionId: string): Promise<Session> {
-    debug('agent', 'Creating session', { sessionId, workspaceName, promptLength: prompt.length })
+  getViewedSession(): string | null {
+    return this.viewedSessionId
+  }
+
+  // A turn is streaming, waiting on a permission or queued to run
+  isBusy(sessionId: string): boolean {
+    return this.busySessions.has(sessionId)
+  }
+
+  async createSession(workspaceName: string | undefined, prompt: string, sessionId: string, options: { worktree?: boolean; attachments?: Attachment[]; parentSessionId?: string } = {}): Promise<Session> {
+    debug('agent', 'Creating session', { sessionId, workspaceName, promptLength: prompt.length, worktree: !!options.worktree, attachments: options.attachments?.length ?? 0 })
     let workspace: Workspace | null = null
     let workspacePath: string | null = null
 
-    // Check for explicit @-mention
-    const mentionMatch = prompt.match(/^@(\S+)\s*(.*)$/)
-    if (mentionMatch) {
-      workspaceName = mentionMatch[1]
-      prompt = mentionMatch[2] || prompt
+    // Check for explicit @-mentions — the first names the workspace, any others are linked
+    const leadingMatch = prompt.match(/^((?:@\S+\s*)+)([\s\S]*)$/)
+    const leading = leadingMatch ? leadingMatch[1].trim().split(/\s+/).map(m => m.slice(1)) : []
+    const inline = this.findInlineMentions(leadingMatch ? leadingMatch[2] : prompt)
+    if (leadingMatch) {
+      prompt = leadingMatch[2] || prompt
+    }
+    if (!workspaceName) {
+      workspaceName = leading.shift()
+    }
+    // WHY: "@name" later in the prompt may be anything (a package scope, a handle) —
+    // it only picks the workspace when it names one
+    if (!workspaceName) {
+      workspaceName = (await this.resolveLinkedWorkspaces(inline, []))[0]?.name
     }
+    const mentioned = [...leading, ...inline]
 
     // Check if this is a "create new project" intent
     const isNewProject = await this.detectNewProjectIntent(prompt)
@@ -74,6 +166,26 @@ export class AgentManager {
       }
     }
 
+    // WHY: Fail instead of silently sharing the main working tree — the user asked for
+    // isolation precisely because another session may be editing the same files
+    let worktree: Session['worktree']
+    if (options.worktree && workspacePath) {
+      if (!this.gitManager.isRepo(workspacePath)) {
+        throw new Error(`${workspaceName} is not a git repository — a worktree can't be created`)
+      }
+      const name = `session-${sessionId.slice(0, 8)}`
+      const worktreePath = path.join(workspacePath, '.accrew', 'worktrees', name)
+      worktree = { branch: `accrew/${name}`, repoPath: workspacePath }
+      this.gitManager.addWorktree(workspacePath, worktreePath, worktree.branch)
+      debug('agent', 'Worktree created', { sessionId, worktreePath, branch: worktree.branch })
+      workspacePath = worktreePath
+    }
+
+    // WHY: Linked workspaces are worked on in place — only the primary one gets a worktree
+    const linkedWorkspaces = workspacePath
+      ? await this.resolveLinkedWorkspaces(mentioned, [workspace?.path || workspacePath])
+      : []
+
     const session: Session = {
       id: sessionId,
       title: 'New conversation',
@@ -83,26 +195,31 @@ export class AgentManager {
       createdAt: Date.now(),
       updatedAt: Date.now(),
       hasUnread: false,
-      status: 'active'
+      status: 'active',
+      ...(worktree ? { worktree } : {}),
+      ...(linkedWorkspaces.length > 0 ? { linkedWorkspaces } : {}),
+      ...(options.parentSessionId ? { parentSessionId: options.parentSessionId } : {})
     }
 
     this.database.createSession(session)
-    debug('agent', 'Session created', { sessionId: session.id, workspace: session.workspace, workspacePath: session.workspacePath })
+    debug('agent', 'Session created', { sessionId: session.id, workspace: session.workspace, workspacePath: session.workspacePath, linkedWorkspaces: linkedWorkspaces.length })
 
     // Initialize active session tracking
     this.activeSessions.set(session.id, {
       session,
-      copilotClient: null,
+      provider: null,
       currentMessageId: null,
       thinking: '',
       toolCalls: [],
       fileChanges: [],
+      changeTracker: null,
       content: '',
-      aborted: false
+      aborted: false,
+      approvedPermissions: new Set()
     })
 
     // Send the initial prompt (don't await - let it run async so renderer gets session ID immediately)
-    this.sendMessage(session.id, prompt).catch(err => {
+    this.sendMessage(session.id, prompt, undefined, options.attachments).catch(err => {
       console.error('Error sending initial message:', err)
       this.emit('agent:error', { sessionId: session.id, error: err.message })
     })
@@ -110,7 +227,140 @@ export class AgentManager {
     return session
   }
 
-  async sendMessage(sessionId: string, content: string): Promise<void> {
+  // New session holding a copy of the conversation up to and including messageId
+  forkSession(sessionId: string, messageId: string): Session {
+    const source = this.database.getSession(sessionId)
+    if (!source) {
+      throw new Error('Session not found')
+    }
+    const history = this.database.getMessages(sessionId)
+    const index = history.findIndex(m => m.id === messageId)
+    if (index === -1) {
+      throw new Error('Message not found')
+    }
+    if (history[index].status === 'streaming') {
+      throw new Error("Can't fork from a turn that is still running")
+    }
+    return this.createFork(source, history.slice(0, index + 1))
+  }
+
+  // Change a prompt and run it again. Later turns are dropped (their file changes
+  // reverted when asked), or kept while the edited prompt continues in a fork.
+  async editMessage(sessionId: string, messageId: string, content: string, options: { mode: MessageEditMode; revert?: boolean; force?: boolean }): Promise<EditResult> {
+    const session = this.database.getSession(sessionId)
+    if (!session) {
+      throw new Error('Session not found')
+    }
+    if (!content.trim()) {
+      throw new Error('The prompt is empty')
+    }
+    const history = this.database.getMessages(sessionId)
+    const index = history.findIndex(m => m.id === messageId)
+    const original = history[index]
+    if (!original || original.role !== 'user') {
+      throw new Error('Only your own prompts can be edited')
+    }
+    debug('agent', 'Editing prompt', { sessionId, messageId, mode: options.mode, revert: !!options.revert })
+
+    if (options.mode === 'branch') {
+      const fork = this.createFork(session, history.slice(0, index))
+      const forkMessageId = uuid()
+      this.database.addMessageEdit(fork.id, forkMessageId, original.content)
+      this.sendMessage(fork.id, content, forkMessageId, original.attachments).catch(err => {
+        console.error('Error sending edited message:', err)
+        this.emit('agent:error', { sessionId: fork.id, error: err.message })
+      })
+      return { edited: true, session: fork, conflicts: [] }
+    }
+
+    // WHY: Dropping turns while one streams would leave it writing into a conversation
+    // that no longer has it
+    if (this.busySessions.has(sessionId)) {
+      throw new Error('Stop the agent before editing an earlier prompt')
+    }
+    const dropped = history.slice(index)
+    if (options.revert) {
+      // Newest first — each turn's files must be back to how the next turn found them
+      for (const message of [...dropped].reverse()) {
+        if (!message.checkpoint || message.checkpoint.revertedAt) continue
+        const result = this.checkpoints.revert(message.id, options.force)
+        if (!result.reverted) {
+          return { edited: false, session: null, conflicts: result.conflicts }
+        }
+      }
+    }
+
+    this.database.addMessageEdit(sessionId, messageId, original.content)
+    this.database.deleteMessages(dropped.map(m => m.id))
+
+    // WHY: The SDK session remembers the dropped turns — start a fresh one, which
+    // sendMessage seeds with the conversation as it now stands
+    const active = this.activeSessions.get(sessionId)
+    if (active?.provider) {
+      const client = active.provider
+      active.provider = null
+      await client.stop()
+    }
+    this.database.setSdkSessionId(sessionId, null)
+
+    // Same ID, so the edit history stays attached to the prompt
+    this.sendMessage(sessionId, content, messageId, original.attachments).catch(err => {
+      console.error('Error sending edited message:', err)
+      this.emit('agent:error', { sessionId, error: err.message })
+    })
+    return { edited: true, session, conflicts: [] }
+  }
+
+  private createFork(source: Session, history: Message[]): Session {
+    const forkId = uuid()
+    let workspacePath = source.workspacePath
+    let worktree: Session['worktree']
+    // WHY: Two sessions sharing one worktree would merge or discard each other's work —
+    // the fork gets its own branch, started from the original's commits (uncommitted
+    // edits in the original's worktree stay there)
+    if (source.worktree && source.workspacePath) {
+      const name = `session-${forkId.slice(0, 8)}`
+      workspacePath = path.join(source.worktree.repoPath, '.accrew', 'worktrees', name)
+      worktree = { branch: `accrew/${name}`, repoPath: source.worktree.repoPath }
+      this.gitManager.addWorktree(worktree.repoPath, workspacePath, worktree.branch, source.worktree.branch)
+      debug('agent', 'Worktree created for fork', { sessionId: forkId, workspacePath, branch: worktree.branch })
+    }
+
+    const now = Date.now()
+    const fork: Session = {
+      id: forkId,
+      title: source.title,
+      workspace: source.workspace,
+      workspacePath,
+      logo: source.logo,
+      createdAt: now,
+      updatedAt: now,
+      hasUnread: false,
+      status: 'completed',
+      ...(worktree ? { worktree } : {}),
+      ...(source.linkedWorkspaces ? { linkedWorkspaces: source.linkedWorkspaces } : {}),
+      forkedFrom: source.id
+    }
+
+    const messageIds = new Map<string, string>()
+    const messages: Message[] = history.map(message => {
+      const id = uuid()
+      messageIds.set(message.id, id)
+      return { ...message, id, sessionId: forkId }
+    })
+    // Checkpoints and usage stay with the original — they belong to the turns that ran there
+    const snapshots = this.database.getFileSnapshots(source.id)
+      .filter(snapshot => messageIds.has(snapshot.messageId))
+      .map(snapshot => ({ ...snapshot, messageId: messageIds.get(snapshot.messageId)! }))
+
+    // WHY: No SDK session ID is copied — the fork's first turn starts a fresh SDK
+    // session, which sendMessage seeds with the copied conversation
+    this.database.importSession(fork, messages, snapshots)
+    debug('agent', 'Session forked', { sessionId: forkId, forkedFrom: source.id, messages: messages.length })
+    return fork
+  }
+
+  async sendMessage(sessionId: string, content: string, userMessageId: string = uuid(), attachments: Attachment[] = []): Promise<void> {
     let active = this.activeSessions.get(sessionId)
     
     // WHY: Lazily initialize active session for existing DB sessions — when app restarts,
@@ -122,77 +372,134 @@ export class AgentManager {
       }
       active = {
         session,
-        copilotClient: null,
+        provider: null,
         currentMessageId: null,
         thinking: '',
         toolCalls: [],
         fileChanges: [],
+        changeTracker: null,
         content: '',
-        aborted: false
+        aborted: false,
+        approvedPermissions: new Set()
       }
       this.activeSessions.set(sessionId, active)
     }
 
     // Save user message
     const userMessage: Message = {
-      id: uuid(),
+      id: userMessageId,
       sessionId,
       role: 'user',
       content,
+      ...(attachments.length > 0 && { attachments }),
       createdAt: Date.now()
     }
     this.database.addMessage(userMessage)
 
+    // Workspaces mentioned in a follow-up join the session
+    const linkedUpdate = await this.linkMentionedWorkspaces(active, content)
+
     // WHY: Update session timestamp immediately when user sends — moves session
     // to top of list right away, not after agent responds
-    this.database.updateSession(sessionId, {})
+    this.database.updateSession(sessionId, linkedUpdate)
     const updatedSession = this.database.getSession(sessionId)
     if (updatedSession) {
       this.emit('session:updated', { session: updatedSession })
     }
 
-    // Reset streaming state for new assistant message
-    const assistantMessageId = uuid()
-    active.currentMessageId = assistantMessageId
-    active.thinking = ''
-    active.toolCalls = []
-    active.fileChanges = []
-    active.content = ''
-    active.aborted = false
-
-    // Save placeholder assistant message
-    const assistantMessage: Message = {
-      id: assistantMessageId,
-      sessionId,
-      role: 'assistant',
-      content: '',
-      createdAt: Date.now()
+    // WHY: Waits with the prompt already in the conversation, so a queued session reads
+    // like one the agent hasn't got to yet. Busy from here, so follow-ups queue behind it
+    this.busySessions.add(sessionId)
+    if (!await this.waitForRunSlot(active.session)) {
+      this.busySessions.delete(sessionId)
+      this.wakeTurnEndWaiters()
+      this.emit('agent:done', { sessionId, content: '', aborted: true })
+      return
     }
-    this.database.addMessage(assistantMessage)
 
-    // Start or continue Copilot session
+    const assistantMessageId = uuid()
+    let completed = false
+    // WHY: Everything from here runs inside the try — the finally is what gives the run
+    // slot back, so nothing that can throw may come between taking it and the try
     try {
-      if (!active.copilotClient) {
-        const config = this.configManager.get()
-        debug('agent', 'Initializing CopilotClient', { sessionId, model: config.model, workingDir: active.session.workspacePath })
-        active.copilotClient = new CopilotClient({
-          workingDirectory: active.session.workspacePath || process.cwd(),
-          model: config.model,
-        })
-        await active.copilotClient.init()
+      // Reset streaming state for new assistant message
+      active.currentMessageId = assistantMessageId
+      active.thinking = ''
+      active.toolCalls = []
+      active.fileChanges = []
+      active.content = ''
+      active.aborted = false
+      // WHY: Changes are found by comparing the workspace with this snapshot rather than
+      // by reading tool arguments — shell commands (sed, npm init, codegen) write files too
+      active.changeTracker = active.session.workspacePath
+        ? await FileChangeTracker.create([active.session.workspacePath, ...(active.session.linkedWorkspaces ?? []).map(w => w.path)])
+        : null
+
+      // Save placeholder assistant message
+      const assistantMessage: Message = {
+        id: assistantMessageId,
+        sessionId,
+        role: 'assistant',
+        content: '',
+        status: 'streaming',
+        createdAt: Date.now()
+      }
+      this.database.addMessage(assistantMessage)
+
+      // Start or continue the agent's session
+      const settings = this.configManager.forWorkspace(active.session.workspace, active.session.workspacePath)
+      // The prefix goes to the agent only — the conversation shows what the user typed
+      let prompt = settings.promptPrefix ? `${settings.promptPrefix}\n\n${content}` : content
+      if (!active.provider) {
+        const resumeSessionId = this.database.getSdkSessionId(sessionId)
+        // WHY: The system agent has no workspace of its own to work in — it gets tools
+        // to delegate to sessions in the user's workspaces instead
+        const orchestrator = !active.session.workspace
+        debug('agent', 'Initializing agent provider', { sessionId, provider: settings.provider, model: settings.model, workingDir: active.session.workspacePath, resumeSessionId, allowedTools: settings.allowedTools?.length, orchestrator })
+        active.provider = createAgentProvider(settings.provider, {
+          workingDirectory: active.session.workspacePath || undefined,
+          model: settings.model,
+          systemMessage: orchestrator ? ORCHESTRATOR_INSTRUCTIONS : this.buildWorkspaceContext(active.session),
+          onPermissionRequest: (request) => this.requestPermission(sessionId, request),
+          resumeSessionId: resumeSessionId || undefined,
+          env: settings.env,
+          availableTools: settings.allowedTools,
+          tools: orchestrator ? createOrchestratorTools(sessionId, this, this.workspaceManager, this.database) : undefined,
+        }, this.configManager.get())
+        await active.provider.init()
+
+        // WHY: Also cleared when the provider can't resume — after the workspace switched
+        // providers, the old session ID would resume a conversation missing these turns
+        const sdkSessionId = active.provider.sessionId
+        if (sdkSessionId !== resumeSessionId) {
+          this.database.setSdkSessionId(sessionId, sdkSessionId)
+        }
+        // WHY: A fresh SDK session knows nothing of earlier turns (resume failed, or the
+        // session predates SDK ID persistence) — replay them so the agent keeps context
+        if (!active.provider.wasResumed) {
+          prompt = this.buildSeedPrompt(sessionId, prompt, [userMessage.id, assistantMessageId])
+        }
       }
 
       // Stream the response
-      for await (const event of active.copilotClient.chat(content)) {
+      for await (const event of active.provider.chat(prompt, attachments)) {
         await this.handleStreamEvent(sessionId, event)
+        this.schedulePersist(sessionId)
       }
+      // Catches writes no tool_result was reported for, like a command still running at abort
+      this.cancelDetect(sessionId)
+      await this.detectFileChanges(sessionId)
+      active.changeTracker = null
+      this.checkpoints.finalize(assistantMessageId)
 
       // Finalize the message
+      this.cancelPersist(sessionId)
       this.database.updateMessage(assistantMessageId, {
         content: active.content,
         thinking: active.thinking || undefined,
         toolCalls: active.toolCalls.length > 0 ? active.toolCalls : undefined,
-        fileChanges: active.fileChanges.length > 0 ? active.fileChanges : undefined
+        fileChanges: active.fileChanges.length > 0 ? active.fileChanges : undefined,
+        status: undefined
       })
 
       // Save file snapshots
@@ -237,15 +544,350 @@ export class AgentManager {
       if (updatedSession) {
         this.emit('session:updated', { session: updatedSession })
       }
+      completed = true
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       debug('agent', 'Error in sendMessage', { sessionId, error: errorMessage })
+      // Files may have been written before the failure — keep the turn revertible
+      this.cancelDetect(sessionId)
+      await this.detectFileChanges(sessionId)
+      active.changeTracker = null
+      this.checkpoints.finalize(assistantMessageId)
+      this.cancelPersist(sessionId)
+      this.persistStreamingState(active, 'interrupted')
       this.emit('agent:error', { sessionId, error: errorMessage })
       this.database.updateSession(sessionId, { status: 'error' })
+    } finally {
+      this.busySessions.delete(sessionId)
+      this.releaseRunSlot(sessionId)
+      this.wakeTurnEndWaiters()
+    }
+
+    // WHY: Only continue with the queue after a clean finish — when the user stopped
+    // the agent or the turn failed, the queued follow-ups were written for an outcome
+    // that didn't happen, so they wait until the user sends one explicitly
+    if (completed && !active.aborted) {
+      this.sendNextQueued(sessionId)
+    }
+  }
+
+  // Message queue — follow-up prompts written while a turn is still streaming
+
+  getQueues(): Record<string, QueuedMessage[]> {
+    return Object.fromEntries(this.messageQueues)
+  }
+
+  queueMessage(sessionId: string, content: string, attachments: Attachment[] = []): QueuedMessage[] {
+    const queued: QueuedMessage = {
+      id: uuid(),
+      sessionId,
+      content,
+      ...(attachments.length > 0 && { attachments }),
+      createdAt: Date.now()
+    }
+    this.setQueue(sessionId, [...this.getQueue(sessionId), queued])
+    debug('agent', 'Message queued', { sessionId, queued: this.getQueue(sessionId).length })
+    // The turn may have finished while the renderer still showed it streaming
+    if (!this.busySessions.has(sessionId)) {
+      this.sendNextQueued(sessionId)
+    }
+    return this.getQueue(sessionId)
+  }
+
+  updateQueuedMessage(sessionId: string, id: string, content: string): QueuedMessage[] {
+    this.setQueue(sessionId, this.getQueue(sessionId).map(q => q.id === id ? { ...q, content } : q))
+    return this.getQueue(sessionId)
+  }
+
+  removeQueuedMessage(sessionId: string, id: string): QueuedMessage[] {
+    this.setQueue(sessionId, this.getQueue(sessionId).filter(q => q.id !== id))
+    return this.getQueue(sessionId)
+  }
+
+  moveQueuedMessage(sessionId: string, id: string, toIndex: number): QueuedMessage[] {
+    const queue = [...this.getQueue(sessionId)]
+    const from = queue.findIndex(q => q.id === id)
+    if (from !== -1) {
+      const [item] = queue.splice(from, 1)
+      queue.splice(Math.max(0, Math.min(toIndex, queue.length)), 0, item)
+      this.setQueue(sessionId, queue)
+    }
+    return this.getQueue(sessionId)
+  }
+
+  // Send one queued message right away (resumes a queue paused by stop or error)
+  sendQueuedNow(sessionId: string, id: string): void {
+    if (this.busySessions.has(sessionId)) {
+      throw new Error('The agent is still working — the message will be sent when it finishes')
+    }
+    const queue = this.getQueue(sessionId)
+    const index = queue.findIndex(q => q.id === id)
+    if (index === -1) return
+    this.setQueue(sessionId, [queue[index], ...queue.filter(q => q.id !== id)])
+    this.sendNextQueued(sessionId)
+  }
+
+  private getQueue(sessionId: string): QueuedMessage[] {
+    return this.messageQueues.get(sessionId) || []
+  }
+
+  private setQueue(sessionId: string, queue: QueuedMessage[]): void {
+    if (queue.length > 0) {
+      this.messageQueues.set(sessionId, queue)
+    } else {
+      this.messageQueues.delete(sessionId)
+    }
+    this.emit('queue:updated', { sessionId, queue })
+  }
+
+  // WHY: Not awaited — sendMessage resolves the renderer's session:send call, which
+  // must settle when its own turn ends rather than after the whole queue drains
+  private sendNextQueued(sessionId: string): void {
+    const [next, ...rest] = this.getQueue(sessionId)
+    if (!next) return
+    this.setQueue(sessionId, rest)
+
+    const message: Message = {
+      id: next.id,
+      sessionId,
+      role: 'user',
+      content: next.content,
+      ...(next.attachments && { attachments: next.attachments }),
+      createdAt: Date.now()
+    }
+    debug('agent', 'Sending queued message', { sessionId, remaining: rest.length })
+    this.emit('queue:sent', { sessionId, message })
+    this.sendMessage(sessionId, next.content, next.id, next.attachments).catch(err => {
+      console.error('Error sending queued message:', err)
+      this.emit('agent:error', { sessionId, error: err.message })
+    })
+  }
+
+  // Run queue — turns waiting for a run slot under the concurrency limits
+
+  getRunQueue(): QueuedRun[] {
+    return this.runQueue.map(({ sessionId, workspace, queuedAt }) => ({ sessionId, workspace, queuedAt }))
+  }
+
+  // Move a queued run to the front, so it gets the next free slot
+  prioritizeRun(sessionId: string): void {
+    const index = this.runQueue.findIndex(r => r.sessionId === sessionId)
+    if (index <= 0) return
+    const [run] = this.runQueue.splice(index, 1)
+    this.runQueue.unshift(run)
+    debug('agent', 'Run prioritized', { sessionId })
+    this.emitRunQueue()
+  }
+
+  // Drop a queued run; its prompt stays in the conversation unanswered
+  cancelRun(sessionId: string): void {
+    const index = this.runQueue.findIndex(r => r.sessionId === sessionId)
+    if (index === -1) return
+    const [run] = this.runQueue.splice(index, 1)
+    debug('agent', 'Run cancelled', { sessionId })
+    this.emitRunQueue()
+    run.resolve(false)
+  }
+
+  // Start what the current limits allow, e.g. after they were raised in Settings
+  startQueuedRuns(): void {
+    if (this.runQueue.length === 0) return
+    const limit = this.configManager.get().maxConcurrentRuns
+    const startable: PendingRun[] = []
+    // WHY: In queue order, but a run held back by its workspace's own limit doesn't
+    // hold up runs in other workspaces behind it
+    for (const run of this.runQueue) {
+      if (limit > 0 && this.runningTurns.size >= limit) break
+      if (run.workspaceLimit) {
+        const inWorkspace = [...this.runningTurns.values()].filter(workspace => workspace === run.workspace).length
+        if (inWorkspace >= run.workspaceLimit) continue
+      }
+      this.runningTurns.set(run.sessionId, run.workspace)
+      startable.push(run)
+    }
+    if (startable.length === 0) return
+    this.runQueue = this.runQueue.filter(r => !startable.includes(r))
+    this.emitRunQueue()
+    for (const run of startable) {
+      debug('agent', 'Run started', { sessionId: run.sessionId, running: this.runningTurns.size, queued: this.runQueue.length })
+      run.resolve(true)
     }
   }
 
+  // Resolves true once the turn may start, false when its queued run was cancelled
+  private waitForRunSlot(session: Session): Promise<boolean> {
+    const { maxConcurrentRuns } = this.configManager.forWorkspace(session.workspace, session.workspacePath)
+    return new Promise(resolve => {
+      this.runQueue.push({ sessionId: session.id, workspace: session.workspace, queuedAt: Date.now(), workspaceLimit: maxConcurrentRuns, resolve })
+      this.startQueuedRuns()
+      const position = this.runQueue.findIndex(r => r.sessionId === session.id)
+      if (position !== -1) {
+        debug('agent', 'Run queued', { sessionId: session.id, position: position + 1, running: this.runningTurns.size })
+        this.emitRunQueue()
+      }
+    })
+  }
+
+  private releaseRunSlot(sessionId: string): void {
+    if (!this.runningTurns.delete(sessionId)) return
+    this.startQueuedRuns()
+  }
+
+  private emitRunQueue(): void {
+    this.emit('run:queue-updated', { runs: this.getRunQueue() })
+  }
+
+  // Child sessions — started by a system agent session to delegate work to a workspace
+
+  async spawnChildSession(parentSessionId: string, workspaceName: string, prompt: string, options: { worktree?: boolean } = {}): Promise<Session> {
+    const workspace = await this.workspaceManager.getWorkspace(workspaceName.replace(/^@/, ''))
+    if (!workspace) {
+      throw new Error(`There is no workspace named "${workspaceName}" — list_workspaces shows their names`)
+    }
+    const session = await this.createSession(workspace.displayName, prompt, uuid(), { worktree: options.worktree, parentSessionId })
+    debug('agent', 'Child session spawned', { parentSessionId, sessionId: session.id, workspace: session.workspace })
+    // Started in the main process — the renderer adds it as it does a scheduled job's session
+    this.emit('session:created', { session })
+    return session
+  }
+
+  // Resolves once none of the sessions has a turn in flight, after timeoutMs, or when
+  // the waiting session is stopped
+  async waitForSessions(waiterSessionId: string, sessionIds: string[], timeoutMs: number): Promise<void> {
+    const deadline = Date.now() + timeoutMs
+    const finished = () => sessionIds.every(id => !this.busySessions.has(id))
+    const stopped = () => this.activeSessions.get(waiterSessionId)?.aborted ?? true
+    // WHY: The waiting turn gives its run slot up — with a limit of 1, the sessions it
+    // waits for could never start otherwise — and queues for one again before it resumes
+    this.releaseRunSlot(waiterSessionId)
+    debug('agent', 'Waiting for sessions', { sessionId: waiterSessionId, sessionIds })
+    try {
+      while (!finished() && !stopped() && Date.now() < deadline) {
+        await new Promise<void>(resolve => {
+          const wake = () => {
+            clearTimeout(timer)
+            this.turnEndWaiters.delete(wake)
+            resolve()
+          }
+          const timer = setTimeout(wake, deadline - Date.now())
+          this.turnEndWaiters.add(wake)
+        })
+      }
+    } finally {
+      const active = this.activeSessions.get(waiterSessionId)
+      // A cancelled run stops the turn that would have resumed in it
+      if (active && !stopped() && !await this.waitForRunSlot(active.session)) {
+        await this.abortSession(waiterSessionId)
+      }
+    }
+  }
+
+  // Waiters check again whether what they wait for has happened
+  private wakeTurnEndWaiters(): void {
+    for (const wake of [...this.turnEndWaiters]) wake()
+  }
+
+  // Multiple workspaces
+
+  // "@name" tokens after the leading mentions — only ones naming a workspace count
+  private findInlineMentions(text: string): string[] {
+    return [...text.matchAll(/(?:^|\s)@([\w-]+(?:\/[\w.-]+)*)/g)].map(m => m[1].replace(/\.+$/, ''))
+  }
+
+  // Resolve mentioned names to workspaces, skipping unknown names and paths already in use
+  private async resolveLinkedWorkspaces(names: string[], existingPaths: string[]): Promise<LinkedWorkspace[]> {
+    const seen = new Set(existingPaths)
+    const linked: LinkedWorkspace[] = []
+    for (const name of names) {
+      const workspace = await this.workspaceManager.getWorkspace(name)
+      if (!workspace || seen.has(workspace.path)) continue
+      seen.add(workspace.path)
+      linked.push({ name: workspace.displayName, path: workspace.path, logo: workspace.logo })
+    }
+    return linked
+  }
+
+  // Returns the session update to store when the message mentions workspaces the session
+  // doesn't use yet
+  private async linkMentionedWorkspaces(active: ActiveSession, content: string): Promise<Partial<Session>> {
+    const { session } = active
+    if (!session.workspacePath) return {}
+    const current = session.linkedWorkspaces || []
+    const existing = [session.worktree?.repoPath || session.workspacePath, ...current.map(w => w.path)]
+    const added = await this.resolveLinkedWorkspaces(this.findInlineMentions(content), existing)
+    if (added.length === 0) return {}
+
+    debug('agent', 'Linking workspaces', { sessionId: session.id, added: added.map(w => w.name) })
+    session.linkedWorkspaces = [...current, ...added]
+    // WHY: The workspace context is part of the system message, which is only set when
+    // the SDK session opens — restart the client so the next turn resumes with it
+    if (active.provider) {
+      const client = active.provider
+      active.provider = null
+      await client.stop()
+    }
+    return { linkedWorkspaces: session.linkedWorkspaces }
+  }
+
+  // WHY: The agent runs in the primary workspace — tell it where the others are so it
+  // can read and change them by absolute path, and pass on their Copilot instructions
+  // since the CLI only picks up the working directory's own
+  private buildWorkspaceContext(session: Session): string | undefined {
+    if (!session.workspacePath || !session.linkedWorkspaces?.length) return undefined
+
+    const MAX_INSTRUCTIONS_CHARS = 4000
+    const sections = session.linkedWorkspaces.map(w => {
+      let instructions = ''
+      try {
+        instructions = fs.readFileSync(path.join(w.path, '.github', 'copilot-instructions.md'), 'utf-8').trim()
+      } catch {
+        // No instructions for this workspace
+      }
+      if (instructions.length > MAX_INSTRUCTIONS_CHARS) {
+        instructions = instructions.substring(0, MAX_INSTRUCTIONS_CHARS) + '…'
+      }
+      return `- ${w.name}: ${w.path}${instructions ? `\n  <instructions workspace="${w.name}">\n${instructions}\n  </instructions>` : ''}`
+    })
+
+    return `This session works across multiple workspaces. Changes often span them, e.g. a frontend and the backend it calls.
+- ${session.workspace} (primary, your working directory): ${session.workspacePath}
+${sections.join('\n')}
+
+Use absolute paths for files outside the working directory, and run commands in the workspace they belong to.`
+  }
+
+  // Prefix the prompt with a transcript of earlier turns, newest kept when trimming
+  private buildSeedPrompt(sessionId: string, content: string, excludeIds: string[]): string {
+    const history = this.database.getMessages(sessionId)
+      .filter(m => !excludeIds.includes(m.id) && m.role !== 'system' && m.content.trim())
+    if (history.length === 0) return content
+
+    const MAX_MESSAGE_CHARS = 2000
+    const MAX_TOTAL_CHARS = 24000
+    const turns: string[] = []
+    let total = 0
+    for (let i = history.length - 1; i >= 0; i--) {
+      const m = history[i]
+      const text = m.content.length > MAX_MESSAGE_CHARS ? m.content.substring(0, MAX_MESSAGE_CHARS) + '…' : m.content
+      const turn = `${m.role === 'user' ? 'User' : 'Assistant'}: ${text}`
+      if (total + turn.length > MAX_TOTAL_CHARS) break
+      turns.unshift(turn)
+      total += turn.length
+    }
+
+    debug('agent', 'Seeding prompt with history', { sessionId, messages: turns.length, of: history.length })
+    return `This conversation is being continued from an earlier session. Here is the transcript so far${turns.length < history.length ? ' (oldest messages omitted)' : ''}:
+
+<previous_conversation>
+${turns.join('\n\n')}
+</previous_conversation>
+
+Continue from there. The user's new message is:
+
+${content}`
+  }
+
   private async handleStreamEvent(sessionId: string, event: StreamEvent): Promise<void> {
     const active = this.activeSessions.get(sessionId)
     if (!active) return
@@ -259,6 +901,13 @@ export class AgentManager {
       case 'tool_call':
         if (event.id && event.name) {
           debug('agent', 'Tool call', { sessionId, tool: event.name, id: event.id })
+          // Fallback checkpoint for file tools that never ask for write permission;
+          // read-only tools are captured too and dropped unchanged at finalize
+          const args = event.arguments || {}
+          const targetPath = (args.path as string) || (args.filePath as string)
+          if (typeof targetPath === 'string' && targetPath) {
+            this.captureCheckpoint(sessionId, targetPath)
+          }
           const toolCall: ToolCall = {
             id: event.id,
             name: event.name,
@@ -275,40 +924,8 @@ export class AgentManager {
         if (tc) {
           tc.result = event.result
           tc.status = 'completed'
-          
-          // Check for file changes in tool results
-          const args = tc.arguments || {}
-          const toolName = tc.name?.toLowerCase() || ''
-          if (toolName === 'write_file' || toolName === 'create_file' || toolName === 'create' || toolName === 'create_file') {
-            const change: FileChange = {
-              path: (args.path as string) || (args.filePath as string),
-              type: 'created',
-              newContent: (args.content as string) || ''
-            }
-            active.fileChanges.push(change)
-            this.emit('agent:file-change', { sessionId, change })
-          } else if (toolName === 'edit' || toolName === 'edit_file' || toolName === 'replace_string_in_file' || toolName === 'str_replace') {
-            // Extract old/new content from arguments (common patterns)
-            const oldContent = (args.oldString as string) || (args.old_str as string) || (args.search as string) || ''
-            const newContent = (args.newString as string) || (args.new_str as string) || (args.replace as string) || (args.content as string) || ''
-            const change: FileChange = {
-              path: (args.path as string) || (args.filePath as string),
-              type: 'modified',
-              oldContent,
-              newContent
-            }
-            active.fileChanges.push(change)
-            this.emit('agent:file-change', { sessionId, change })
-          } else if (toolName === 'delete_file' || toolName === 'delete') {
-            const change: FileChange = {
-              path: (args.path as string) || (args.filePath as string),
-              type: 'deleted',
-              oldContent: ''
-            }
-            active.fileChanges.push(change)
-            this.emit('agent:file-change', { sessionId, change })
-          }
         }
+        this.scheduleDetect(sessionId)
         debug('agent', 'Tool result', { sessionId, toolCallId: event.toolCallId, tool: tc?.name })
         this.emit('agent:tool-result', { sessionId, toolCallId: event.toolCallId, result: event.result })
         break
@@ -326,9 +943,198 @@ export class AgentManager {
         // Emit with separator so renderer stays in sync
         this.emit('agent:response', { sessionId, content: separator + newContent })
         break
+
+      case 'usage':
+        if (event.usage && active.currentMessageId) {
+          this.database.addUsage(sessionId, active.currentMessageId, active.session.workspace, event.usage)
+        }
+        break
     }
   }
 
+  // Write what the turn has produced so far; the message stays marked as streaming
+  // until sendMessage finalizes it, so a crash before then leaves it detectable
+  private schedulePersist(sessionId: string): void {
+    if (this.persistTimers.has(sessionId)) return
+    this.persistTimers.set(sessionId, setTimeout(() => {
+      this.persistTimers.delete(sessionId)
+      const active = this.activeSessions.get(sessionId)
+      if (active) this.persistStreamingState(active)
+    }, PERSIST_INTERVAL_MS))
+  }
+
+  private cancelPersist(sessionId: string): void {
+    clearTimeout(this.persistTimers.get(sessionId))
+    this.persistTimers.delete(sessionId)
+  }
+
+  private persistStreamingState(active: ActiveSession, status?: Message['status']): void {
+    if (!active.currentMessageId) return
+    this.database.updateMessage(active.currentMessageId, {
+      content: active.content,
+      thinking: active.thinking || undefined,
+      toolCalls: active.toolCalls.length > 0 ? active.toolCalls : undefined,
+      fileChanges: active.fileChanges.length > 0 ? active.fileChanges : undefined,
+      ...(status && { status })
+    })
+  }
+
+  // WHY: Resolution order is session approvals → persistent workspace rules → ask the
+  // user. The SDK blocks the tool call until the returned promise settles, so the
+  // agent simply waits while the dialog is open.
+  private async requestPermission(sessionId: string, sdkRequest: ToolPermissionRequest): Promise<boolean> {
+    const active = this.activeSessions.get(sessionId)
+    if (!active || active.aborted) return false
+
+    const { summary, target } = describePermissionRequest(sdkRequest)
+    const kind = sdkRequest.kind
+    // WHY: The SDK holds the write until this handler settles, so the file still has
+    // its pre-turn content here — unlike tool_call events, which may arrive after it ran
+    if (kind === 'write' && target !== '*') {
+      this.captureCheckpoint(sessionId, target)
+    }
+    if (active.approvedPermissions.has(`${kind}:${target}`)) {
+      debug('agent', 'Permission approved for session', { sessionId, kind, target })
+      return true
+    }
+
+    const rules = this.database.getPermissionRules(active.session.workspace)
+      .filter(r => r.kind === kind && (r.pattern === target || r.pattern === '*'))
+    // Exact-target rules take precedence over kind-wide wildcards
+    const rule = rules.find(r => r.pattern === target) || rules[0]
+    if (rule) {
+      debug('agent', 'Permission resolved by rule', { sessionId, kind, target, action: rule.action })
+      return rule.action === 'allow'
+    }
+
+    const request: PermissionRequest = {
+      id: uuid(),
+      sessionId,
+      kind,
+      summary,
+      target,
+      intention: typeof sdkRequest.intention === 'string' ? sdkRequest.intention : undefined,
+      createdAt: Date.now()
+    }
+    debug('agent', 'Permission requested', { sessionId, kind, target })
+    return new Promise<boolean>(resolve => {
+      this.pendingPermissions.set(request.id, { request, workspace: active.session.workspace, resolve })
+      this.emit('permission:request', { request })
+    })
+  }
+
+  respondToPermission(requestId: string, decision: PermissionDecision): void {
+    const pending = this.pendingPermissions.get(requestId)
+    if (!pending) return
+
+    const { request, workspace } = pending
+    const approved = decision.startsWith('allow')
+    debug('agent', 'Permission decision', { sessionId: request.sessionId, kind: request.kind, target: request.target, decision })
+
+    if (decision === 'allow-session') {
+      this.activeSessions.get(request.sessionId)?.approvedPermissions.add(`${request.kind}:${request.target}`)
+    } else if (decision === 'allow-always' || decision === 'deny-always') {
+      this.database.addPermissionRule({ workspace, kind: request.kind, pattern: request.target, action: approved ? 'allow' : 'deny' })
+    }
+
+    this.resolvePermission(requestId, approved)
+
+    // WHY: Parallel tool calls can queue several identical prompts — once the user
+    // grants or denies beyond a single call, settle the matching ones too instead of
+    // asking the same question again
+    if (decision !== 'allow-once' && decision !== 'deny') {
+      for (const [id, other] of this.pendingPermissions) {
+        const sameTarget = other.request.kind === request.kind && other.request.target === request.target
+        const inScope = decision === 'allow-session' ? other.request.sessionId === request.sessionId : other.workspace === workspace
+        if (sameTarget && inScope) {
+          this.resolvePermission(id, approved)
+        }
+      }
+    }
+  }
+
+  getPendingPermissions(): PermissionRequest[] {
+    return Array.from(this.pendingPermissions.values()).map(p => p.request)
+  }
+
+  private resolvePermission(requestId: string, approved: boolean): void {
+    const pending = this.pendingPermissions.get(requestId)
+    if (!pending) return
+    this.pendingPermissions.delete(requestId)
+    pending.resolve(approved)
+    this.emit('permission:resolved', { requestId, sessionId: pending.request.sessionId })
+  }
+
+  // WHY: An aborted or stopped session must not leave the SDK blocked on a
+  // permission promise nobody will answer — deny everything still pending
+  private denyPendingPermissions(sessionId: string): void {
+    for (const [id, pending] of this.pendingPermissions) {
+      if (pending.request.sessionId === sessionId) {
+        this.resolvePermission(id, false)
+      }
+    }
+  }
+
+  // Snapshot a file the current turn is about to touch (first touch per turn wins)
+  private captureCheckpoint(sessionId: string, filePath: string): void {
+    const active = this.activeSessions.get(sessionId)
+    if (!active?.currentMessageId) return
+    const absolutePath = path.resolve(active.session.workspacePath || process.cwd(), filePath)
+    this.checkpoints.capture(sessionId, active.currentMessageId, absolutePath)
+  }
+
+  // Report what the turn changed on disk since the last check. A file changed again
+  // replaces its earlier entry, so each file is listed once with its net change
+  // WHY: A scan stats every file in the workspace — tool calls that come in quick
+  // succession share one, rather than each starting its own
+  private scheduleDetect(sessionId: string): void {
+    if (this.detectTimers.has(sessionId)) return
+    this.detectTimers.set(sessionId, setTimeout(() => {
+      this.detectTimers.delete(sessionId)
+      this.detectFileChanges(sessionId)
+    }, DETECT_INTERVAL_MS))
+  }
+
+  private cancelDetect(sessionId: string): void {
+    clearTimeout(this.detectTimers.get(sessionId))
+    this.detectTimers.delete(sessionId)
+  }
+
+  private async detectFileChanges(sessionId: string): Promise<void> {
+    const active = this.activeSessions.get(sessionId)
+    const tracker = active?.changeTracker
+    const messageId = active?.currentMessageId
+    if (!active || !messageId || !tracker) return
+    let changes: FileChange[]
+    try {
+      changes = await tracker.detect()
+    } catch (error) {
+      debug('agent', 'Detecting file changes failed', { sessionId, error: error instanceof Error ? error.message : String(error) })
+      return
+    }
+    for (const change of changes) {
+      // WHY: Checkpoints are normally taken as a write is requested; shell commands write
+      // without asking per file, so their pre-turn content comes from the tracker instead
+      for (const filePath of change.oldPath ? [change.oldPath, change.path] : [change.path]) {
+        const before = await tracker.before(filePath)
+        if (before !== undefined) {
+          this.checkpoints.captureContent(sessionId, messageId, filePath, before)
+        }
+      }
+      debug('agent', 'File change', { sessionId, path: change.path, type: change.type })
+      this.emit('agent:file-change', { sessionId, change })
+    }
+    // The turn may have ended while this scan ran — the one at turn end reported the rest
+    if (active.changeTracker === tracker) {
+      active.fileChanges = tracker.changes()
+    }
+  }
+
+  revertTurn(messageId: string, force: boolean = false): RevertResult {
+    debug('agent', 'Reverting turn', { messageId, force })
+    return this.checkpoints.revert(messageId, force)
+  }
+
   async matchWorkspace(prompt: string): Promise<WorkspaceMatch> {
     debug('agent', 'Matching workspace', { promptLength: prompt.length })
     const workspaces = await this.workspaceManager.listWorkspaces()
@@ -346,10 +1152,7 @@ export class AgentManager {
 
     // Use a lightweight LLM call for matching
     try {
-      const config = this.configManager.get()
-      const matchClient = new CopilotClient({
-        model: config.model,
-      })
+      const matchClient = this.createUtilityProvider(null, null)
       await matchClient.init()
 
       const matchPrompt = `Given this user prompt: "${prompt}"
@@ -420,11 +1223,8 @@ Only match if confidence > 0.7. Be conservative.`
 
     debug('agent', 'Generating title', { sessionId })
     try {
-      const config = this.configManager.get()
-      const titleClient = new CopilotClient({
-        workingDirectory: active?.session.workspacePath || undefined,
-        model: config.model,
-      })
+      const session = active?.session ?? this.database.getSession(sessionId)
+      const titleClient = this.createUtilityProvider(session?.workspace ?? null, session?.workspacePath ?? null)
       await titleClient.init()
 
       const conversation = messages.slice(0, 4).map(m => `${m.role}: ${m.content.substring(0, 200)}`).join('\n')
@@ -450,6 +1250,16 @@ Respond with just the title, no quotes or punctuation.`
     }
   }
 
+  // For one-off questions without tools — runs on the workspace's provider and model
+  private createUtilityProvider(workspace: string | null, workspacePath: string | null): AgentProvider {
+    const settings = this.configManager.forWorkspace(workspace, workspacePath)
+    return createAgentProvider(settings.provider, {
+      workingDirectory: workspacePath || undefined,
+      model: settings.model,
+      utility: true,
+    }, this.configManager.get())
+  }
+
   async regenerateTitle(sessionId: string): Promise<string | null> {
     const messages = this.database.getMessages(sessionId)
     const session = this.database.getSession(sessionId)
@@ -457,11 +1267,7 @@ Respond with just the title, no quotes or punctuation.`
     if (messages.length === 0) return null
 
     try {
-      const config = this.configManager.get()
-      const titleClient = new CopilotClient({
-        workingDirectory: session?.workspacePath || undefined,
-        model: config.model,
-      })
+      const titleClient = this.createUtilityProvider(session?.workspace ?? null, session?.workspacePath ?? null)
       await titleClient.init()
 
       // Use more context for regeneration — up to 10 messages
@@ -490,6 +1296,61 @@ Respond with just the title, no quotes or punctuation.`
     return null
   }
 
+  // WHY: Drafted from the session's recorded fileChanges and prompts rather than the
+  // git diff — the conversation says why the code changed, which a diff alone can't
+  async draftCommitMessage(sessionId: string, stagedFiles: string[]): Promise<string> {
+    const session = this.database.getSession(sessionId)
+    const messages = this.database.getMessages(sessionId)
+    const workspacePath = session?.workspacePath || ''
+    // Files in linked workspaces are prefixed with the workspace name, as the renderer sends them
+    const relative = (p: string) => {
+      const linked = session?.linkedWorkspaces?.find(w => p.startsWith(w.path + '/'))
+      if (linked) return `${linked.name}/${p.slice(linked.path.length + 1)}`
+      return p.startsWith(workspacePath) ? p.slice(workspacePath.length).replace(/^\//, '') : p
+    }
+
+    const changes = messages
+      .flatMap(m => m.fileChanges || [])
+      .filter(c => stagedFiles.length === 0 || stagedFiles.includes(relative(c.path)))
+    const changeSummary = changes.slice(-30).map(c => {
+      const excerpt = (c.newContent || c.oldContent || '').substring(0, 300)
+      return `- ${c.type} ${relative(c.path)}${excerpt ? `:\n${excerpt}` : ''}`
+    }).join('\n')
+    const requests = messages
+      .filter(m => m.role === 'user')
+      .map(m => `- ${m.content.substring(0, 300)}`)
+      .join('\n')
+
+    debug('agent', 'Drafting commit message', { sessionId, changes: changes.length, stagedFiles: stagedFiles.length })
+    const draftClient = this.createUtilityProvider(session?.workspace ?? null, workspacePath || null)
+    await draftClient.init()
+
+    const draftPrompt = `Write a git commit message for these changes.
+
+What the user asked for:
+${requests || '(unknown)'}
+
+Staged files: ${stagedFiles.join(', ') || '(unknown)'}
+
+Changes made by the agent:
+${changeSummary || '(no recorded file changes)'}
+
+Use a concise imperative subject line (max 72 characters), then a blank line and a short body only if it adds useful context.
+Respond with just the commit message, no quotes or code fences.`
+
+    let draft = ''
+    try {
+      for await (const event of draftClient.chat(draftPrompt)) {
+        if (event.type === 'text') {
+          draft += event.content || ''
+        }
+      }
+    } finally {
+      await draftClient.stop()
+    }
+    return draft.trim().replace(/^```\w*\n?|\n?```$/g, '').trim()
+  }
+
   private async updateTitleIfNeeded(sessionId: string): Promise<void> {
     const messages = this.database.getMessages(sessionId)
     // Update title every 10 messages
@@ -498,21 +1359,107 @@ Respond with just the title, no quotes or punctuation.`
     }
   }
 
+  // Commit whatever the agent left uncommitted, merge the branch into the main working
+  // tree, then remove the worktree and archive the session
+  async mergeWorktree(sessionId: string): Promise<Session> {
+    const session = this.database.getSession(sessionId)
+    if (!session?.worktree || !session.workspacePath) {
+      throw new Error('Session has no worktree')
+    }
+    const { branch, repoPath } = session.worktree
+    await this.stopSession(sessionId)
+
+    // WHY: Agents rarely commit on their own — merging only existing commits would
+    // silently leave their edits behind when the worktree is removed
+    this.gitManager.commitAll(session.workspacePath, session.title)
+    this.gitManager.mergeBranch(repoPath, branch)
+    this.gitManager.removeWorktree(repoPath, session.workspacePath)
+    this.gitManager.deleteBranch(repoPath, branch)
+    debug('agent', 'Worktree merged', { sessionId, branch, repoPath })
+    return this.archiveWithoutWorktree(sessionId)
+  }
+
+  // Throw away the worktree and its branch, then archive the session
+  async discardWorktree(sessionId: string): Promise<Session> {
+    const session = this.database.getSession(sessionId)
+    if (!session?.worktree || !session.workspacePath) {
+      throw new Error('Session has no worktree')
+    }
+    const { branch, repoPath } = session.worktree
+    await this.stopSession(sessionId)
+
+    this.gitManager.removeWorktree(repoPath, session.workspacePath)
+    this.gitManager.deleteBranch(repoPath, branch, true)
+    debug('agent', 'Worktree discarded', { sessionId, branch, repoPath })
+    return this.archiveWithoutWorktree(sessionId)
+  }
+
+  private archiveWithoutWorktree(sessionId: string): Session {
+    this.database.clearSessionWorktree(sessionId)
+    this.database.archiveSession(sessionId)
+    return this.database.getSession(sessionId)!
+  }
+
+  // WHY: Deleting a session removes its worktree directory but keeps the branch —
+  // committed work stays recoverable with plain git after the session is gone
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.stopSession(sessionId)
+    const session = this.database.getSession(sessionId)
+    if (session?.worktree && session.workspacePath) {
+      try {
+        this.gitManager.removeWorktree(session.worktree.repoPath, session.workspacePath)
+      } catch (error) {
+        debug('agent', 'Worktree removal failed', { sessionId, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+    this.database.deleteSession(sessionId)
+  }
+
   async abortSession(sessionId: string): Promise<void> {
+    // Stopping a turn that hasn't started yet takes it out of the run queue
+    if (this.runQueue.some(r => r.sessionId === sessionId)) {
+      this.cancelRun(sessionId)
+      return
+    }
     const active = this.activeSessions.get(sessionId)
-    if (active?.copilotClient) {
+    if (active?.provider) {
       active.aborted = true
-      await active.copilotClient.abort()
+      this.denyPendingPermissions(sessionId)
+      // A system agent waiting for its sessions stops waiting
+      this.wakeTurnEndWaiters()
+      await active.provider.abort()
     }
   }
 
   async stopSession(sessionId: string): Promise<void> {
+    this.cancelRun(sessionId)
+    this.denyPendingPermissions(sessionId)
+    if (this.messageQueues.has(sessionId)) {
+      this.setQueue(sessionId, [])
+    }
+    this.cancelDetect(sessionId)
     const active = this.activeSessions.get(sessionId)
-    if (active?.copilotClient) {
-      await active.copilotClient.stop()
-      active.copilotClient = null
+    // Flush a turn still streaming (e.g. on quit) — startup marks it interrupted
+    if (active && this.persistTimers.has(sessionId)) {
+      this.cancelPersist(sessionId)
+      this.persistStreamingState(active)
+    }
+    if (active?.provider) {
+      await active.provider.stop()
+      active.provider = null
     }
     this.activeSessions.delete(sessionId)
+    this.wakeTurnEndWaiters()
+  }
+
+  // Write every streaming turn's progress right away — on quit, before the database
+  // closes under turns that are still being stopped
+  flushStreaming(): void {
+    for (const sessionId of Array.from(this.persistTimers.keys())) {
+      this.cancelPersist(sessionId)
+      const active = this.activeSessions.get(sessionId)
+      if (active) this.persistStreamingState(active)
+    }
   }
 
   async stopAll(): Promise<void> {
@@ -0,0 +1,97 @@
+import { CopilotClient } from './copilot-client.js'
+import { OpenAICompatibleClient } from './openai-compatible-client.js'
+import { FakeAgentProvider } from './fake-provider.js'
+import type { AgentProviderName, Attachment, Config, PermissionKind } from './types.js'
+
+export interface StreamEvent {
+  type: 'thinking' | 'tool_call' | 'tool_result' | 'text' | 'usage'
+  content?: string
+  id?: string
+  name?: string
+  arguments?: Record<string, unknown>
+  toolCallId?: string
+  result?: unknown
+  oldContent?: string
+  newContent?: string
+  usage?: ModelCallUsage
+}
+
+// Consumption of a single model call — one turn makes several when it uses tools
+export interface ModelCallUsage {
+  model: string
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  premiumRequests: number
+}
+
+// A tool call waiting for the user's approval. Fields besides kind describe the call
+// (fullCommandText, fileName, url, ...) and follow the Copilot SDK's names
+export interface ToolPermissionRequest {
+  kind: PermissionKind
+  toolCallId?: string
+  [key: string]: unknown
+}
+
+// A tool implemented by Accrew and offered to the agent next to its own. Providers
+// that can't run tools ignore these
+export interface AgentTool {
+  name: string
+  description: string
+  parameters: Record<string, unknown> // JSON Schema of the arguments
+  // Whatever it resolves to is sent to the agent as JSON; errors are reported to it too
+  handler: (args: Record<string, unknown>) => Promise<unknown>
+}
+
+export interface AgentProviderOptions {
+  workingDirectory?: string
+  model?: string
+  // Resolves to true when the tool call may proceed
+  onPermissionRequest?: (request: ToolPermissionRequest) => Promise<boolean>
+  // Provider session to resume instead of starting a fresh conversation
+  resumeSessionId?: string
+  // Extra instructions for the agent, on top of its own system prompt
+  systemMessage?: string
+  // Added to the agent's process environment, which its tools inherit
+  env?: Record<string, string>
+  // When set, the only tools the agent may use
+  availableTools?: string[]
+  tools?: AgentTool[]
+  // A one-off question (a title, a commit message, workspace matching) rather than a
+  // session's conversation — it isn't recorded as a fixture, and the fake provider
+  // answers it from the demo's canned turns
+  utility?: boolean
+}
+
+// A coding agent AgentManager can run a session on. One instance holds one
+// conversation: chat() is called once per turn and must remember earlier turns
+export interface AgentProvider {
+  // Persisted per session and passed back as resumeSessionId after a restart;
+  // null when the provider can't resume
+  readonly sessionId: string | null
+  // True when init() reattached to resumeSessionId with its prior context intact —
+  // otherwise AgentManager replays the conversation in the first prompt
+  readonly wasResumed: boolean
+  init(): Promise<void>
+  // Ends once the agent has finished the turn, including after abort()
+  chat(message: string, attachments?: Attachment[]): AsyncGenerator<StreamEvent>
+  // Stops the current turn; the conversation can continue
+  abort(): Promise<void>
+  // Releases the conversation and anything the provider started for it
+  stop(): Promise<void>
+}
+
+const PROVIDERS: Record<AgentProviderName, (options: AgentProviderOptions, config: Config) => AgentProvider> = {
+  copilot: (options, config) => new CopilotClient({ ...options, recordDir: options.utility ? undefined : config.recordFixtures }),
+  'openai-compatible': (options, config) => new OpenAICompatibleClient(options, config.openaiCompatible),
+  fake: (options, config) => new FakeAgentProvider(options, config.fakeProvider),
+}
+
+export function createAgentProvider(name: AgentProviderName, options: AgentProviderOptions, config: Config): AgentProvider {
+  const create = PROVIDERS[name]
+  if (!create) {
+    throw new Error(`Unknown agent provider "${name}" — use one of: ${Object.keys(PROVIDERS).join(', ')}`)
+  }
+  return create(options, config)
+}
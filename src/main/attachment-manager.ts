@@ -0,0 +1,82 @@
+import fs from 'fs'
+import path from 'path'
+import { app } from 'electron'
+import { v4 as uuid } from 'uuid'
+import type { Attachment } from './types.js'
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+}
+
+// WHY: Unreferenced saved files are only removed once they are this old — content is
+// saved when it's pasted, and a prompt still being written must keep its attachments
+const PRUNE_AFTER_MS = 24 * 60 * 60 * 1000
+
+export class AttachmentManager {
+  private root: string
+
+  constructor() {
+    this.root = path.join(app.getPath('userData'), 'attachments')
+  }
+
+  // Describe files and folders the user picked or dropped; paths that no longer exist are skipped
+  fromPaths(paths: string[]): Attachment[] {
+    const attachments: Attachment[] = []
+    for (const filePath of paths) {
+      let stat: fs.Stats
+      try {
+        stat = fs.statSync(filePath)
+      } catch {
+        continue
+      }
+      const name = path.basename(filePath)
+      if (stat.isDirectory()) {
+        attachments.push({ type: 'directory', path: filePath, name })
+      } else {
+        const mimeType = IMAGE_TYPES[path.extname(filePath).toLowerCase()]
+        attachments.push({ type: 'file', path: filePath, name, size: stat.size, ...(mimeType && { mimeType }) })
+      }
+    }
+    return attachments
+  }
+
+  // Write pasted or dropped content to disk — the SDK only accepts attachments by path
+  save(name: string, data: ArrayBuffer, mimeType: string): Attachment {
+    const safeName = path.basename(name).replace(/[^\w.-]+/g, '-') || 'attachment'
+    const dir = path.join(this.root, uuid())
+    fs.mkdirSync(dir, { recursive: true })
+    const filePath = path.join(dir, safeName)
+    fs.writeFileSync(filePath, Buffer.from(data))
+    return {
+      type: 'file',
+      path: filePath,
+      name: safeName,
+      size: data.byteLength,
+      ...(mimeType.startsWith('image/') && { mimeType })
+    }
+  }
+
+  // Remove saved files no message refers to anymore (their session was deleted)
+  prune(referencedPaths: Set<string>): number {
+    if (!fs.existsSync(this.root)) return 0
+    let removed = 0
+    for (const entry of fs.readdirSync(this.root)) {
+      const dir = path.join(this.root, entry)
+      try {
+        const files = fs.readdirSync(dir).map(file => path.join(dir, file))
+        const stale = Date.now() - fs.statSync(dir).mtimeMs > PRUNE_AFTER_MS
+        if (stale && !files.some(file => referencedPaths.has(file))) {
+          fs.rmSync(dir, { recursive: true, force: true })
+          removed++
+        }
+      } catch {
+        // Not a directory or already gone
+      }
+    }
+    return removed
+  }
+}
@@ -0,0 +1,131 @@
+import fs from 'fs'
+import path from 'path'
+import type { Database } from './database.js'
+import { debug } from './logger.js'
+import type { CheckpointConflict, RevertResult } from './types.js'
+
+// WHY: Files above this size are skipped — checkpoints live in SQLite, and a
+// generated bundle or dataset would bloat the database on every turn touching it
+export const MAX_CHECKPOINT_BYTES = 5 * 1024 * 1024
+
+export class CheckpointManager {
+  private database: Database
+
+  constructor(database: Database) {
+    this.database = database
+  }
+
+  /**
+   * Record a file's current content as the pre-turn state, once per turn.
+   * Must run before the tool writes — later calls for the same file are ignored.
+   */
+  capture(sessionId: string, messageId: string, filePath: string): void {
+    try {
+      const stat = fs.statSync(filePath, { throwIfNoEntry: false })
+      if (stat?.isDirectory()) return
+      if (stat && stat.size > MAX_CHECKPOINT_BYTES) {
+        debug('checkpoint', 'File too large to checkpoint', { filePath, size: stat.size })
+        return
+      }
+      const content = stat ? fs.readFileSync(filePath) : null
+      if (this.database.addCheckpointFile(sessionId, messageId, filePath, content)) {
+        debug('checkpoint', 'Captured', { messageId, filePath, existed: !!content })
+      }
+    } catch (error) {
+      debug('checkpoint', 'Capture failed', { filePath, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  /**
+   * Record known content as a file's pre-turn state, for changes found after the
+   * file was written (null: the file didn't exist). Ignored if already captured.
+   */
+  captureContent(sessionId: string, messageId: string, filePath: string, content: Buffer | null): void {
+    try {
+      if (this.database.addCheckpointFile(sessionId, messageId, filePath, content)) {
+        debug('checkpoint', 'Captured after the fact', { messageId, filePath, existed: !!content })
+      }
+    } catch (error) {
+      debug('checkpoint', 'Capture failed', { filePath, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  /**
+   * Record the state each captured file was left in once the turn ends, so a later
+   * revert can tell whether someone changed it since.
+   */
+  finalize(messageId: string): void {
+    for (const file of this.database.getCheckpointFiles(messageId)) {
+      const after = this.read(file.filePath)
+      // WHY: Captures happen when a write is requested, including ones that were denied
+      // or left the file as it was — drop those so "Revert" only lists real changes
+      if (sameContent(file.before, after)) {
+        this.database.deleteCheckpointFile(messageId, file.filePath)
+      } else {
+        this.database.setCheckpointAfter(messageId, file.filePath, after)
+      }
+    }
+  }
+
+  /**
+   * Restore every file the turn touched to its pre-turn content. Without force,
+   * nothing is written if any file changed after the turn ended.
+   */
+  revert(messageId: string, force: boolean = false): RevertResult {
+    const files = this.database.getCheckpointFiles(messageId)
+    if (files.length === 0) {
+      throw new Error('No checkpoint recorded for this turn')
+    }
+    if (files[0].revertedAt) {
+      throw new Error('This turn has already been reverted')
+    }
+
+    const conflicts: CheckpointConflict[] = []
+    for (const file of files) {
+      const current = this.read(file.filePath)
+      if (!file.afterCaptured) {
+        conflicts.push({ path: file.filePath, reason: 'unknown' })
+      } else if (sameContent(file.after, current)) {
+        continue
+      } else if (file.after === null) {
+        conflicts.push({ path: file.filePath, reason: 'created' })
+      } else if (current === null) {
+        conflicts.push({ path: file.filePath, reason: 'deleted' })
+      } else {
+        conflicts.push({ path: file.filePath, reason: 'modified' })
+      }
+    }
+
+    if (conflicts.length > 0 && !force) {
+      debug('checkpoint', 'Revert blocked by conflicts', { messageId, conflicts: conflicts.length })
+      return { reverted: false, restored: [], conflicts }
+    }
+
+    const restored: string[] = []
+    for (const file of files) {
+      if (file.before === null) {
+        fs.rmSync(file.filePath, { force: true })
+      } else {
+        fs.mkdirSync(path.dirname(file.filePath), { recursive: true })
+        fs.writeFileSync(file.filePath, file.before)
+      }
+      restored.push(file.filePath)
+    }
+    this.database.markCheckpointReverted(messageId)
+    debug('checkpoint', 'Reverted', { messageId, restored: restored.length, forced: conflicts.length > 0 })
+    return { reverted: true, restored, conflicts }
+  }
+
+  private read(filePath: string): Buffer | null {
+    try {
+      return fs.readFileSync(filePath)
+    } catch {
+      return null
+    }
+  }
+}
+
+function sameContent(a: Buffer | null, b: Buffer | null): boolean {
+  if (a === null || b === null) return a === b
+  return a.equals(b)
+}
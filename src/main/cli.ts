@@ -0,0 +1,312 @@
+import fs from 'fs'
+import readline from 'readline'
+import { v4 as uuid } from 'uuid'
+import { Database } from './database.js'
+import { AgentManager } from './agent-manager.js'
+import { WorkspaceManager } from './workspace-manager.js'
+import { ConfigManager } from './config-manager.js'
+import { GitManager } from './git-manager.js'
+import { SessionExporter, toolCallTarget } from './session-exporter.js'
+import { PromptTemplateManager } from './prompt-templates.js'
+import type { Session, ToolCall, PermissionRequest, PermissionDecision, SessionExportFormat } from './types.js'
+
+// Everything after this flag on the Electron command line belongs to the CLI
+export const CLI_FLAG = '--cli'
+
+// How often `tail --follow` re-reads the session — matches the agent's persist interval
+const FOLLOW_POLL_MS = 1000
+
+const USAGE = `Usage: accrew <command> [options]
+
+Commands:
+  send [@workspace] <prompt>   Start a session (or continue one with --session) and stream the reply
+      --session <id>           Send to an existing session instead of starting a new one
+      --worktree               Run a new session in its own git worktree and branch
+      --yes                    Approve every tool permission request without asking
+      --thinking               Also print the agent's reasoning (to stderr)
+  list                         List sessions, most recent first
+      --all                    Include archived sessions
+      --json                   Print as JSON
+  tail <session>               Print a session's conversation
+      -f, --follow             Keep printing new output until interrupted
+  export <session>             Write a session to stdout or a file
+      --format <format>        markdown, html or json (default: markdown)
+      -o, --output <file>      Write to a file instead of stdout
+
+A prompt of "-" is read from stdin. A prompt starting with /name runs that prompt template.
+Sessions can be referenced by an ID prefix.`
+
+// Returns the CLI arguments when Accrew was launched as `accrew --cli ...`, otherwise null
+export function getCliArgs(argv: string[]): string[] | null {
+  const index = argv.indexOf(CLI_FLAG)
+  return index === -1 ? null : argv.slice(index + 1)
+}
+
+interface ParsedArgs {
+  positional: string[]
+  flags: Record<string, string | true>
+}
+
+const FLAGS_WITH_VALUE = new Set(['session', 'format', 'output'])
+const SHORT_FLAGS: Record<string, string> = { f: 'follow', o: 'output' }
+
+function parseArgs(args: string[]): ParsedArgs {
+  const positional: string[] = []
+  const flags: Record<string, string | true> = {}
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    const match = arg.match(/^--([a-z-]+)(?:=(.*))?$/) || arg.match(/^-([a-z])$/)
+    if (!match) {
+      positional.push(arg)
+      continue
+    }
+    const name = SHORT_FLAGS[match[1]] || match[1]
+    if (match[2] !== undefined) {
+      flags[name] = match[2]
+    } else if (FLAGS_WITH_VALUE.has(name)) {
+      if (i + 1 >= args.length) throw new CliError(`--${name} needs a value`)
+      flags[name] = args[++i]
+    } else {
+      flags[name] = true
+    }
+  }
+  return { positional, flags }
+}
+
+// Usage mistakes — reported without a stack trace and exit with status 2
+class CliError extends Error {}
+
+export async function runCli(args: string[]): Promise<number> {
+  let parsed: ParsedArgs
+  try {
+    parsed = parseArgs(args)
+  } catch (error) {
+    return fail(error)
+  }
+  const [command, ...rest] = parsed.positional
+  if (!command || command === 'help' || parsed.flags.help) {
+    process.stdout.write(USAGE + '\n')
+    return command || parsed.flags.help ? 0 : 2
+  }
+
+  // WHY: No initLogger() — debug output goes to stdout, where it would interleave
+  // with the agent's reply that scripts are capturing
+  const configManager = new ConfigManager()
+  await configManager.init()
+  const database = new Database()
+  await database.init()
+
+  try {
+    const cli = new HeadlessCli(database, configManager, parsed.flags)
+    switch (command) {
+      case 'send':
+        return await cli.send(rest)
+      case 'list':
+        return cli.list()
+      case 'tail':
+        return await cli.tail(rest[0])
+      case 'export':
+        return cli.export(rest[0])
+      default:
+        throw new CliError(`Unknown command "${command}"\n\n${USAGE}`)
+    }
+  } catch (error) {
+    return fail(error)
+  } finally {
+    database.close()
+  }
+}
+
+function fail(error: unknown): number {
+  process.stderr.write(`accrew: ${error instanceof Error ? error.message : String(error)}\n`)
+  return error instanceof CliError ? 2 : 1
+}
+
+class HeadlessCli {
+  private database: Database
+  private configManager: ConfigManager
+  private flags: Record<string, string | true>
+  private permissionQueue: Promise<unknown> = Promise.resolve()
+
+  constructor(database: Database, configManager: ConfigManager, flags: Record<string, string | true>) {
+    this.database = database
+    this.configManager = configManager
+    this.flags = flags
+  }
+
+  async send(args: string[]): Promise<number> {
+    let prompt = args.join(' ').trim()
+    if (prompt === '-') {
+      prompt = fs.readFileSync(0, 'utf-8').trim()
+    }
+    if (!prompt) throw new CliError('send needs a prompt')
+
+    let finish!: (code: number) => void
+    const finished = new Promise<number>(resolve => { finish = resolve })
+    let sessionId = typeof this.flags.session === 'string' ? this.resolveSession(this.flags.session).id : uuid()
+
+    const config = this.configManager.get()
+    const workspaceManager = new WorkspaceManager(config.workspaceFolder, config.workspaceDepth)
+    prompt = await new PromptTemplateManager(this.database, workspaceManager)
+      .expand(prompt, typeof this.flags.session === 'string' ? { sessionId } : {})
+    let atLineStart = true
+    const write = (text: string) => {
+      if (!text) return
+      process.stdout.write(text)
+      atLineStart = text.endsWith('\n')
+    }
+
+    const agentManager: AgentManager = new AgentManager(
+      this.database,
+      workspaceManager,
+      this.configManager,
+      new GitManager(),
+      (event, data) => {
+        const payload = data as { sessionId?: string; request?: PermissionRequest }
+        const eventSessionId = payload.sessionId ?? payload.request?.sessionId
+        if (eventSessionId !== sessionId) return
+        switch (event) {
+          case 'agent:response':
+            write((data as { content: string }).content)
+            break
+          case 'agent:thinking':
+            if (this.flags.thinking) process.stderr.write((data as { content: string }).content)
+            break
+          case 'agent:tool-call':
+            if (!atLineStart) write('\n')
+            process.stderr.write(`› ${describeToolCall((data as { toolCall: ToolCall }).toolCall)}\n`)
+            break
+          case 'permission:request':
+            this.askPermission(payload.request!).then(decision => {
+              agentManager.respondToPermission(payload.request!.id, decision)
+            })
+            break
+          case 'agent:done':
+            finish(0)
+            break
+          case 'agent:error':
+            if (!atLineStart) write('\n')
+            process.stderr.write(`accrew: ${(data as { error: string }).error}\n`)
+            finish(1)
+            break
+        }
+      }
+    )
+
+    if (typeof this.flags.session === 'string') {
+      agentManager.sendMessage(sessionId, prompt).catch(error => finish(fail(error)))
+    } else {
+      const session = await agentManager.createSession(undefined, prompt, sessionId, { worktree: !!this.flags.worktree })
+      sessionId = session.id
+      process.stderr.write(`Session ${session.id.slice(0, 8)}${session.workspace ? ` in ${session.workspace}` : ''}\n`)
+    }
+
+    const code = await finished
+    if (!atLineStart) write('\n')
+    await agentManager.stopAll()
+    return code
+  }
+
+  // WHY: Without a terminal nobody can answer, so requests are denied rather than left
+  // hanging — a git hook must not block forever on a prompt it can't show
+  private askPermission(request: PermissionRequest): Promise<PermissionDecision> {
+    if (this.flags.yes) {
+      process.stderr.write(`✓ ${request.kind}: ${request.summary}\n`)
+      return Promise.resolve('allow-once')
+    }
+    if (!process.stdin.isTTY) {
+      process.stderr.write(`✗ ${request.kind}: ${request.summary} (denied — rerun with --yes to allow)\n`)
+      return Promise.resolve('deny')
+    }
+    // One question at a time — parallel tool calls would otherwise share a prompt line
+    const answer = this.permissionQueue.then(() => new Promise<PermissionDecision>(resolve => {
+      const rl = readline.createInterface({ input: process.stdin, output: process.stderr })
+      rl.question(`Allow ${request.kind}: ${request.summary}? [y]es / [s]ession / [n]o `, reply => {
+        rl.close()
+        const key = reply.trim().toLowerCase()[0]
+        resolve(key === 'y' ? 'allow-once' : key === 's' ? 'allow-session' : 'deny')
+      })
+    }))
+    this.permissionQueue = answer
+    return answer
+  }
+
+  list(): number {
+    const sessions = this.database.getSessions()
+      .filter(s => this.flags.all || s.status !== 'archived')
+    if (this.flags.json) {
+      process.stdout.write(JSON.stringify(sessions, null, 2) + '\n')
+      return 0
+    }
+    for (const session of sessions) {
+      const updated = new Date(session.updatedAt).toISOString().slice(0, 16).replace('T', ' ')
+      const workspace = (session.workspace ?? '-').padEnd(20).slice(0, 20)
+      process.stdout.write(`${session.id.slice(0, 8)}  ${updated}  ${session.status.padEnd(9)}  ${workspace}  ${session.title}\n`)
+    }
+    return 0
+  }
+
+  async tail(idOrPrefix: string | undefined): Promise<number> {
+    if (!idOrPrefix) throw new CliError('tail needs a session ID')
+    const session = this.resolveSession(idOrPrefix)
+    // What was already printed per message — a streaming message grows between reads
+    const printed = new Map<string, { toolCalls: number; chars: number }>()
+
+    const printNew = () => {
+      for (const message of this.database.getMessages(session.id)) {
+        let progress = printed.get(message.id)
+        if (!progress) {
+          const time = new Date(message.createdAt).toLocaleTimeString()
+          process.stdout.write(`\n[${message.role} ${time}]\n`)
+          progress = { toolCalls: 0, chars: 0 }
+          printed.set(message.id, progress)
+        }
+        for (const toolCall of message.toolCalls?.slice(progress.toolCalls) ?? []) {
+          process.stdout.write(`› ${describeToolCall(toolCall)}\n`)
+        }
+        process.stdout.write(message.content.slice(progress.chars))
+        progress.toolCalls = message.toolCalls?.length ?? 0
+        progress.chars = message.content.length
+      }
+    }
+
+    printNew()
+    process.stdout.write('\n')
+    if (!this.flags.follow) return 0
+
+    // Never resolves — following ends when the user interrupts
+    return new Promise<number>(() => {
+      setInterval(printNew, FOLLOW_POLL_MS)
+    })
+  }
+
+  export(idOrPrefix: string | undefined): number {
+    if (!idOrPrefix) throw new CliError('export needs a session ID')
+    const format = (typeof this.flags.format === 'string' ? this.flags.format : 'markdown') as SessionExportFormat
+    if (format !== 'markdown' && format !== 'html' && format !== 'json') {
+      throw new CliError(`Unknown format "${format}" — use markdown, html or json`)
+    }
+    const config = this.configManager.get()
+    const exporter = new SessionExporter(this.database, new WorkspaceManager(config.workspaceFolder, config.workspaceDepth))
+    const output = exporter.export(this.resolveSession(idOrPrefix).id, format)
+    if (typeof this.flags.output === 'string') {
+      fs.writeFileSync(this.flags.output, output)
+    } else {
+      process.stdout.write(output)
+    }
+    return 0
+  }
+
+  // Accept any unambiguous ID prefix, like git does for commit hashes
+  private resolveSession(idOrPrefix: string): Session {
+    const matches = this.database.getSessions().filter(s => s.id.startsWith(idOrPrefix))
+    if (matches.length === 0) throw new CliError(`No session matches "${idOrPrefix}"`)
+    if (matches.length > 1) throw new CliError(`"${idOrPrefix}" matches ${matches.length} sessions — use a longer prefix`)
+    return matches[0]
+  }
+}
+
+function describeToolCall(toolCall: ToolCall): string {
+  const target = toolCallTarget(toolCall)
+  return target ? `${toolCall.name} ${target}` : toolCall.name
+}
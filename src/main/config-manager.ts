@@ -1,7 +1,8 @@
 import fs from 'fs'
 import path from 'path'
 import os from 'os'
-import type { Config } from './types.js'
+import { debug } from './logger.js'
+import type { AgentProviderName, Config, WorkspaceConfig } from './types.js'
 
 const DEFAULT_CONFIG: Config = {
   workspaceFolder: path.join(os.homedir(), 'github'),
@@ -14,6 +15,27 @@ const DEFAULT_CONFIG: Config = {
   changesFileListHeight: 200,
   model: 'claude-opus-4-5',
   debug: false,
+  notifications: true,
+  archiveAfterDays: 2,
+  deleteAfterDays: 90,
+  provider: 'copilot',
+  // WHY: Each running turn is a Copilot CLI process of its own — a handful at once is
+  // what a laptop keeps up with
+  maxConcurrentRuns: 3,
+}
+
+const WORKSPACE_CONFIG_FILE = '.accrew.json'
+
+// Global settings with a workspace's overrides applied
+export interface WorkspaceSettings {
+  provider: AgentProviderName
+  model: string
+  promptPrefix?: string
+  env?: Record<string, string>
+  allowedTools?: string[]
+  archiveAfterDays: number
+  deleteAfterDays: number
+  maxConcurrentRuns?: number // The workspace's own limit; unset leaves only the global one
 }
 
 export class ConfigManager {
@@ -51,6 +73,32 @@ export class ConfigManager {
     return { ...this.config }
   }
 
+  // WHY: Read on every call rather than cached — a .accrew.json edited while Accrew
+  // runs applies from the next agent started in that workspace.
+  // `globals` stands in for the saved settings, e.g. to preview unsaved ones
+  forWorkspace(workspace: string | null, workspacePath: string | null, globals: Config = this.config): WorkspaceSettings {
+    const file = workspacePath ? readWorkspaceConfig(path.join(workspacePath, WORKSPACE_CONFIG_FILE)) : {}
+    const section = workspace ? parseWorkspaceConfig(globals.workspaces?.[workspace]) : {}
+    const merged = { ...file, ...section }
+    // WHY: env only comes from the user's own config.json — a .accrew.json arrives with
+    // a cloned repo, and NODE_OPTIONS, LD_PRELOAD or PATH there would run its code in
+    // the agent process before any tool permission is asked
+    const env = section.env
+    if (file.env) {
+      debug('config', 'Ignoring env from workspace config file', { workspace, keys: Object.keys(file.env).length })
+    }
+    return {
+      provider: merged.provider || globals.provider,
+      model: merged.model || globals.model,
+      ...(merged.promptPrefix && { promptPrefix: merged.promptPrefix }),
+      ...(env && { env }),
+      ...(merged.allowedTools && { allowedTools: merged.allowedTools }),
+      archiveAfterDays: merged.archiveAfterDays ?? globals.archiveAfterDays,
+      deleteAfterDays: merged.deleteAfterDays ?? globals.deleteAfterDays,
+      ...(merged.maxConcurrentRuns && { maxConcurrentRuns: merged.maxConcurrentRuns })
+    }
+  }
+
   set(updates: Partial<Config>): void {
     this.config = { ...this.config, ...updates }
     this.save()
@@ -60,3 +108,58 @@ export class ConfigManager {
     fs.writeFileSync(this.configPath, JSON.stringify(this.config, null, 2))
   }
 }
+
+function readWorkspaceConfig(filePath: string): WorkspaceConfig {
+  if (!fs.existsSync(filePath)) return {}
+  try {
+    return parseWorkspaceConfig(JSON.parse(fs.readFileSync(filePath, 'utf-8')))
+  } catch (error) {
+    debug('config', 'Ignoring unreadable workspace config', { filePath, error: error instanceof Error ? error.message : String(error) })
+    return {}
+  }
+}
+
+// WHY: Keep only well-formed keys — a .accrew.json comes with the repo, and a typo
+// there must not hand the SDK a string where it expects a list
+function parseWorkspaceConfig(raw: unknown): WorkspaceConfig {
+  if (!raw || typeof raw !== 'object') return {}
+  const value = raw as Record<string, unknown>
+  const config: WorkspaceConfig = {}
+  // Unknown names are reported when the agent starts, where the user sees the error
+  if (typeof value.provider === 'string' && value.provider.trim()) {
+    config.provider = value.provider.trim() as AgentProviderName
+  }
+  if (typeof value.model === 'string' && value.model.trim()) {
+    config.model = value.model.trim()
+  }
+  if (typeof value.promptPrefix === 'string' && value.promptPrefix.trim()) {
+    config.promptPrefix = value.promptPrefix.trim()
+  }
+  if (value.env && typeof value.env === 'object' && !Array.isArray(value.env)) {
+    config.env = Object.fromEntries(
+      Object.entries(value.env as Record<string, unknown>).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    )
+  }
+  if (Array.isArray(value.allowedTools)) {
+    config.allowedTools = value.allowedTools.filter((tool): tool is string => typeof tool === 'string')
+  }
+  if (isDays(value.archiveAfterDays)) {
+    config.archiveAfterDays = value.archiveAfterDays
+  }
+  if (isDays(value.deleteAfterDays)) {
+    config.deleteAfterDays = value.deleteAfterDays
+  }
+  if (isRunLimit(value.maxConcurrentRuns)) {
+    config.maxConcurrentRuns = value.maxConcurrentRuns
+  }
+  return config
+}
+
+export function isDays(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+// 0 is no limit
+export function isRunLimit(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
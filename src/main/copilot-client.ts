@@ -1,28 +1,19 @@
-import { CopilotClient as SDKCopilotClient, CopilotSession, approveAll, type SessionEvent } from '@github/copilot-sdk'
+import { CopilotClient as SDKCopilotClient, CopilotSession, type SessionEvent, type PermissionHandler, type SessionConfig, type Tool } from '@github/copilot-sdk'
 import { app } from 'electron'
 import { existsSync } from 'fs'
 import path from 'path'
 import { fileURLToPath } from 'url'
 import { debug } from './logger.js'
+import { FixtureRecorder } from './replay-fixture.js'
+import type { AgentProvider, AgentProviderOptions, AgentTool, StreamEvent } from './agent-provider.js'
+import type { Attachment } from './types.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 
-export interface StreamEvent {
-  type: 'thinking' | 'tool_call' | 'tool_result' | 'text'
-  content?: string
-  id?: string
-  name?: string
-  arguments?: Record<string, unknown>
-  toolCallId?: string
-  result?: unknown
-  oldContent?: string
-  newContent?: string
-}
-
-export interface CopilotClientOptions {
-  workingDirectory?: string
-  model?: string
+export interface CopilotClientOptions extends AgentProviderOptions {
+  // Folder to save the conversation to as a replay fixture for the fake provider
+  recordDir?: string
 }
 
 // WHY: The SDK spawns .js CLI paths via process.execPath (= Electron binary in
@@ -85,13 +76,26 @@ export function getCopilotCliOptions(): { cliPath?: string; env?: NodeJS.Process
   return opts
 }
 
-export class CopilotClient {
+export class CopilotClient implements AgentProvider {
   private client: SDKCopilotClient | null = null
   private session: CopilotSession | null = null
   private options: CopilotClientOptions
+  private resumed = false
+  private recorder: FixtureRecorder | null
 
   constructor(options: CopilotClientOptions = {}) {
     this.options = options
+    this.recorder = options.recordDir ? new FixtureRecorder(options.recordDir, options.workingDirectory) : null
+  }
+
+  // SDK session ID — persist it to resume the conversation after a restart
+  get sessionId(): string | null {
+    return this.session?.sessionId ?? null
+  }
+
+  // True when init() reattached to resumeSessionId with its prior context intact
+  get wasResumed(): boolean {
+    return this.resumed
   }
 
   async init(): Promise<void> {
@@ -100,6 +104,7 @@ export class CopilotClient {
     this.client = new SDKCopilotClient({
       cwd: this.options.workingDirectory,
       ...cliOpts,
+      ...(this.options.env && { env: { ...(cliOpts.env ?? process.env), ...this.options.env } }),
     })
     
     // WHY: SDK's createSession → start() → verifyProtocolVersion() has no timeout.
@@ -115,28 +120,55 @@ export class CopilotClient {
     })
     
     this.session = await Promise.race([
-      this.client.createSession({
+      this.openSession({
         model: this.options.model || 'claude-opus-4-5',
-        onPermissionRequest: approveAll,
+        onPermissionRequest: this.createPermissionHandler(),
+        ...(this.options.systemMessage && { systemMessage: { mode: 'append', content: this.options.systemMessage } }),
+        ...(this.options.availableTools && { availableTools: this.options.availableTools }),
+        ...(this.options.tools && { tools: this.options.tools.map(toSdkTool) }),
       }),
       timeout
     ])
-    debug('copilot', 'Session created successfully')
+    debug('copilot', 'Session created successfully', { sessionId: this.session.sessionId, resumed: this.resumed })
   }
 
-  async *chat(message: string): AsyncGenerator<StreamEvent> {
+  // WHY: Resume can fail when the CLI has pruned its session state or the session
+  // was recorded by a different CLI install — fall back to a fresh session and let
+  // the caller detect it via wasResumed to replay history as seed context.
+  private async openSession(config: SessionConfig): Promise<CopilotSession> {
+    const client = this.client!
+    if (this.options.resumeSessionId) {
+      try {
+        const session = await client.resumeSession(this.options.resumeSessionId, config)
+        this.resumed = true
+        return session
+      } catch (error) {
+        debug('copilot', 'Resume failed, starting new session', {
+          resumeSessionId: this.options.resumeSessionId,
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }
+    }
+    this.resumed = false
+    return client.createSession(config)
+  }
+
+  async *chat(message: string, attachments: Attachment[] = []): AsyncGenerator<StreamEvent> {
     if (!this.session) {
       throw new Error('CopilotClient not initialized')
     }
-    debug('copilot', 'Sending chat message', { length: message.length })
+    debug('copilot', 'Sending chat message', { length: message.length, attachments: attachments.length })
 
     const events: StreamEvent[] = []
     let resolve: (() => void) | null = null
     let done = false
 
+    this.recorder?.startTurn(message)
     const unsubscribe = this.session.on((event: SessionEvent) => {
       const normalized = this.normalizeEvent(event)
       if (normalized) {
+        // Recorded as it arrives rather than as it's consumed, to keep the SDK's timing
+        this.recorder?.recordEvent(normalized)
         events.push(normalized)
         resolve?.()
       }
@@ -148,7 +180,12 @@ export class CopilotClient {
     })
 
     // Send message (non-blocking)
-    this.session.send({ prompt: message })
+    this.session.send({
+      prompt: message,
+      ...(attachments.length > 0 && {
+        attachments: attachments.map(a => ({ type: a.type, path: a.path, displayName: a.name }))
+      })
+    })
 
     try {
       while (!done) {
@@ -165,6 +202,7 @@ export class CopilotClient {
       }
     } finally {
       unsubscribe()
+      this.recorder?.endTurn()
     }
   }
 
@@ -187,6 +225,22 @@ export class CopilotClient {
     }
   }
 
+  // WHY: Without a handler, tool calls are denied rather than approved — utility
+  // clients (title generation, workspace matching) only need text, and an agent
+  // that can run shell commands or write files must always ask the user first.
+  private createPermissionHandler(): PermissionHandler {
+    const onPermissionRequest = this.options.onPermissionRequest
+    return async (request) => {
+      this.recorder?.recordPermission(request)
+      if (!onPermissionRequest) {
+        debug('copilot', 'Permission denied (no handler)', { kind: request.kind })
+        return { kind: 'denied-no-approval-rule-and-could-not-request-from-user' }
+      }
+      const approved = await onPermissionRequest(request)
+      return { kind: approved ? 'approved' : 'denied-interactively-by-user' }
+    }
+  }
+
   private normalizeEvent(event: SessionEvent): StreamEvent | null {
     // Thinking/reasoning
     if (event.type === 'assistant.reasoning_delta') {
@@ -208,6 +262,21 @@ export class CopilotClient {
       return null
     }
 
+    // Usage - reported after each model call, including calls made by subagents
+    if (event.type === 'assistant.usage') {
+      return {
+        type: 'usage',
+        usage: {
+          model: event.data.model,
+          inputTokens: event.data.inputTokens ?? 0,
+          outputTokens: event.data.outputTokens ?? 0,
+          cacheReadTokens: event.data.cacheReadTokens ?? 0,
+          cacheWriteTokens: event.data.cacheWriteTokens ?? 0,
+          premiumRequests: event.data.cost ?? 0,
+        }
+      }
+    }
+
     // Tool execution
     if (event.type === 'tool.execution_start') {
       return {
@@ -228,3 +297,22 @@ export class CopilotClient {
     return null
   }
 }
+
+// WHY: The SDK tells the model only that a tool failed when its handler throws — the
+// message is passed on instead, so the agent can correct the call (e.g. a misspelled workspace)
+function toSdkTool(tool: AgentTool): Tool<Record<string, unknown>> {
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+    handler: async (args) => {
+      try {
+        return await tool.handler(args ?? {})
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        debug('copilot', 'Tool failed', { tool: tool.name, error: message })
+        return { textResultForLlm: message, resultType: 'failure', error: message, toolTelemetry: {} }
+      }
+    }
+  }
+}
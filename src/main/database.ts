@@ -1,7 +1,9 @@
 import BetterSqlite3 from 'better-sqlite3'
 import path from 'path'
 import { app } from 'electron'
-import type { Session, Message, FileChange, ToolCall } from './types.js'
+import type { Session, Message, MessageEdit, Attachment, FileChange, ToolCall, PermissionRule, SearchResult, TurnCheckpoint, MessageUsage, TokenUsage, UsageSummary, ScheduledJob } from './types.js'
+import type { ModelCallUsage } from './agent-provider.js'
+import { SEARCH_MATCH_START, SEARCH_MATCH_END } from './types.js'
 
 export class Database {
   private db!: BetterSqlite3.Database
@@ -11,6 +13,7 @@ export class Database {
     this.db = new BetterSqlite3(dbPath)
     this.db.pragma('journal_mode = WAL')
     this.createTables()
+    this.migrate()
   }
 
   private createTables() {
@@ -51,17 +54,153 @@ export class Database {
         FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
       );
 
+      -- before_content/after_content are NULL when the file did not exist
+      CREATE TABLE IF NOT EXISTS file_checkpoints (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        message_id TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        before_content BLOB,
+        after_content BLOB,
+        after_captured INTEGER DEFAULT 0,
+        reverted_at INTEGER,
+        created_at INTEGER NOT NULL,
+        UNIQUE (message_id, file_path),
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+        FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+      );
+
+      -- WHY: No foreign keys and a copied workspace name — usage history must outlive
+      -- the sessions it came from, which are archived and deleted automatically
+      CREATE TABLE IF NOT EXISTS message_usage (
+        message_id TEXT NOT NULL,
+        model TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        workspace TEXT,
+        input_tokens INTEGER DEFAULT 0,
+        output_tokens INTEGER DEFAULT 0,
+        cache_read_tokens INTEGER DEFAULT 0,
+        cache_write_tokens INTEGER DEFAULT 0,
+        premium_requests REAL DEFAULT 0,
+        calls INTEGER DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (message_id, model)
+      );
+
+      -- WHY: No foreign key to messages — an edited prompt is deleted and written again
+      -- under the same ID, and its earlier versions must survive that
+      CREATE TABLE IF NOT EXISTS message_edits (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        message_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS permission_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        workspace TEXT,
+        kind TEXT NOT NULL,
+        pattern TEXT NOT NULL,
+        action TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      -- WHY: last_session_id has no foreign key — the job must survive its sessions
+      -- being archived and deleted
+      CREATE TABLE IF NOT EXISTS scheduled_jobs (
+        id TEXT PRIMARY KEY,
+        prompt TEXT NOT NULL,
+        schedule TEXT NOT NULL,
+        schedule_text TEXT NOT NULL,
+        worktree INTEGER DEFAULT 0,
+        enabled INTEGER DEFAULT 1,
+        next_run_at INTEGER,
+        last_run_at INTEGER,
+        last_session_id TEXT,
+        last_error TEXT,
+        created_at INTEGER NOT NULL
+      );
+
       CREATE INDEX IF NOT EXISTS idx_messages_session ON messages(session_id);
       CREATE INDEX IF NOT EXISTS idx_file_snapshots_session ON file_snapshots(session_id);
       CREATE INDEX IF NOT EXISTS idx_file_snapshots_message ON file_snapshots(message_id);
+      CREATE INDEX IF NOT EXISTS idx_file_checkpoints_session ON file_checkpoints(session_id);
+      CREATE INDEX IF NOT EXISTS idx_message_edits_session ON message_edits(session_id);
+      CREATE INDEX IF NOT EXISTS idx_message_usage_session ON message_usage(session_id);
+      CREATE INDEX IF NOT EXISTS idx_message_usage_created ON message_usage(created_at);
+    `)
+  }
+
+  // WHY: CREATE TABLE IF NOT EXISTS never alters existing tables — columns added
+  // after the first release must be added explicitly or older databases break
+  private migrate() {
+    this.addColumnIfMissing('sessions', 'sdk_session_id', 'TEXT')
+    this.addColumnIfMissing('sessions', 'worktree_branch', 'TEXT')
+    this.addColumnIfMissing('sessions', 'worktree_repo_path', 'TEXT')
+    this.addColumnIfMissing('sessions', 'linked_workspaces', 'TEXT')
+    this.addColumnIfMissing('sessions', 'forked_from', 'TEXT')
+    this.addColumnIfMissing('sessions', 'pinned', 'INTEGER DEFAULT 0')
+    this.addColumnIfMissing('sessions', 'parent_session_id', 'TEXT')
+    this.addColumnIfMissing('file_snapshots', 'old_path', 'TEXT')
+    this.addColumnIfMissing('messages', 'status', 'TEXT')
+    this.addColumnIfMissing('messages', 'attachments', 'TEXT')
+    this.createSearchIndex()
+  }
+
+  // WHY: FTS5 index is kept in sync by triggers rather than in addMessage/updateMessage —
+  // assistant messages are written in several steps (placeholder, then final content),
+  // and triggers guarantee the index follows every write path including deletes.
+  // Tool-call arguments are flattened from the tool_calls JSON with json_each.
+  private createSearchIndex() {
+    const exists = this.db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'messages_fts'").get()
+    const toolArgs = (alias: string) =>
+      `COALESCE((SELECT group_concat(json_extract(value, '$.arguments'), ' ') FROM json_each(${alias}.tool_calls)), '')`
+
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+        content, thinking, tool_args,
+        tokenize = 'porter unicode61'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+        INSERT INTO messages_fts (rowid, content, thinking, tool_args)
+        VALUES (new.rowid, new.content, COALESCE(new.thinking, ''), ${toolArgs('new')});
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+        DELETE FROM messages_fts WHERE rowid = old.rowid;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE ON messages BEGIN
+        DELETE FROM messages_fts WHERE rowid = old.rowid;
+        INSERT INTO messages_fts (rowid, content, thinking, tool_args)
+        VALUES (new.rowid, new.content, COALESCE(new.thinking, ''), ${toolArgs('new')});
+      END;
     `)
+
+    // Backfill messages written before the index existed
+    if (!exists) {
+      this.db.exec(`
+        INSERT INTO messages_fts (rowid, content, thinking, tool_args)
+        SELECT m.rowid, m.content, COALESCE(m.thinking, ''), ${toolArgs('m')} FROM messages m
+      `)
+    }
+  }
+
+  private addColumnIfMissing(table: string, column: string, definition: string) {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]
+    if (!columns.some(c => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+    }
   }
 
   // Session operations
   createSession(session: Session): Session {
     const stmt = this.db.prepare(`
-      INSERT INTO sessions (id, title, workspace, workspace_path, logo, created_at, updated_at, has_unread, status)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO sessions (id, title, workspace, workspace_path, logo, created_at, updated_at, has_unread, status, worktree_branch, worktree_repo_path, linked_workspaces, forked_from, parent_session_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `)
     stmt.run(
       session.id,
@@ -72,7 +211,12 @@ export class Database {
       session.createdAt,
       session.updatedAt,
       session.hasUnread ? 1 : 0,
-      session.status
+      session.status,
+      session.worktree?.branch || null,
+      session.worktree?.repoPath || null,
+      session.linkedWorkspaces?.length ? JSON.stringify(session.linkedWorkspaces) : null,
+      session.forkedFrom ?? null,
+      session.parentSessionId ?? null
     )
     return session
   }
@@ -109,6 +253,10 @@ export class Database {
       fields.push('logo = ?')
       values.push(updates.logo)
     }
+    if (updates.linkedWorkspaces !== undefined) {
+      fields.push('linked_workspaces = ?')
+      values.push(updates.linkedWorkspaces.length ? JSON.stringify(updates.linkedWorkspaces) : null)
+    }
 
     fields.push('updated_at = ?')
     values.push(Date.now())
@@ -118,11 +266,37 @@ export class Database {
     stmt.run(...values)
   }
 
+  getSdkSessionId(id: string): string | null {
+    const row = this.db.prepare('SELECT sdk_session_id FROM sessions WHERE id = ?').get(id) as { sdk_session_id: string | null } | undefined
+    return row?.sdk_session_id ?? null
+  }
+
+  setSdkSessionId(id: string, sdkSessionId: string | null): void {
+    const stmt = this.db.prepare('UPDATE sessions SET sdk_session_id = ? WHERE id = ?')
+    stmt.run(sdkSessionId, id)
+  }
+
   deleteSession(id: string): void {
     const stmt = this.db.prepare('DELETE FROM sessions WHERE id = ?')
     stmt.run(id)
   }
 
+  // Point the session back at the main working tree once its worktree is gone
+  clearSessionWorktree(id: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE sessions SET workspace_path = worktree_repo_path, worktree_branch = NULL, worktree_repo_path = NULL
+      WHERE id = ? AND worktree_repo_path IS NOT NULL
+    `)
+    stmt.run(id)
+  }
+
+  // WHY: Leaves updated_at alone — pinning is not activity, so it neither reorders
+  // the list nor restarts the idle time the retention rules count
+  setSessionPinned(id: string, pinned: boolean): void {
+    const stmt = this.db.prepare('UPDATE sessions SET pinned = ? WHERE id = ?')
+    stmt.run(pinned ? 1 : 0, id)
+  }
+
   markSessionRead(id: string): void {
     const stmt = this.db.prepare('UPDATE sessions SET has_unread = 0 WHERE id = ?')
     stmt.run(id)
@@ -137,8 +311,8 @@ export class Database {
   // Message operations
   addMessage(message: Message): Message {
     const stmt = this.db.prepare(`
-      INSERT INTO messages (id, session_id, role, content, thinking, tool_calls, file_changes, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO messages (id, session_id, role, content, thinking, tool_calls, file_changes, status, attachments, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `)
     stmt.run(
       message.id,
@@ -148,6 +322,8 @@ export class Database {
       message.thinking || null,
       message.toolCalls ? JSON.stringify(message.toolCalls) : null,
       message.fileChanges ? JSON.stringify(message.fileChanges) : null,
+      message.status || null,
+      message.attachments?.length ? JSON.stringify(message.attachments) : null,
       message.createdAt
     )
     return message
@@ -173,25 +349,124 @@ export class Database {
       fields.push('file_changes = ?')
       values.push(JSON.stringify(updates.fileChanges))
     }
+    // WHY: Checked by key, not value — finishing a turn clears the status by passing
+    // `status: undefined`, which the checks above would read as "leave unchanged"
+    if ('status' in updates) {
+      fields.push('status = ?')
+      values.push(updates.status || null)
+    }
 
     values.push(id)
     const stmt = this.db.prepare(`UPDATE messages SET ${fields.join(', ')} WHERE id = ?`)
     stmt.run(...values)
   }
 
+  // Remove messages along with their diffs and checkpoints; usage stays for the totals
+  deleteMessages(messageIds: string[]): void {
+    const deleteSnapshots = this.db.prepare('DELETE FROM file_snapshots WHERE message_id = ?')
+    const deleteCheckpoints = this.db.prepare('DELETE FROM file_checkpoints WHERE message_id = ?')
+    const deleteMessage = this.db.prepare('DELETE FROM messages WHERE id = ?')
+    this.db.transaction(() => {
+      for (const id of messageIds) {
+        deleteSnapshots.run(id)
+        deleteCheckpoints.run(id)
+        deleteMessage.run(id)
+      }
+    })()
+  }
+
+  // Keep the version of a prompt that is about to be replaced
+  addMessageEdit(sessionId: string, messageId: string, previousContent: string): void {
+    this.db.prepare(`
+      INSERT INTO message_edits (session_id, message_id, content, created_at) VALUES (?, ?, ?, ?)
+    `).run(sessionId, messageId, previousContent, Date.now())
+  }
+
+  // Turns still marked as streaming at startup were cut off by a crash or force-quit
+  markInterruptedMessages(): number {
+    const stmt = this.db.prepare(`UPDATE messages SET status = 'interrupted' WHERE status = 'streaming'`)
+    return stmt.run().changes
+  }
+
   getMessages(sessionId: string): Message[] {
     const stmt = this.db.prepare('SELECT * FROM messages WHERE session_id = ? ORDER BY created_at ASC')
     const rows = stmt.all(sessionId) as MessageRow[]
-    return rows.map(row => this.rowToMessage(row))
+    const checkpoints = this.getSessionCheckpoints(sessionId)
+    const usage = this.getSessionUsage(sessionId)
+    const edits = this.getSessionEdits(sessionId)
+    return rows.map(row => {
+      const message = this.rowToMessage(row)
+      const checkpoint = checkpoints.get(row.id)
+      const messageUsage = usage.get(row.id)
+      const messageEdits = edits.get(row.id)
+      return {
+        ...message,
+        ...(checkpoint && { checkpoint }),
+        ...(messageUsage && { usage: messageUsage }),
+        ...(messageEdits && { edits: messageEdits })
+      }
+    })
+  }
+
+  private getSessionEdits(sessionId: string): Map<string, MessageEdit[]> {
+    const rows = this.db.prepare(`
+      SELECT message_id, content, created_at FROM message_edits WHERE session_id = ? ORDER BY id
+    `).all(sessionId) as { message_id: string; content: string; created_at: number }[]
+    const edits = new Map<string, MessageEdit[]>()
+    for (const row of rows) {
+      edits.set(row.message_id, [...(edits.get(row.message_id) ?? []), { content: row.content, editedAt: row.created_at }])
+    }
+    return edits
+  }
+
+  // Every attachment path any message still refers to
+  getAttachmentPaths(): Set<string> {
+    const rows = this.db.prepare('SELECT attachments FROM messages WHERE attachments IS NOT NULL').all() as { attachments: string }[]
+    const paths = new Set<string>()
+    for (const row of rows) {
+      for (const attachment of JSON.parse(row.attachments) as Attachment[]) {
+        paths.add(attachment.path)
+      }
+    }
+    return paths
+  }
+
+  // WHY: Each whitespace-separated term becomes a quoted prefix query — raw user input
+  // like "webpack.config" or "C++" is invalid FTS5 syntax and would throw
+  searchMessages(query: string, limit: number = 50): SearchResult[] {
+    const terms = query.trim().split(/\s+/).filter(Boolean)
+    if (terms.length === 0) return []
+    const match = terms.map(t => `"${t.replace(/"/g, '""')}"*`).join(' ')
+
+    const stmt = this.db.prepare(`
+      SELECT m.id AS message_id, m.session_id, m.role, m.created_at, s.title, s.workspace,
+        snippet(messages_fts, -1, ?, ?, '…', 16) AS snippet
+      FROM messages_fts
+      JOIN messages m ON m.rowid = messages_fts.rowid
+      JOIN sessions s ON s.id = m.session_id
+      WHERE messages_fts MATCH ?
+      ORDER BY rank
+      LIMIT ?
+    `)
+    const rows = stmt.all(SEARCH_MATCH_START, SEARCH_MATCH_END, match, limit) as SearchRow[]
+    return rows.map(row => ({
+      messageId: row.message_id,
+      sessionId: row.session_id,
+      sessionTitle: row.title,
+      workspace: row.workspace,
+      role: row.role as Message['role'],
+      snippet: row.snippet,
+      createdAt: row.created_at
+    }))
   }
 
   // File snapshot operations
   saveFileSnapshot(sessionId: string, messageId: string, change: FileChange): void {
     const stmt = this.db.prepare(`
-      INSERT INTO file_snapshots (session_id, message_id, file_path, old_content, new_content, change_type)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO file_snapshots (session_id, message_id, file_path, old_path, old_content, new_content, change_type)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `)
-    stmt.run(sessionId, messageId, change.path, change.oldContent || null, change.newContent || null, change.type)
+    stmt.run(sessionId, messageId, change.path, change.oldPath ?? null, change.oldContent || null, change.newContent || null, change.type)
   }
 
   getFileDiff(sessionId: string, messageId: string, filePath: string): { oldContent: string; newContent: string } | null {
@@ -207,28 +482,256 @@ export class Database {
     }
   }
 
-  // Archive operations
-  archiveOldSessions(daysOld: number): number {
-    const cutoff = Date.now() - (daysOld * 24 * 60 * 60 * 1000)
+  getFileSnapshots(sessionId: string): FileSnapshot[] {
     const stmt = this.db.prepare(`
-      UPDATE sessions 
-      SET status = 'archived', updated_at = ? 
-      WHERE status IN ('active', 'completed') AND updated_at < ?
+      SELECT message_id, file_path, old_path, old_content, new_content, change_type FROM file_snapshots
+      WHERE session_id = ? ORDER BY id ASC
     `)
-    const result = stmt.run(Date.now(), cutoff)
-    return result.changes
+    const rows = stmt.all(sessionId) as FileSnapshotRow[]
+    return rows.map(row => ({
+      messageId: row.message_id,
+      path: row.file_path,
+      type: row.change_type as FileChange['type'],
+      ...(row.old_path && { oldPath: row.old_path }),
+      oldContent: row.old_content ?? undefined,
+      newContent: row.new_content ?? undefined
+    }))
+  }
+
+  // Writes a whole session in one transaction so a bad import leaves nothing half-written
+  importSession(session: Session, messages: Message[], snapshots: FileSnapshot[]): void {
+    this.db.transaction(() => {
+      this.createSession(session)
+      for (const message of messages) {
+        this.addMessage(message)
+      }
+      for (const snapshot of snapshots) {
+        this.saveFileSnapshot(session.id, snapshot.messageId, snapshot)
+      }
+    })()
   }
 
-  deleteArchivedSessions(daysOld: number): number {
-    const cutoff = Date.now() - (daysOld * 24 * 60 * 60 * 1000)
+  // File checkpoint operations
+  // WHY: INSERT OR IGNORE keeps the first capture — a file touched several times in
+  // one turn must revert to its content from before the turn, not before the last edit
+  addCheckpointFile(sessionId: string, messageId: string, filePath: string, content: Buffer | null): boolean {
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO file_checkpoints (session_id, message_id, file_path, before_content, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(sessionId, messageId, filePath, content, Date.now())
+    return result.changes > 0
+  }
+
+  setCheckpointAfter(messageId: string, filePath: string, content: Buffer | null): void {
     const stmt = this.db.prepare(`
-      DELETE FROM sessions 
-      WHERE status = 'archived' AND updated_at < ?
+      UPDATE file_checkpoints SET after_content = ?, after_captured = 1
+      WHERE message_id = ? AND file_path = ?
     `)
-    const result = stmt.run(cutoff)
-    return result.changes
+    stmt.run(content, messageId, filePath)
   }
 
+  deleteCheckpointFile(messageId: string, filePath: string): void {
+    const stmt = this.db.prepare('DELETE FROM file_checkpoints WHERE message_id = ? AND file_path = ?')
+    stmt.run(messageId, filePath)
+  }
+
+  getCheckpointFiles(messageId: string): CheckpointFile[] {
+    const stmt = this.db.prepare('SELECT * FROM file_checkpoints WHERE message_id = ? ORDER BY id')
+    const rows = stmt.all(messageId) as CheckpointRow[]
+    return rows.map(row => ({
+      sessionId: row.session_id,
+      filePath: row.file_path,
+      before: row.before_content,
+      after: row.after_content,
+      afterCaptured: row.after_captured === 1,
+      revertedAt: row.reverted_at
+    }))
+  }
+
+  markCheckpointReverted(messageId: string): void {
+    const stmt = this.db.prepare('UPDATE file_checkpoints SET reverted_at = ? WHERE message_id = ?')
+    stmt.run(Date.now(), messageId)
+  }
+
+  private getSessionCheckpoints(sessionId: string): Map<string, TurnCheckpoint> {
+    const rows = this.db.prepare(`
+      SELECT message_id, file_path, reverted_at FROM file_checkpoints
+      WHERE session_id = ? ORDER BY id
+    `).all(sessionId) as { message_id: string; file_path: string; reverted_at: number | null }[]
+    const checkpoints = new Map<string, TurnCheckpoint>()
+    for (const row of rows) {
+      const checkpoint = checkpoints.get(row.message_id) || { files: [], revertedAt: row.reverted_at }
+      checkpoint.files.push(row.file_path)
+      checkpoints.set(row.message_id, checkpoint)
+    }
+    return checkpoints
+  }
+
+  // Usage operations
+  addUsage(sessionId: string, messageId: string, workspace: string | null, usage: ModelCallUsage): void {
+    this.db.prepare(`
+      INSERT INTO message_usage (message_id, model, session_id, workspace, input_tokens, output_tokens,
+        cache_read_tokens, cache_write_tokens, premium_requests, calls, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?)
+      ON CONFLICT (message_id, model) DO UPDATE SET
+        input_tokens = input_tokens + excluded.input_tokens,
+        output_tokens = output_tokens + excluded.output_tokens,
+        cache_read_tokens = cache_read_tokens + excluded.cache_read_tokens,
+        cache_write_tokens = cache_write_tokens + excluded.cache_write_tokens,
+        premium_requests = premium_requests + excluded.premium_requests,
+        calls = calls + 1
+    `).run(
+      messageId, usage.model, sessionId, workspace, usage.inputTokens, usage.outputTokens,
+      usage.cacheReadTokens, usage.cacheWriteTokens, usage.premiumRequests, Date.now()
+    )
+  }
+
+  // Totals for the last `days` days (all time when omitted), bucketed by local date
+  getUsageSummary(days?: number): UsageSummary {
+    const since = days ? Date.now() - days * 24 * 60 * 60 * 1000 : 0
+    const sums = `
+      SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens,
+      SUM(cache_read_tokens) AS cache_read_tokens, SUM(cache_write_tokens) AS cache_write_tokens,
+      SUM(premium_requests) AS premium_requests, SUM(calls) AS calls
+    `
+    const bucketBy = (keyExpr: string, order: string) => (this.db.prepare(`
+      SELECT ${keyExpr} AS key, ${sums} FROM message_usage
+      WHERE created_at >= ? GROUP BY key ORDER BY ${order}
+    `).all(since) as UsageRow[]).map(row => ({ key: row.key ?? '', ...rowToTokenUsage(row) }))
+
+    const total = this.db.prepare(`SELECT ${sums} FROM message_usage WHERE created_at >= ?`).get(since) as UsageRow
+    return {
+      total: rowToTokenUsage(total),
+      byWorkspace: bucketBy("COALESCE(workspace, '')", 'premium_requests DESC, output_tokens DESC'),
+      byModel: bucketBy('model', 'premium_requests DESC, output_tokens DESC'),
+      byDay: bucketBy("date(created_at / 1000, 'unixepoch', 'localtime')", 'key ASC'),
+    }
+  }
+
+  private getSessionUsage(sessionId: string): Map<string, MessageUsage> {
+    const rows = this.db.prepare(`
+      SELECT message_id AS key, model, input_tokens, output_tokens, cache_read_tokens,
+        cache_write_tokens, premium_requests, calls
+      FROM message_usage WHERE session_id = ? ORDER BY rowid
+    `).all(sessionId) as (UsageRow & { model: string })[]
+    const usage = new Map<string, MessageUsage>()
+    for (const row of rows) {
+      const current = usage.get(row.key!) || { ...rowToTokenUsage(null), models: [] }
+      const add = rowToTokenUsage(row)
+      usage.set(row.key!, {
+        inputTokens: current.inputTokens + add.inputTokens,
+        outputTokens: current.outputTokens + add.outputTokens,
+        cacheReadTokens: current.cacheReadTokens + add.cacheReadTokens,
+        cacheWriteTokens: current.cacheWriteTokens + add.cacheWriteTokens,
+        premiumRequests: current.premiumRequests + add.premiumRequests,
+        calls: current.calls + add.calls,
+        models: [...current.models, row.model]
+      })
+    }
+    return usage
+  }
+
+  // Permission rule operations
+  addPermissionRule(rule: Omit<PermissionRule, 'id' | 'createdAt'>): PermissionRule {
+    // WHY: Replace any existing rule for the same target — flipping "always deny" to
+    // "always allow" must not leave both rules behind with deny silently winning
+    this.db.prepare('DELETE FROM permission_rules WHERE workspace IS ? AND kind = ? AND pattern = ?')
+      .run(rule.workspace, rule.kind, rule.pattern)
+    const createdAt = Date.now()
+    const result = this.db.prepare(`
+      INSERT INTO permission_rules (workspace, kind, pattern, action, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(rule.workspace, rule.kind, rule.pattern, rule.action, createdAt)
+    return { ...rule, id: Number(result.lastInsertRowid), createdAt }
+  }
+
+  getPermissionRules(workspace?: string | null): PermissionRule[] {
+    const rows = (workspace === undefined
+      ? this.db.prepare('SELECT * FROM permission_rules ORDER BY workspace, kind, pattern').all()
+      : this.db.prepare('SELECT * FROM permission_rules WHERE workspace IS ? ORDER BY kind, pattern').all(workspace)
+    ) as PermissionRuleRow[]
+    return rows.map(row => ({
+      id: row.id,
+      workspace: row.workspace,
+      kind: row.kind as PermissionRule['kind'],
+      pattern: row.pattern,
+      action: row.action as PermissionRule['action'],
+      createdAt: row.created_at
+    }))
+  }
+
+  deletePermissionRule(id: number): void {
+    const stmt = this.db.prepare('DELETE FROM permission_rules WHERE id = ?')
+    stmt.run(id)
+  }
+
+  // Scheduled job operations
+  addScheduledJob(job: ScheduledJob): ScheduledJob {
+    const stmt = this.db.prepare(`
+      INSERT INTO scheduled_jobs (id, prompt, schedule, schedule_text, worktree, enabled, next_run_at, last_run_at, last_session_id, last_error, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    stmt.run(
+      job.id,
+      job.prompt,
+      JSON.stringify(job.schedule),
+      job.scheduleText,
+      job.worktree ? 1 : 0,
+      job.enabled ? 1 : 0,
+      job.nextRunAt,
+      job.lastRunAt,
+      job.lastSessionId,
+      job.lastError,
+      job.createdAt
+    )
+    return job
+  }
+
+  getScheduledJobs(): ScheduledJob[] {
+    const rows = this.db.prepare('SELECT * FROM scheduled_jobs ORDER BY created_at').all() as ScheduledJobRow[]
+    return rows.map(row => this.rowToScheduledJob(row))
+  }
+
+  getScheduledJob(id: string): ScheduledJob | null {
+    const row = this.db.prepare('SELECT * FROM scheduled_jobs WHERE id = ?').get(id) as ScheduledJobRow | undefined
+    return row ? this.rowToScheduledJob(row) : null
+  }
+
+  updateScheduledJob(id: string, updates: Partial<Pick<ScheduledJob, 'enabled' | 'nextRunAt' | 'lastRunAt' | 'lastSessionId' | 'lastError'>>): void {
+    const fields: string[] = []
+    const values: unknown[] = []
+
+    if (updates.enabled !== undefined) {
+      fields.push('enabled = ?')
+      values.push(updates.enabled ? 1 : 0)
+    }
+    if (updates.nextRunAt !== undefined) {
+      fields.push('next_run_at = ?')
+      values.push(updates.nextRunAt)
+    }
+    if (updates.lastRunAt !== undefined) {
+      fields.push('last_run_at = ?')
+      values.push(updates.lastRunAt)
+    }
+    if (updates.lastSessionId !== undefined) {
+      fields.push('last_session_id = ?')
+      values.push(updates.lastSessionId)
+    }
+    if (updates.lastError !== undefined) {
+      fields.push('last_error = ?')
+      values.push(updates.lastError)
+    }
+    if (fields.length === 0) return
+
+    values.push(id)
+    this.db.prepare(`UPDATE scheduled_jobs SET ${fields.join(', ')} WHERE id = ?`).run(...values)
+  }
+
+  deleteScheduledJob(id: string): void {
+    this.db.prepare('DELETE FROM scheduled_jobs WHERE id = ?').run(id)
+  }
+
+  // Archive operations
   archiveSession(id: string): void {
     const stmt = this.db.prepare('UPDATE sessions SET status = ?, updated_at = ? WHERE id = ?')
     stmt.run('archived', Date.now(), id)
@@ -253,7 +756,30 @@ export class Database {
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       hasUnread: row.has_unread === 1,
-      status: row.status as Session['status']
+      status: row.status as Session['status'],
+      ...(row.worktree_branch && row.worktree_repo_path
+        ? { worktree: { branch: row.worktree_branch, repoPath: row.worktree_repo_path } }
+        : {}),
+      ...(row.linked_workspaces ? { linkedWorkspaces: JSON.parse(row.linked_workspaces) } : {}),
+      ...(row.forked_from ? { forkedFrom: row.forked_from } : {}),
+      ...(row.parent_session_id ? { parentSessionId: row.parent_session_id } : {}),
+      ...(row.pinned === 1 ? { pinned: true } : {})
+    }
+  }
+
+  private rowToScheduledJob(row: ScheduledJobRow): ScheduledJob {
+    return {
+      id: row.id,
+      prompt: row.prompt,
+      schedule: JSON.parse(row.schedule),
+      scheduleText: row.schedule_text,
+      worktree: row.worktree === 1,
+      enabled: row.enabled === 1,
+      nextRunAt: row.next_run_at,
+      lastRunAt: row.last_run_at,
+      lastSessionId: row.last_session_id,
+      lastError: row.last_error,
+      createdAt: row.created_at
     }
   }
 
@@ -266,11 +792,39 @@ export class Database {
       thinking: row.thinking || undefined,
       toolCalls: row.tool_calls ? JSON.parse(row.tool_calls) : undefined,
       fileChanges: row.file_changes ? JSON.parse(row.file_changes) : undefined,
+      status: (row.status as Message['status']) || undefined,
+      attachments: row.attachments ? JSON.parse(row.attachments) : undefined,
       createdAt: row.created_at
     }
   }
 }
 
+// SUM() over no rows yields NULL — treat missing values as zero
+function rowToTokenUsage(row: UsageRow | null): TokenUsage {
+  return {
+    inputTokens: row?.input_tokens ?? 0,
+    outputTokens: row?.output_tokens ?? 0,
+    cacheReadTokens: row?.cache_read_tokens ?? 0,
+    cacheWriteTokens: row?.cache_write_tokens ?? 0,
+    premiumRequests: row?.premium_requests ?? 0,
+    calls: row?.calls ?? 0,
+  }
+}
+
+// A file change with the content captured when the turn made it
+export interface FileSnapshot extends FileChange {
+  messageId: string
+}
+
+export interface CheckpointFile {
+  sessionId: string
+  filePath: string
+  before: Buffer | null // null = file did not exist before the turn
+  after: Buffer | null
+  afterCaptured: boolean // false when the turn never finished (crash, quit mid-stream)
+  revertedAt: number | null
+}
+
 interface SessionRow {
   id: string
   title: string
@@ -281,6 +835,12 @@ interface SessionRow {
   updated_at: number
   has_unread: number
   status: string
+  worktree_branch: string | null
+  worktree_repo_path: string | null
+  linked_workspaces: string | null
+  forked_from: string | null
+  parent_session_id: string | null
+  pinned: number | null
 }
 
 interface MessageRow {
@@ -291,5 +851,71 @@ interface MessageRow {
   thinking: string | null
   tool_calls: string | null
   file_changes: string | null
+  status: string | null
+  attachments: string | null
+  created_at: number
+}
+
+interface PermissionRuleRow {
+  id: number
+  workspace: string | null
+  kind: string
+  pattern: string
+  action: string
+  created_at: number
+}
+
+interface ScheduledJobRow {
+  id: string
+  prompt: string
+  schedule: string
+  schedule_text: string
+  worktree: number
+  enabled: number
+  next_run_at: number | null
+  last_run_at: number | null
+  last_session_id: string | null
+  last_error: string | null
+  created_at: number
+}
+
+interface SearchRow {
+  message_id: string
+  session_id: string
+  role: string
   created_at: number
+  title: string
+  workspace: string | null
+  snippet: string
+}
+
+interface FileSnapshotRow {
+  message_id: string
+  file_path: string
+  old_path: string | null
+  old_content: string | null
+  new_content: string | null
+  change_type: string
+}
+
+interface CheckpointRow {
+  id: number
+  session_id: string
+  message_id: string
+  file_path: string
+  before_content: Buffer | null
+  after_content: Buffer | null
+  after_captured: number
+  reverted_at: number | null
+  created_at: number
+}
+
+interface UsageRow {
+  key?: string | null
+  input_tokens: number | null
+  output_tokens: number | null
+  cache_read_tokens: number | null
+  cache_write_tokens: number | null
+  premium_requests: number | null
+  calls: number | null
 }
@@ -0,0 +1,55 @@
+import type { ReplayFixture } from './replay-fixture.js'
+
+const HELLO_FILE = '{{workspace}}/HELLO.md'
+const HELLO = '# Hello\n\nThis file was written by the Accrew demo agent.\n'
+const NEXT_STEPS = '\n## Next steps\n\n- Record a real session with `recordFixtures`\n- Replay it with the fake provider\n'
+
+// What the fake provider replays when no fixture file is configured. Covers thinking,
+// markdown, a read, a file created and then edited (with permission prompts), a shell
+// command and usage, plus canned answers for titles, commit messages and workspace matching
+export const DEMO_FIXTURE: ReplayFixture = {
+  version: 1,
+  turns: [
+    {
+      match: 'Generate a short, descriptive title',
+      steps: [{ delay: 400, event: { type: 'text', content: 'Demo greeting file' } }]
+    },
+    {
+      match: 'Write a git commit message',
+      steps: [{ delay: 600, event: { type: 'text', content: 'Add a greeting file\n\nWritten by the demo agent to show replayed file changes.' } }]
+    },
+    {
+      match: 'Which workspace \\(if any\\)',
+      steps: [{ delay: 300, event: { type: 'text', content: '{ "workspace": null, "confidence": 0, "reason": "The demo agent does not match workspaces" }' } }]
+    },
+    {
+      steps: [
+        { delay: 500, event: { type: 'thinking', content: 'The user wants to see the agent at work. ' } },
+        { delay: 300, event: { type: 'thinking', content: 'I will look around, add a small file and check git.' } },
+        { delay: 400, event: { type: 'text', content: "I'll take a look at the workspace first." } },
+        { delay: 200, event: { type: 'tool_call', id: 'demo-view', name: 'view', arguments: { path: '{{workspace}}' } } },
+        { delay: 700, event: { type: 'tool_result', toolCallId: 'demo-view', result: 'README.md\npackage.json\nsrc/' } },
+        { delay: 300, event: { type: 'tool_call', id: 'demo-create', name: 'create', arguments: { path: HELLO_FILE, content: HELLO } } },
+        { delay: 100, permission: { kind: 'write', toolCallId: 'demo-create', fileName: HELLO_FILE, intention: 'Create HELLO.md' } },
+        { delay: 500, event: { type: 'tool_result', toolCallId: 'demo-create', result: `Created file ${HELLO_FILE}` } },
+        { delay: 300, event: { type: 'tool_call', id: 'demo-status', name: 'bash', arguments: { command: 'git status --short', description: 'Check what changed' } } },
+        { delay: 100, permission: { kind: 'shell', toolCallId: 'demo-status', fullCommandText: 'git status --short', commands: [{ identifier: 'git' }], intention: 'Check what changed' } },
+        { delay: 900, event: { type: 'tool_result', toolCallId: 'demo-status', result: '?? HELLO.md' } },
+        { delay: 400, event: { type: 'text', content: 'I added **HELLO.md** with a short greeting.' } },
+        { delay: 150, event: { type: 'text', content: '\n\n| File | Change |\n|------|--------|\n| `HELLO.md` | created |\n\n' } },
+        { delay: 150, event: { type: 'text', content: 'Ask me to extend it and I will edit the file.' } },
+        { delay: 100, event: { type: 'usage', usage: { model: 'demo', inputTokens: 1840, outputTokens: 212, cacheReadTokens: 1200, cacheWriteTokens: 0, premiumRequests: 0 } } }
+      ]
+    },
+    {
+      steps: [
+        { delay: 500, event: { type: 'thinking', content: 'I will add a next steps section to the greeting.' } },
+        { delay: 300, event: { type: 'tool_call', id: 'demo-edit', name: 'edit', arguments: { path: HELLO_FILE, old_str: HELLO, new_str: HELLO + NEXT_STEPS } } },
+        { delay: 100, permission: { kind: 'write', toolCallId: 'demo-edit', fileName: HELLO_FILE, intention: 'Edit HELLO.md' } },
+        { delay: 600, event: { type: 'tool_result', toolCallId: 'demo-edit', result: `File ${HELLO_FILE} updated` } },
+        { delay: 400, event: { type: 'text', content: 'Done — HELLO.md now lists the next steps:\n\n```markdown\n' + NEXT_STEPS.trim() + '\n```' } },
+        { delay: 100, event: { type: 'usage', usage: { model: 'demo', inputTokens: 2310, outputTokens: 148, cacheReadTokens: 1840, cacheWriteTokens: 0, premiumRequests: 0 } } }
+      ]
+    }
+  ]
+}
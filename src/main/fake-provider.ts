@@ -0,0 +1,179 @@
+import fs from 'fs'
+import path from 'path'
+import { debug } from './logger.js'
+import { loadFixture, resolveWorkspace, type FixtureTurn, type ReplayFixture } from './replay-fixture.js'
+import { DEMO_FIXTURE } from './demo-fixture.js'
+import type { AgentProvider, AgentProviderOptions, StreamEvent } from './agent-provider.js'
+import type { Attachment, FakeProviderConfig } from './types.js'
+
+// Long tool runs in a recording aren't worth sitting through on replay
+const MAX_STEP_DELAY_MS = 3000
+
+// Tool names recorded sessions use for file writes
+const CREATE_TOOLS = new Set(['create', 'create_file', 'write_file'])
+const EDIT_TOOLS = new Set(['edit', 'edit_file', 'str_replace', 'replace_string_in_file'])
+const DELETE_TOOLS = new Set(['delete', 'delete_file'])
+
+// Replays recorded StreamEvents with their timing, so Accrew runs without a Copilot
+// login — for demos and for trying the UI offline. Deterministic: the same prompts
+// get the same turns in the same order
+export class FakeAgentProvider implements AgentProvider {
+  private options: AgentProviderOptions
+  private settings: FakeProviderConfig
+  private fixture: ReplayFixture | null = null
+  private nextTurn = 0
+  private aborted = false
+  private wake: (() => void) | null = null
+
+  constructor(options: AgentProviderOptions = {}, settings: FakeProviderConfig = {}) {
+    this.options = options
+    this.settings = settings
+  }
+
+  get sessionId(): string | null {
+    return null
+  }
+
+  get wasResumed(): boolean {
+    return false
+  }
+
+  async init(): Promise<void> {
+    this.fixture = this.settings.fixture ? loadFixture(this.settings.fixture) : DEMO_FIXTURE
+    debug('fake', 'Initializing provider', { fixture: this.settings.fixture ?? 'demo', turns: this.fixture.turns.length })
+  }
+
+  async *chat(message: string, _attachments: Attachment[] = []): AsyncGenerator<StreamEvent> {
+    if (!this.fixture) {
+      throw new Error('FakeAgentProvider not initialized')
+    }
+    const turn = this.pickTurn(message)
+    // WHY: No workspace (a system agent session) means no files to touch — falling back
+    // to process.cwd() would replay the fixture's edits into Accrew's own folder
+    const root = this.options.workingDirectory
+    const resolve = <T>(value: T): T => root ? resolveWorkspace(value, root) : value
+    debug('fake', 'Replaying turn', { steps: turn.steps.length, prompt: turn.prompt?.slice(0, 80) })
+    const toolCalls = new Map<string, StreamEvent>()
+    const denied = new Set<string>()
+    this.aborted = false
+
+    for (const step of turn.steps) {
+      await this.sleep(step.delay)
+      if (this.aborted) return
+
+      if ('permission' in step) {
+        const request = resolve(step.permission)
+        // WHY: Asked for real, so the permission dialog, rules and notifications get exercised too
+        const approved = this.options.onPermissionRequest ? await this.options.onPermissionRequest(request) : false
+        if (this.aborted) return
+        if (!approved && request.toolCallId) denied.add(request.toolCallId)
+        continue
+      }
+
+      const event = resolve(step.event)
+      if (event.type === 'tool_call' && event.id) {
+        toolCalls.set(event.id, event)
+      } else if (event.type === 'tool_result' && event.toolCallId) {
+        if (denied.has(event.toolCallId)) {
+          yield { ...event, result: 'The user denied this tool call' }
+          continue
+        }
+        const call = toolCalls.get(event.toolCallId)
+        if (call && root) applyFileTool(call, root)
+      }
+      yield event
+    }
+  }
+
+  async abort(): Promise<void> {
+    debug('fake', 'Aborting replay')
+    this.aborted = true
+    this.wake?.()
+  }
+
+  async stop(): Promise<void> {
+    await this.abort()
+    this.fixture = null
+  }
+
+  // A turn whose match fits the prompt, else the next turn without one — cycling, so a
+  // short fixture keeps answering. The demo's canned answers cover titles, commit
+  // messages and workspace matching for recordings that don't have them; a session's
+  // own prompts are left to the recording, even when one reads like those
+  private pickTurn(message: string): FixtureTurn {
+    const fixture = this.fixture!
+    const candidates = this.options.utility && fixture !== DEMO_FIXTURE ? [...fixture.turns, ...DEMO_FIXTURE.turns] : fixture.turns
+    const matched = candidates.find(turn => turn.match && matches(turn.match, message))
+    if (matched) return matched
+    const ordered = fixture.turns.filter(turn => !turn.match)
+    if (ordered.length === 0) {
+      return { steps: [{ delay: 300, event: { type: 'text', content: 'This fixture has no turn for that prompt.' } }] }
+    }
+    return ordered[this.nextTurn++ % ordered.length]
+  }
+
+  // speed 2 replays twice as fast; 0 doesn't wait at all
+  private sleep(delay: number): Promise<void> {
+    const speed = this.settings.speed ?? 1
+    const ms = speed > 0 ? Math.min(delay, MAX_STEP_DELAY_MS) / speed : 0
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.wake = null
+        resolve()
+      }, ms)
+      this.wake = () => {
+        clearTimeout(timer)
+        this.wake = null
+        resolve()
+      }
+    })
+  }
+}
+
+function matches(pattern: string, message: string): boolean {
+  try {
+    return new RegExp(pattern, 'i').test(message)
+  } catch {
+    debug('fake', 'Ignoring invalid match pattern', { pattern })
+    return false
+  }
+}
+
+// WHY: Changes the workspace the way the recorded agent did — file changes are detected
+// on disk, not read from the event stream, so replayed edits must land there to show up.
+// Paths outside the session's working directory are left alone
+function applyFileTool(call: StreamEvent, root: string): void {
+  const name = call.name?.toLowerCase() ?? ''
+  if (!CREATE_TOOLS.has(name) && !EDIT_TOOLS.has(name) && !DELETE_TOOLS.has(name)) return
+  const args = call.arguments ?? {}
+  const str = (value: unknown) => typeof value === 'string' ? value : undefined
+  const target = str(args.path) ?? str(args.filePath)
+  if (!target) return
+  const filePath = path.resolve(root, target)
+  const relative = path.relative(root, filePath)
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    debug('fake', 'Skipping file tool outside the workspace', { filePath })
+    return
+  }
+
+  try {
+    if (CREATE_TOOLS.has(name)) {
+      // Like the real tool, create never overwrites — a demo must not clobber a user's file
+      if (fs.existsSync(filePath)) return
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+      fs.writeFileSync(filePath, str(args.content) ?? str(args.file_text) ?? '')
+    } else if (EDIT_TOOLS.has(name)) {
+      const oldText = str(args.old_str) ?? str(args.oldString)
+      const newText = str(args.new_str) ?? str(args.newString) ?? ''
+      if (!oldText || !fs.existsSync(filePath)) return
+      const content = fs.readFileSync(filePath, 'utf-8')
+      if (content.includes(oldText)) {
+        fs.writeFileSync(filePath, content.replace(oldText, () => newText))
+      }
+    } else {
+      fs.rmSync(filePath, { force: true })
+    }
+  } catch (error) {
+    debug('fake', 'File tool replay failed', { filePath, error: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -0,0 +1,301 @@
+import { execFile } from 'child_process'
+import type { Dirent } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import { promisify } from 'util'
+import { MAX_CHECKPOINT_BYTES } from './checkpoint-manager.js'
+import { debug } from './logger.js'
+import type { FileChange } from './types.js'
+
+// WHY: Scans stop here — a workspace this large is almost certainly vendored or
+// generated content, and stat-ing it after every tool call would stall the turn
+const MAX_TRACKED_FILES = 50_000
+// Pre-turn copies of files git can't give back (untracked, or modified since the last
+// commit) are kept in memory for the turn — beyond this, those files diff without "before"
+const MAX_BASELINE_CACHE_BYTES = 64 * 1024 * 1024
+// Outside git, these are never the agent's work and often huge
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules'])
+
+const execFileAsync = promisify(execFile)
+
+interface FileState {
+  size: number
+  mtimeMs: number
+}
+
+interface GitFile {
+  path: string // Relative to the repo root
+  blob?: string // Unset for untracked files
+}
+
+interface BaselineFile extends FileState {
+  repo?: string // Git can return the content by blob ID from this repo
+  blob?: string
+  gitPath?: string // Relative to repo, for the checkout filters
+  content?: Buffer
+}
+
+// Finds the files a turn changed by comparing the workspace with how it was when the
+// turn started, so writes from shell commands (sed, npm init, codegen) count as much as
+// file tools do. detect() runs while the turn goes on and once it ends; each change it
+// reports is the file's net change since the start of the turn, with full before/after
+// content. WHY: Git and the filesystem are only ever awaited — this runs in Electron's
+// main process, where a synchronous scan of a large repo would freeze the UI and IPC
+export class FileChangeTracker {
+  private roots: string[]
+  private baseline = new Map<string, BaselineFile>()
+  private last = new Map<string, FileState>()
+  private current = new Map<string, FileChange>()
+  private cachedBytes = 0
+  private detecting: Promise<unknown> = Promise.resolve()
+
+  private constructor(roots: string[]) {
+    this.roots = roots
+  }
+
+  // Takes the snapshot changes are measured against — before the turn starts
+  static async create(roots: string[]): Promise<FileChangeTracker> {
+    const tracker = new FileChangeTracker(roots)
+    for (const root of roots) {
+      await tracker.scanBaseline(root)
+    }
+    for (const [filePath, file] of tracker.baseline) {
+      tracker.last.set(filePath, { size: file.size, mtimeMs: file.mtimeMs })
+    }
+    debug('changes', 'Baseline captured', { roots: roots.length, files: tracker.baseline.size, cachedBytes: tracker.cachedBytes })
+    return tracker
+  }
+
+  // Changes that appeared or moved on since the previous call. Calls run one at a time,
+  // so a scan at turn end also reports what one still running when it was asked didn't
+  detect(): Promise<FileChange[]> {
+    const result = this.detecting.then(() => this.detectNow())
+    this.detecting = result.catch(() => undefined)
+    return result
+  }
+
+  private async detectNow(): Promise<FileChange[]> {
+    const now = await this.scan()
+    const touched = new Set<string>()
+    for (const [filePath, state] of now) {
+      const previous = this.last.get(filePath)
+      if (!previous || previous.size !== state.size || previous.mtimeMs !== state.mtimeMs) touched.add(filePath)
+    }
+    for (const filePath of this.last.keys()) {
+      if (!now.has(filePath)) touched.add(filePath)
+    }
+    this.last = now
+    if (touched.size === 0) return []
+
+    // A rename is looked at afresh from both sides when either changes again
+    for (const change of this.current.values()) {
+      if (change.oldPath && (touched.has(change.path) || touched.has(change.oldPath))) {
+        touched.add(change.path)
+        touched.add(change.oldPath)
+        this.current.delete(change.path)
+      }
+    }
+
+    const updated: FileChange[] = []
+    const created: FileChange[] = []
+    const deleted: FileChange[] = []
+    for (const filePath of touched) {
+      const change = await this.diff(filePath, now.has(filePath))
+      if (!change) {
+        this.current.delete(filePath)
+        continue
+      }
+      if (change.type === 'created') created.push(change)
+      else if (change.type === 'deleted') deleted.push(change)
+      else updated.push(change)
+    }
+
+    // WHY: A file that disappeared while one with identical content appeared is a move
+    // (git mv, mv, a refactoring tool) — one rename reads better than a delete and a create
+    for (const removed of deleted) {
+      const index = created.findIndex(added => added.newContent !== undefined && added.newContent === removed.oldContent)
+      if (index === -1) {
+        updated.push(removed)
+        continue
+      }
+      const [added] = created.splice(index, 1)
+      updated.push({ path: added.path, oldPath: removed.path, type: 'renamed', oldContent: removed.oldContent, newContent: added.newContent })
+    }
+    updated.push(...created)
+
+    for (const change of updated) {
+      this.current.set(change.path, change)
+      if (change.oldPath) this.current.delete(change.oldPath)
+    }
+    return updated
+  }
+
+  // Every file the turn has changed so far
+  changes(): FileChange[] {
+    return [...this.current.values()]
+  }
+
+  // Content at the start of the turn: null when the file didn't exist, undefined when
+  // it wasn't kept (too large, or the cache was full)
+  async before(filePath: string): Promise<Buffer | null | undefined> {
+    const file = this.baseline.get(filePath)
+    if (!file) return null
+    if (file.content) return file.content
+    if (file.repo && file.blob && file.gitPath) {
+      try {
+        // WHY: --filters gives the bytes a checkout writes (autocrlf, LFS smudge) — the raw
+        // blob differs from them, and reverting to it would rewrite the user's file
+        const { stdout } = await execFileAsync('git', ['cat-file', '--filters', `--path=${file.gitPath}`, file.blob], { cwd: file.repo, encoding: 'buffer', maxBuffer: MAX_CHECKPOINT_BYTES * 2 })
+        return stdout
+      } catch {
+        return undefined
+      }
+    }
+    return undefined
+  }
+
+  private async diff(filePath: string, exists: boolean): Promise<FileChange | null> {
+    const existed = this.baseline.has(filePath)
+    const before = await this.before(filePath)
+    const after = exists ? await read(filePath) : null
+    if (!existed && !exists) return null
+    if (existed && exists && before !== undefined && after !== undefined && before !== null && after !== null && before.equals(after)) {
+      // Changed and changed back within the turn
+      return null
+    }
+    const type: FileChange['type'] = !existed ? 'created' : !exists ? 'deleted' : 'modified'
+    return {
+      path: filePath,
+      type,
+      ...(type !== 'created' && { oldContent: toText(before) }),
+      ...(type !== 'deleted' && { newContent: toText(after) })
+    }
+  }
+
+  private async scanBaseline(root: string): Promise<void> {
+    const files = await gitFiles(root)
+    if (!files) {
+      for (const [filePath, state] of await walk(root)) {
+        this.baseline.set(filePath, { ...state, ...await this.cache(filePath, state) })
+      }
+      return
+    }
+    const modified = new Set(await gitLsFiles(root, ['-m']))
+    for (const entry of files) {
+      const filePath = path.join(root, entry.path)
+      const state = await stat(filePath)
+      if (!state) continue
+      // Unchanged since the index — git has the content, no need to hold a copy
+      const file: BaselineFile = entry.blob && !modified.has(entry.path)
+        ? { ...state, repo: root, blob: entry.blob, gitPath: entry.path }
+        : { ...state, ...await this.cache(filePath, state) }
+      this.baseline.set(filePath, file)
+    }
+  }
+
+  private async cache(filePath: string, state: FileState): Promise<{ content?: Buffer }> {
+    if (state.size > MAX_CHECKPOINT_BYTES || this.cachedBytes + state.size > MAX_BASELINE_CACHE_BYTES) return {}
+    const content = await read(filePath)
+    if (!content) return {}
+    this.cachedBytes += content.length
+    return { content }
+  }
+
+  private async scan(): Promise<Map<string, FileState>> {
+    const files = new Map<string, FileState>()
+    for (const root of this.roots) {
+      const entries = await gitFiles(root)
+      if (!entries) {
+        for (const [filePath, state] of await walk(root)) files.set(filePath, state)
+        continue
+      }
+      for (const entry of entries) {
+        const filePath = path.join(root, entry.path)
+        const state = await stat(filePath)
+        if (state) files.set(filePath, state)
+      }
+    }
+    return files
+  }
+}
+
+async function gitLsFiles(root: string, args: string[]): Promise<string[]> {
+  const { stdout } = await execFileAsync('git', ['ls-files', '-z', ...args], {
+    cwd: root,
+    encoding: 'utf-8',
+    maxBuffer: 64 * 1024 * 1024
+  })
+  return stdout.split('\0').filter(Boolean)
+}
+
+// Files git knows about or would pick up (not ignored), relative to root; null outside a repo
+async function gitFiles(root: string): Promise<GitFile[] | null> {
+  try {
+    // "<mode> <blob> <stage>\t<path>" — a conflicted file is listed once per stage
+    const tracked = new Map<string, string>()
+    for (const line of await gitLsFiles(root, ['-s'])) {
+      const tab = line.indexOf('\t')
+      tracked.set(line.slice(tab + 1), line.split(' ')[1])
+    }
+    const files: GitFile[] = [
+      ...[...tracked].map(([filePath, blob]) => ({ path: filePath, blob })),
+      ...(await gitLsFiles(root, ['-o', '--exclude-standard'])).map(filePath => ({ path: filePath }))
+    ]
+    if (files.length > MAX_TRACKED_FILES) {
+      debug('changes', 'Workspace too large to track fully', { root, files: files.length })
+    }
+    return files.slice(0, MAX_TRACKED_FILES)
+  } catch {
+    return null
+  }
+}
+
+async function walk(root: string): Promise<Map<string, FileState>> {
+  const files = new Map<string, FileState>()
+  const pending = [root]
+  while (pending.length > 0 && files.size < MAX_TRACKED_FILES) {
+    const dir = pending.pop()!
+    let entries: Dirent[]
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true })
+    } catch {
+      continue
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) pending.push(entryPath)
+      } else if (entry.isFile()) {
+        const state = await stat(entryPath)
+        if (state) files.set(entryPath, state)
+      }
+    }
+  }
+  return files
+}
+
+async function stat(filePath: string): Promise<FileState | null> {
+  try {
+    const stats = await fs.stat(filePath)
+    return stats.isFile() ? { size: stats.size, mtimeMs: stats.mtimeMs } : null
+  } catch {
+    return null
+  }
+}
+
+// undefined for files too large to keep, like checkpoints
+async function read(filePath: string): Promise<Buffer | null | undefined> {
+  try {
+    const stats = await fs.stat(filePath)
+    if (stats.size > MAX_CHECKPOINT_BYTES) return undefined
+    return await fs.readFile(filePath)
+  } catch {
+    return null
+  }
+}
+
+// Diffs are shown as text — binary content is left out
+function toText(content: Buffer | null | undefined): string | undefined {
+  if (!content || content.includes(0)) return undefined
+  return content.toString('utf-8')
+}
@@ -1,8 +1,23 @@
-import { execSync } from 'child_process'
+import { execSync, execFileSync } from 'child_process'
+import fs from 'fs'
+import path from 'path'
 
 export interface GitFileStatus {
   path: string
   status: 'A' | 'M' | 'D' | '?'
+  staged: boolean // Index differs from HEAD
+  unstaged: boolean // Working tree differs from index (or file is untracked)
+}
+
+export interface GitHunk {
+  index: number // Position within the file's diff, used to stage/unstage it
+  header: string // "@@ -a,b +c,d @@ context" line
+  patch: string // Hunk body including the header line
+}
+
+export interface GitFileHunks {
+  staged: GitHunk[]
+  unstaged: GitHunk[]
 }
 
 export class GitManager {
@@ -77,7 +92,12 @@ export class GitManager {
           status = 'M' // Default to modified for any other status
         }
 
-        return { path: filePath, status }
+        return {
+          path: filePath,
+          status,
+          staged: indexStatus !== ' ' && indexStatus !== '?',
+          unstaged: worktreeStatus !== ' '
+        }
       })
     } catch {
       return []
@@ -124,6 +144,143 @@ export class GitManager {
     }
   }
 
+  /**
+   * Stage a file (including deletions and untracked files)
+   */
+  stageFile(repoPath: string, filePath: string): void {
+    this.git(repoPath, ['add', '--all', '--', filePath])
+  }
+
+  /**
+   * Remove a file from the index, keeping working tree changes
+   */
+  unstageFile(repoPath: string, filePath: string): void {
+    if (this.hasHead(repoPath)) {
+      this.git(repoPath, ['reset', '--quiet', 'HEAD', '--', filePath])
+    } else {
+      // WHY: Before the first commit there is no HEAD to reset to — dropping the
+      // index entry is the only way to unstage
+      this.git(repoPath, ['rm', '--cached', '--quiet', '--', filePath])
+    }
+  }
+
+  /**
+   * Throw away all changes to a file, staged and unstaged. Files that don't exist
+   * in HEAD (new or untracked) are deleted.
+   */
+  discardFile(repoPath: string, filePath: string): void {
+    if (this.existsInHead(repoPath, filePath)) {
+      this.git(repoPath, ['checkout', 'HEAD', '--', filePath])
+      return
+    }
+    this.git(repoPath, ['rm', '--cached', '--quiet', '--ignore-unmatch', '--', filePath])
+    fs.rmSync(path.join(repoPath, filePath), { force: true, recursive: true })
+  }
+
+  /**
+   * Split a file's staged (index vs HEAD) and unstaged (working tree vs index) diffs into hunks
+   */
+  getHunks(repoPath: string, filePath: string): GitFileHunks {
+    return {
+      staged: this.parseHunks(this.diffForHunks(repoPath, filePath, true)).hunks,
+      unstaged: this.parseHunks(this.diffForHunks(repoPath, filePath, false)).hunks
+    }
+  }
+
+  /**
+   * Stage a single unstaged hunk. The header must match what the UI showed —
+   * the diff may have changed since it was listed.
+   */
+  stageHunk(repoPath: string, filePath: string, hunkIndex: number, header: string): void {
+    const patch = this.buildHunkPatch(this.diffForHunks(repoPath, filePath, false), hunkIndex, header)
+    this.git(repoPath, ['apply', '--cached', '--whitespace=nowarn', '-'], patch)
+  }
+
+  /**
+   * Move a single staged hunk back to the working tree
+   */
+  unstageHunk(repoPath: string, filePath: string, hunkIndex: number, header: string): void {
+    const patch = this.buildHunkPatch(this.diffForHunks(repoPath, filePath, true), hunkIndex, header)
+    this.git(repoPath, ['apply', '--cached', '--reverse', '--whitespace=nowarn', '-'], patch)
+  }
+
+  /**
+   * Commit the staged changes. Returns the short hash of the new commit.
+   */
+  commit(repoPath: string, message: string): string {
+    if (!message.trim()) {
+      throw new Error('Commit message is empty')
+    }
+    const staged = this.getStatus(repoPath).some(f => f.staged)
+    if (!staged) {
+      throw new Error('Nothing staged to commit')
+    }
+    this.git(repoPath, ['commit', '--quiet', '-F', '-'], message)
+    return this.git(repoPath, ['rev-parse', '--short', 'HEAD']).trim()
+  }
+
+  /**
+   * Create a worktree on a new branch forked from the current HEAD, or from startPoint when given
+   */
+  addWorktree(repoPath: string, worktreePath: string, branch: string, startPoint?: string): void {
+    this.excludeFromStatus(repoPath, path.relative(repoPath, worktreePath))
+    this.git(repoPath, ['worktree', 'add', '-b', branch, worktreePath, ...(startPoint ? [startPoint] : [])])
+  }
+
+  /**
+   * Remove a worktree directory and its git metadata, discarding uncommitted changes
+   */
+  removeWorktree(repoPath: string, worktreePath: string): void {
+    if (fs.existsSync(worktreePath)) {
+      this.git(repoPath, ['worktree', 'remove', '--force', worktreePath])
+    } else {
+      // WHY: Directory already deleted by hand — prune drops the stale registration
+      // that would otherwise keep the branch "checked out" and undeletable
+      this.git(repoPath, ['worktree', 'prune'])
+    }
+  }
+
+  /**
+   * Stage and commit everything in the working tree. Returns false when there was nothing to commit.
+   */
+  commitAll(repoPath: string, message: string): boolean {
+    this.git(repoPath, ['add', '--all'])
+    if (!this.getStatus(repoPath).some(f => f.staged)) {
+      return false
+    }
+    this.git(repoPath, ['commit', '--quiet', '-F', '-'], message)
+    return true
+  }
+
+  /**
+   * Merge a branch into the branch checked out at repoPath. On conflicts the merge
+   * is aborted, leaving the working tree as it was, and the conflicting files are reported.
+   */
+  mergeBranch(repoPath: string, branch: string): void {
+    try {
+      this.git(repoPath, ['merge', '--no-ff', '--no-edit', branch])
+    } catch (error) {
+      let conflicts: string[] = []
+      try {
+        conflicts = this.git(repoPath, ['diff', '--name-only', '--diff-filter=U']).split('\n').filter(Boolean)
+        this.git(repoPath, ['merge', '--abort'])
+      } catch {
+        // Merge never started (e.g. dirty working tree) — nothing to abort
+      }
+      if (conflicts.length > 0) {
+        throw new Error(`Merge conflicts in ${conflicts.join(', ')} — resolve them in the worktree and try again`)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Delete a local branch. Without force, git refuses to delete unmerged work.
+   */
+  deleteBranch(repoPath: string, branch: string, force: boolean = false): void {
+    this.git(repoPath, ['branch', force ? '-D' : '-d', branch])
+  }
+
   /**
    * Get cached (staged) diff for a specific file
    */
@@ -166,4 +323,98 @@ ${addedLines}`
       return null
     }
   }
+
+  // WHY: Argument array via execFileSync instead of a shell string — commit messages
+  // and file paths can contain quotes, $ or backticks that a shell would interpret.
+  // Errors are rethrown with git's stderr so the UI can show why an action failed.
+  private git(repoPath: string, args: string[], input?: string): string {
+    try {
+      return execFileSync('git', args, {
+        cwd: repoPath,
+        input,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        encoding: 'utf-8',
+        maxBuffer: 10 * 1024 * 1024
+      })
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim()
+      throw new Error(stderr || (error instanceof Error ? error.message : `git ${args[0]} failed`))
+    }
+  }
+
+  // WHY: Worktrees live inside the workspace, so without an exclude entry every
+  // session's files would show up as untracked changes of the main working tree.
+  // info/exclude is local to the clone, unlike .gitignore which would need a commit.
+  private excludeFromStatus(repoPath: string, relativePath: string): void {
+    const excludeFile = path.resolve(repoPath, this.git(repoPath, ['rev-parse', '--git-path', 'info/exclude']).trim())
+    const entry = `/${relativePath.split(path.sep)[0]}/`
+    const existing = fs.existsSync(excludeFile) ? fs.readFileSync(excludeFile, 'utf-8') : ''
+    if (existing.split('\n').includes(entry)) return
+    fs.mkdirSync(path.dirname(excludeFile), { recursive: true })
+    fs.appendFileSync(excludeFile, `${existing && !existing.endsWith('\n') ? '\n' : ''}${entry}\n`)
+  }
+
+  private hasHead(repoPath: string): boolean {
+    try {
+      this.git(repoPath, ['rev-parse', '--verify', '--quiet', 'HEAD'])
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  private existsInHead(repoPath: string, filePath: string): boolean {
+    try {
+      this.git(repoPath, ['cat-file', '-e', `HEAD:${filePath}`])
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  private diffForHunks(repoPath: string, filePath: string, staged: boolean): string {
+    const args = staged ? ['diff', '--cached', '--', filePath] : ['diff', '--', filePath]
+    try {
+      return this.git(repoPath, args)
+    } catch {
+      return ''
+    }
+  }
+
+  // Split a single-file diff into its file header ("diff --git", "---", "+++") and hunks
+  private parseHunks(diff: string): { fileHeader: string; hunks: GitHunk[] } {
+    const lines = diff.split('\n')
+    // WHY: git ends the diff with a newline, which split() turns into a trailing empty
+    // element — keeping it would add a blank line to the last hunk and corrupt the patch
+    if (lines[lines.length - 1] === '') lines.pop()
+
+    const headerLines: string[] = []
+    const hunks: GitHunk[] = []
+    let current: string[] | null = null
+    for (const line of lines) {
+      if (line.startsWith('@@')) {
+        if (current) hunks.push(this.toHunk(hunks.length, current))
+        current = [line]
+      } else if (current) {
+        current.push(line)
+      } else {
+        headerLines.push(line)
+      }
+    }
+    if (current) hunks.push(this.toHunk(hunks.length, current))
+    return { fileHeader: headerLines.join('\n'), hunks }
+  }
+
+  private toHunk(index: number, lines: string[]): GitHunk {
+    return { index, header: lines[0], patch: lines.join('\n') }
+  }
+
+  private buildHunkPatch(diff: string, hunkIndex: number, header: string): string {
+    const { fileHeader, hunks } = this.parseHunks(diff)
+    const hunk = hunks[hunkIndex]
+    if (!hunk || hunk.header !== header) {
+      throw new Error('The diff has changed since it was loaded — refresh and try again')
+    }
+    return `${fileHeader}\n${hunk.patch}\n`
+  }
 }
@@ -1,6 +1,7 @@
 import { app, BrowserWindow, ipcMain, nativeTheme, dialog, Menu, MenuItemConstructorOptions, shell, autoUpdater as nativeUpdater } from 'electron'
 import electronUpdater from 'electron-updater'
 const { autoUpdater } = electronUpdater
+import fs from 'fs'
 import path from 'path'
 import { fileURLToPath } from 'url'
 import { Database } from './database.js'
@@ -8,10 +9,17 @@ import { AgentManager } from './agent-manager.js'
 import { WorkspaceManager } from './workspace-manager.js'
 import { ConfigManager } from './config-manager.js'
 import { GitManager } from './git-manager.js'
+import { SessionExporter } from './session-exporter.js'
+import { PromptTemplateManager } from './prompt-templates.js'
+import { AttachmentManager } from './attachment-manager.js'
+import { Scheduler } from './scheduler.js'
+import { RetentionManager } from './retention-manager.js'
+import { NotificationManager } from './notification-manager.js'
 import { CopilotClient as SDKCopilotClient } from '@github/copilot-sdk'
 import { getCopilotCliOptions } from './copilot-client.js'
 import { initLogger, debug } from './logger.js'
-import type { Config } from './types.js'
+import { getCliArgs, runCli } from './cli.js'
+import type { Config, PermissionDecision, SessionExportFormat, PromptScope, Attachment, MessageEditMode, RetentionRules } from './types.js'
 
 // ESM __dirname polyfill
 const __filename = fileURLToPath(import.meta.url)
@@ -36,6 +44,12 @@ let agentManager: AgentManager
 let workspaceManager: WorkspaceManager
 let configManager: ConfigManager
 let gitManager: GitManager
+let sessionExporter: SessionExporter
+let promptTemplates: PromptTemplateManager
+let attachmentManager: AttachmentManager
+let scheduler: Scheduler
+let retention: RetentionManager
+let notifications: NotificationManager
 
 // Use ACCREW_DEV env var to determine dev mode
 const isDev = process.env.ACCREW_DEV === 'true'
@@ -43,6 +57,9 @@ const isDev = process.env.ACCREW_DEV === 'true'
 // Set proper app name (overrides "Electron" in dev mode)
 app.name = 'Accrew'
 
+// Set when launched as `accrew --cli <command>` — run headless and exit
+const cliArgs = getCliArgs(process.argv)
+
 function createWindow() {
   mainWindow = new BrowserWindow({
     width: 1400,
@@ -88,33 +105,57 @@ async function initializeServices() {
   database = new Database()
   await database.init()
 
-  // Archive cleanup on startup
-  // Archive sessions older than 2 days, delete archived sessions older than 90 days
-  const archived = database.archiveOldSessions(2)
-  const deleted = database.deleteArchivedSessions(90)
-  if (archived > 0 || deleted > 0) {
-    console.log(`Session cleanup: ${archived} archived, ${deleted} deleted`)
+  // Turns the previous run was still streaming when it crashed or was force-quit
+  const interrupted = database.markInterruptedMessages()
+  if (interrupted > 0) {
+    console.log(`Marked ${interrupted} interrupted turn(s)`)
   }
+
+  attachmentManager = new AttachmentManager()
   
   const config = configManager.get()
   workspaceManager = new WorkspaceManager(config.workspaceFolder, config.workspaceDepth)
   gitManager = new GitManager()
+  sessionExporter = new SessionExporter(database, workspaceManager)
+  promptTemplates = new PromptTemplateManager(database, workspaceManager)
   
-  agentManager = new AgentManager(database, workspaceManager, configManager, (event, data) => {
+  // WHY: Every service's events pass the notifier on their way to the renderer — a
+  // scheduled session runs unattended, so it is the one most in need of a notification
+  const emit = (event: string, data: unknown) => {
     mainWindow?.webContents.send(event, data)
-  })
+    notifications?.handleEvent(event, data)
+  }
+
+  agentManager = new AgentManager(database, workspaceManager, configManager, gitManager, emit)
+
+  notifications = new NotificationManager(database, agentManager, configManager, () => mainWindow)
+
+  scheduler = new Scheduler(database, agentManager, promptTemplates, emit)
+
+  retention = new RetentionManager(database, agentManager, configManager, emit)
+  // Archive idle sessions and delete long-archived ones before the sidebar first loads
+  const { archived, deleted } = await retention.cleanup()
+  if (archived > 0 || deleted > 0) {
+    console.log(`Session cleanup: ${archived} archived, ${deleted} deleted`)
+  }
+
+  // Pasted attachments outlive their messages unless removed with them
+  const pruned = attachmentManager.prune(database.getAttachmentPaths())
+  if (pruned > 0) {
+    console.log(`Removed ${pruned} unused attachment(s)`)
+  }
 
   debug('app', 'Services initialized')
 }
 
 function setupIpcHandlers() {
   // Session handlers
-  ipcMain.handle('session:create', async (_, args: { workspace?: string; prompt: string; sessionId: string }) => {
-    return agentManager.createSession(args.workspace, args.prompt, args.sessionId)
+  ipcMain.handle('session:create', async (_, args: { workspace?: string; prompt: string; sessionId: string; worktree?: boolean; attachments?: Attachment[] }) => {
+    return agentManager.createSession(args.workspace, args.prompt, args.sessionId, { worktree: args.worktree, attachments: args.attachments })
   })
 
-  ipcMain.handle('session:send', async (_, args: { sessionId: string; content: string }) => {
-    return agentManager.sendMessage(args.sessionId, args.content)
+  ipcMain.handle('session:send', async (_, args: { sessionId: string; content: string; attachments?: Attachment[] }) => {
+    return agentManager.sendMessage(args.sessionId, args.content, undefined, args.attachments)
   })
 
   ipcMain.handle('session:list', async () => {
@@ -128,13 +169,16 @@ function setupIpcHandlers() {
     }
   })
 
+  ipcMain.handle('session:search', async (_, args: { query: string; limit?: number }) => {
+    return database.searchMessages(args.query, args.limit)
+  })
+
   ipcMain.handle('session:abort', async (_, args: { sessionId: string }) => {
     return agentManager.abortSession(args.sessionId)
   })
 
   ipcMain.handle('session:delete', async (_, args: { sessionId: string }) => {
-    await agentManager.stopSession(args.sessionId)
-    return database.deleteSession(args.sessionId)
+    return agentManager.deleteSession(args.sessionId)
   })
 
   ipcMain.handle('session:mark-read', async (_, args: { sessionId: string }) => {
@@ -151,6 +195,27 @@ function setupIpcHandlers() {
     return database.getSession(args.sessionId)
   })
 
+  ipcMain.handle('session:set-pinned', async (_, args: { sessionId: string; pinned: boolean }) => {
+    database.setSessionPinned(args.sessionId, args.pinned)
+    return database.getSession(args.sessionId)
+  })
+
+  ipcMain.handle('session:merge-worktree', async (_, args: { sessionId: string }) => {
+    return agentManager.mergeWorktree(args.sessionId)
+  })
+
+  ipcMain.handle('session:discard-worktree', async (_, args: { sessionId: string }) => {
+    return agentManager.discardWorktree(args.sessionId)
+  })
+
+  ipcMain.handle('session:fork', async (_, args: { sessionId: string; messageId: string }) => {
+    return agentManager.forkSession(args.sessionId, args.messageId)
+  })
+
+  ipcMain.handle('session:edit-message', async (_, args: { sessionId: string; messageId: string; content: string; mode: MessageEditMode; revert?: boolean; force?: boolean }) => {
+    return agentManager.editMessage(args.sessionId, args.messageId, args.content, { mode: args.mode, revert: args.revert, force: args.force })
+  })
+
   ipcMain.handle('session:unarchive', async (_, args: { sessionId: string }) => {
     database.unarchiveSession(args.sessionId)
     return database.getSession(args.sessionId)
@@ -164,6 +229,155 @@ function setupIpcHandlers() {
     return agentManager.regenerateTitle(args.sessionId)
   })
 
+  // Returns the saved file's path, or null when the save dialog was cancelled
+  ipcMain.handle('session:export', async (_, args: { sessionId: string; format: SessionExportFormat }) => {
+    const filters = {
+      markdown: { name: 'Markdown', extensions: ['md'] },
+      html: { name: 'HTML', extensions: ['html'] },
+      json: { name: 'Accrew session', extensions: ['json'] }
+    }
+    const result = await dialog.showSaveDialog(mainWindow!, {
+      defaultPath: sessionExporter.fileName(args.sessionId, args.format),
+      filters: [filters[args.format]]
+    })
+    if (result.canceled || !result.filePath) return null
+    fs.writeFileSync(result.filePath, sessionExporter.export(args.sessionId, args.format))
+    return result.filePath
+  })
+
+  // Returns the imported session, or null when the open dialog was cancelled
+  ipcMain.handle('session:import', async () => {
+    const result = await dialog.showOpenDialog(mainWindow!, {
+      properties: ['openFile'],
+      filters: [{ name: 'Accrew session', extensions: ['json'] }]
+    })
+    if (result.canceled || result.filePaths.length === 0) return null
+    return sessionExporter.import(fs.readFileSync(result.filePaths[0], 'utf-8'))
+  })
+
+  // Prompt template handlers
+  ipcMain.handle('prompt:list', async (_, args: PromptScope) => {
+    return promptTemplates.list(args)
+  })
+
+  ipcMain.handle('prompt:expand', async (_, args: PromptScope & { content: string }) => {
+    return promptTemplates.expand(args.content, args)
+  })
+
+  // Permission handlers
+  ipcMain.handle('permission:respond', async (_, args: { requestId: string; decision: PermissionDecision }) => {
+    agentManager.respondToPermission(args.requestId, args.decision)
+  })
+
+  ipcMain.handle('permission:pending', async () => {
+    return agentManager.getPendingPermissions()
+  })
+
+  ipcMain.handle('permission:rules', async () => {
+    return database.getPermissionRules()
+  })
+
+  ipcMain.handle('permission:delete-rule', async (_, args: { id: number }) => {
+    database.deletePermissionRule(args.id)
+    return database.getPermissionRules()
+  })
+
+  // Checkpoint handlers
+  ipcMain.handle('checkpoint:revert', async (_, args: { messageId: string; force?: boolean }) => {
+    return agentManager.revertTurn(args.messageId, args.force)
+  })
+
+  // Message queue handlers
+  ipcMain.handle('queue:list', async () => {
+    return agentManager.getQueues()
+  })
+
+  ipcMain.handle('queue:add', async (_, args: { sessionId: string; content: string; attachments?: Attachment[] }) => {
+    return agentManager.queueMessage(args.sessionId, args.content, args.attachments)
+  })
+
+  ipcMain.handle('queue:update', async (_, args: { sessionId: string; id: string; content: string }) => {
+    return agentManager.updateQueuedMessage(args.sessionId, args.id, args.content)
+  })
+
+  ipcMain.handle('queue:remove', async (_, args: { sessionId: string; id: string }) => {
+    return agentManager.removeQueuedMessage(args.sessionId, args.id)
+  })
+
+  ipcMain.handle('queue:move', async (_, args: { sessionId: string; id: string; toIndex: number }) => {
+    return agentManager.moveQueuedMessage(args.sessionId, args.id, args.toIndex)
+  })
+
+  ipcMain.handle('queue:send-now', async (_, args: { sessionId: string; id: string }) => {
+    agentManager.sendQueuedNow(args.sessionId, args.id)
+  })
+
+  // Run queue handlers
+  ipcMain.handle('run:list', async () => {
+    return agentManager.getRunQueue()
+  })
+
+  ipcMain.handle('run:prioritize', async (_, args: { sessionId: string }) => {
+    agentManager.prioritizeRun(args.sessionId)
+  })
+
+  ipcMain.handle('run:cancel', async (_, args: { sessionId: string }) => {
+    agentManager.cancelRun(args.sessionId)
+  })
+
+  // Usage handlers
+  ipcMain.handle('usage:summary', async (_, args?: { days?: number }) => {
+    return database.getUsageSummary(args?.days)
+  })
+
+  // Retention handlers
+  ipcMain.handle('retention:preview', async (_, args?: Partial<RetentionRules>) => {
+    return retention.preview(args)
+  })
+
+  // Scheduled job handlers
+  ipcMain.handle('schedule:list', async () => {
+    return scheduler.list()
+  })
+
+  ipcMain.handle('schedule:create', async (_, args: { prompt: string; scheduleText: string; worktree?: boolean }) => {
+    return scheduler.create(args.prompt, args.scheduleText, args.worktree)
+  })
+
+  ipcMain.handle('schedule:preview', async (_, args: { scheduleText: string }) => {
+    return scheduler.preview(args.scheduleText)
+  })
+
+  ipcMain.handle('schedule:set-enabled', async (_, args: { id: string; enabled: boolean }) => {
+    scheduler.setEnabled(args.id, args.enabled)
+  })
+
+  ipcMain.handle('schedule:delete', async (_, args: { id: string }) => {
+    scheduler.delete(args.id)
+  })
+
+  ipcMain.handle('schedule:run-now', async (_, args: { id: string }) => {
+    return scheduler.runNow(args.id)
+  })
+
+  // Attachment handlers
+  ipcMain.handle('attachment:from-paths', async (_, args: { paths: string[] }) => {
+    return attachmentManager.fromPaths(args.paths)
+  })
+
+  ipcMain.handle('attachment:save', async (_, args: { name: string; data: ArrayBuffer; mimeType: string }) => {
+    return attachmentManager.save(args.name, args.data, args.mimeType)
+  })
+
+  // Returns no attachments when the dialog was cancelled
+  ipcMain.handle('attachment:pick', async (_, args: { defaultPath?: string }) => {
+    const result = await dialog.showOpenDialog(mainWindow!, {
+      defaultPath: args.defaultPath,
+      properties: ['openFile', 'openDirectory', 'multiSelections']
+    })
+    return result.canceled ? [] : attachmentManager.fromPaths(result.filePaths)
+  })
+
   // Workspace handlers
   ipcMain.handle('workspace:list', async () => {
     return workspaceManager.listWorkspaces()
@@ -187,6 +401,9 @@ function setupIpcHandlers() {
     if (config.workspaceDepth !== undefined) {
       workspaceManager.setDepth(config.workspaceDepth)
     }
+    if (config.maxConcurrentRuns !== undefined) {
+      agentManager.startQueuedRuns()
+    }
     return configManager.get()
   })
 
@@ -237,6 +454,38 @@ function setupIpcHandlers() {
   ipcMain.handle('git:diff', async (_, args: { path: string; filePath: string }) => {
     return gitManager.getDiff(args.path, args.filePath)
   })
+
+  ipcMain.handle('git:stage', async (_, args: { path: string; filePath: string }) => {
+    gitManager.stageFile(args.path, args.filePath)
+  })
+
+  ipcMain.handle('git:unstage', async (_, args: { path: string; filePath: string }) => {
+    gitManager.unstageFile(args.path, args.filePath)
+  })
+
+  ipcMain.handle('git:discard', async (_, args: { path: string; filePath: string }) => {
+    gitManager.discardFile(args.path, args.filePath)
+  })
+
+  ipcMain.handle('git:hunks', async (_, args: { path: string; filePath: string }) => {
+    return gitManager.getHunks(args.path, args.filePath)
+  })
+
+  ipcMain.handle('git:stage-hunk', async (_, args: { path: string; filePath: string; hunkIndex: number; header: string }) => {
+    gitManager.stageHunk(args.path, args.filePath, args.hunkIndex, args.header)
+  })
+
+  ipcMain.handle('git:unstage-hunk', async (_, args: { path: string; filePath: string; hunkIndex: number; header: string }) => {
+    gitManager.unstageHunk(args.path, args.filePath, args.hunkIndex, args.header)
+  })
+
+  ipcMain.handle('git:commit', async (_, args: { path: string; message: string }) => {
+    return gitManager.commit(args.path, args.message)
+  })
+
+  ipcMain.handle('git:draft-commit-message', async (_, args: { sessionId: string; stagedFiles: string[] }) => {
+    return agentManager.draftCommitMessage(args.sessionId, args.stagedFiles)
+  })
 }
 
 function createMenu() {
@@ -321,10 +570,22 @@ function createMenu() {
 }
 
 app.whenReady().then(async () => {
+  // WHY: The CLI runs inside Electron rather than plain Node — better-sqlite3 is built
+  // against Electron's ABI, and the database lives under app.getPath('userData')
+  if (cliArgs) {
+    app.dock?.hide()
+    app.exit(await runCli(cliArgs))
+    return
+  }
+
   await initializeServices()
   setupIpcHandlers()
   createMenu()
   createWindow()
+  // WHY: Started after the window exists — a job that came due while the app was closed
+  // starts its session right away, and the sidebar should see it appear
+  scheduler.start()
+  retention.start()
 
   // Auto-updater (disabled in dev mode)
   if (!isDev) {
@@ -382,9 +643,15 @@ app.whenReady().then(async () => {
             })
             nativeUpdater.once('before-quit-for-update', () => {
               debug('updater', 'before-quit-for-update — cleaning up and exiting')
-              agentManager?.stopAll()
-              database?.close()
-              app.exit()
+              scheduler?.stop()
+              retention?.stop()
+              agentManager?.flushStreaming()
+              Promise.resolve(agentManager?.stopAll())
+                .catch(error => debug('updater', 'Stopping agents failed', { error: error instanceof Error ? error.message : String(error) }))
+                .finally(() => {
+                  database?.close()
+                  app.exit()
+                })
             })
           }
           autoUpdater.quitAndInstall()
@@ -408,7 +675,20 @@ app.on('window-all-closed', () => {
   }
 })
 
-app.on('before-quit', () => {
-  agentManager?.stopAll()
-  database?.close()
+let cleanedUp = false
+app.on('before-quit', (event) => {
+  if (cleanedUp) return
+  // WHY: Stopping agents is async and their turns write to the database as they end —
+  // quitting waits for that, then closes the database and quits for real
+  event.preventDefault()
+  scheduler?.stop()
+  retention?.stop()
+  agentManager?.flushStreaming()
+  Promise.resolve(agentManager?.stopAll())
+    .catch(error => debug('app', 'Stopping agents failed', { error: error instanceof Error ? error.message : String(error) }))
+    .finally(() => {
+      cleanedUp = true
+      database?.close()
+      app.quit()
+    })
 })
@@ -0,0 +1,158 @@
+import { Notification, type BrowserWindow, type NotificationConstructorOptions } from 'electron'
+import type { Database } from './database.js'
+import type { AgentManager } from './agent-manager.js'
+import type { ConfigManager } from './config-manager.js'
+import { debug } from './logger.js'
+import type { Session, PermissionRequest, PermissionKind } from './types.js'
+
+// Notification centers cut long bodies anyway — keep the start of the answer readable
+const MAX_DETAIL_LENGTH = 160
+
+const PERMISSION_VERBS: Record<PermissionKind, string> = {
+  shell: 'Run',
+  write: 'Edit',
+  read: 'Read',
+  url: 'Fetch',
+  mcp: 'Use',
+  'custom-tool': 'Use',
+}
+
+// WHY: Action buttons and inline replies only exist on macOS — elsewhere the
+// notification still names the session and clicking it opens the session
+export class NotificationManager {
+  private database: Database
+  private agentManager: AgentManager
+  private configManager: ConfigManager
+  private getWindow: () => BrowserWindow | null
+  // WHY: Electron stops delivering click/action/reply events once a Notification is
+  // garbage collected, so shown ones stay referenced — keyed by session for
+  // done/error (a newer one replaces the older) and by request id for permissions
+  private shown: Map<string, Notification> = new Map()
+
+  constructor(database: Database, agentManager: AgentManager, configManager: ConfigManager, getWindow: () => BrowserWindow | null) {
+    this.database = database
+    this.agentManager = agentManager
+    this.configManager = configManager
+    this.getWindow = getWindow
+  }
+
+  // Sees every event the main process sends to the renderer
+  handleEvent(event: string, data: unknown): void {
+    switch (event) {
+      case 'agent:done': {
+        const { sessionId, content, aborted } = data as { sessionId: string; content: string; aborted: boolean }
+        // The user stopped it themselves
+        if (!aborted) {
+          this.notifySession(sessionId, 'Finished', summarize(content))
+        }
+        break
+      }
+      case 'agent:error': {
+        const { sessionId, error } = data as { sessionId: string; error: string }
+        this.notifySession(sessionId, 'Failed', summarize(error))
+        break
+      }
+      case 'permission:request':
+        this.notifyPermission((data as { request: PermissionRequest }).request)
+        break
+      case 'permission:resolved':
+        // Answered in the app or by a broader decision — the question is moot
+        this.close((data as { requestId: string }).requestId)
+        break
+      case 'session:deleted':
+        // E.g. by the retention rules — clicking it would open nothing
+        this.close((data as { sessionId: string }).sessionId)
+        break
+    }
+  }
+
+  private notifySession(sessionId: string, status: string, detail: string): void {
+    const session = this.shouldNotify(sessionId)
+    if (!session) return
+    const notification = this.show(sessionId, session, status, detail, {
+      hasReply: true,
+      replyPlaceholder: 'Reply to the agent',
+    })
+    notification.on('reply', (_, reply) => {
+      this.close(sessionId)
+      if (!reply.trim()) return
+      debug('notify', 'Reply from notification', { sessionId })
+      // Sends right away unless another turn started in the meantime
+      this.agentManager.queueMessage(sessionId, reply.trim())
+    })
+  }
+
+  private notifyPermission(request: PermissionRequest): void {
+    const session = this.shouldNotify(request.sessionId)
+    if (!session) return
+    const detail = `${PERMISSION_VERBS[request.kind] ?? 'Use'} ${truncate(request.summary || request.target)}`
+    const notification = this.show(request.id, session, 'Needs permission', detail, {
+      actions: [{ type: 'button', text: 'Approve' }, { type: 'button', text: 'Deny' }],
+    })
+    notification.on('action', (_, index) => {
+      debug('notify', 'Permission answered from notification', { sessionId: request.sessionId, approved: index === 0 })
+      this.agentManager.respondToPermission(request.id, index === 0 ? 'allow-once' : 'deny')
+    })
+  }
+
+  // WHY: Nothing to announce when the user is looking at that very session — the
+  // chat already shows the answer or the permission prompt
+  private shouldNotify(sessionId: string): Session | null {
+    if (!this.configManager.get().notifications || !Notification.isSupported()) return null
+    const window = this.getWindow()
+    if (window?.isFocused() && this.agentManager.getViewedSession() === sessionId) return null
+    return this.database.getSession(sessionId)
+  }
+
+  private show(
+    key: string,
+    session: Session,
+    status: string,
+    detail: string,
+    options: Partial<NotificationConstructorOptions>
+  ): Notification {
+    this.close(key)
+    const workspaces = [session.workspace, ...(session.linkedWorkspaces ?? []).map(w => w.name)].filter(Boolean)
+    const notification = new Notification({
+      title: session.title,
+      body: `${status}${workspaces.length > 0 ? ` in ${workspaces.join(' + ')}` : ''}${detail ? `\n${detail}` : ''}`,
+      ...options,
+    })
+    notification.on('click', () => {
+      this.close(key)
+      this.openSession(session.id)
+    })
+    notification.on('close', () => {
+      if (this.shown.get(key) === notification) this.shown.delete(key)
+    })
+    this.shown.set(key, notification)
+    notification.show()
+    debug('notify', 'Notification shown', { sessionId: session.id, status })
+    return notification
+  }
+
+  private close(key: string): void {
+    const notification = this.shown.get(key)
+    if (!notification) return
+    this.shown.delete(key)
+    notification.close()
+  }
+
+  private openSession(sessionId: string): void {
+    const window = this.getWindow()
+    if (!window) return
+    if (window.isMinimized()) window.restore()
+    window.show()
+    window.focus()
+    window.webContents.send('session:open', { sessionId })
+  }
+}
+
+// First words of the answer, without markdown syntax
+function summarize(text: string): string {
+  return truncate(text.replace(/```[\s\S]*?(```|$)/g, ' ').replace(/^\s*(?:[-+>]|\d+\.)\s+/gm, '').replace(/[#*_`|]+/g, '').replace(/\s+/g, ' ').trim())
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_DETAIL_LENGTH ? `${text.slice(0, MAX_DETAIL_LENGTH - 1).trimEnd()}…` : text
+}
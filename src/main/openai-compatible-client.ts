@@ -0,0 +1,159 @@
+import { debug } from './logger.js'
+import type { AgentProvider, AgentProviderOptions, StreamEvent } from './agent-provider.js'
+import type { Attachment, OpenAICompatibleConfig } from './types.js'
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+// The parts of a streamed /chat/completions chunk this client reads
+interface ChatCompletionChunk {
+  model?: string
+  choices?: { delta?: { content?: string | null; reasoning_content?: string | null; reasoning?: string | null } }[]
+  usage?: { prompt_tokens?: number; completion_tokens?: number; prompt_tokens_details?: { cached_tokens?: number } } | null
+}
+
+// WHY: Chat only — an OpenAI-compatible server runs the model but not tools, so this
+// agent can answer and plan but can't read or change files. Tool permissions, env and
+// allowedTools therefore don't apply. The conversation lives in memory: after a restart
+// there is nothing to resume and AgentManager replays the history instead
+export class OpenAICompatibleClient implements AgentProvider {
+  private options: AgentProviderOptions
+  private server: OpenAICompatibleConfig | undefined
+  private messages: ChatMessage[] = []
+  private controller: AbortController | null = null
+
+  constructor(options: AgentProviderOptions = {}, server?: OpenAICompatibleConfig) {
+    this.options = options
+    this.server = server
+  }
+
+  get sessionId(): string | null {
+    return null
+  }
+
+  get wasResumed(): boolean {
+    return false
+  }
+
+  async init(): Promise<void> {
+    if (!this.server?.baseUrl) {
+      throw new Error('The openai-compatible provider needs openaiCompatible.baseUrl in ~/.accrew/config.json, e.g. "http://localhost:11434/v1"')
+    }
+    debug('openai', 'Initializing client', { baseUrl: this.server.baseUrl, model: this.options.model })
+    this.messages = this.options.systemMessage ? [{ role: 'system', content: this.options.systemMessage }] : []
+  }
+
+  async *chat(message: string, attachments: Attachment[] = []): AsyncGenerator<StreamEvent> {
+    if (!this.server?.baseUrl) {
+      throw new Error('OpenAICompatibleClient not initialized')
+    }
+    // The model can't open files — name them so it at least knows what the user means
+    const content = attachments.length > 0
+      ? `${message}\n\nAttached: ${attachments.map(a => a.path).join(', ')}`
+      : message
+    debug('openai', 'Sending chat message', { length: content.length, attachments: attachments.length })
+
+    const controller = new AbortController()
+    this.controller = controller
+    let answer = ''
+    try {
+      const response = await fetch(`${this.server.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.server.apiKey && { Authorization: `Bearer ${this.server.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: this.options.model,
+          messages: [...this.messages, { role: 'user', content }],
+          stream: true,
+          stream_options: { include_usage: true },
+        }),
+        signal: controller.signal,
+      })
+      if (!response.ok || !response.body) {
+        const detail = await response.text().catch(() => '')
+        throw new Error(`${this.server.baseUrl} answered ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 200)}` : ''}`)
+      }
+
+      for await (const chunk of readServerSentEvents(response.body)) {
+        const delta = chunk.choices?.[0]?.delta
+        const thinking = delta?.reasoning_content || delta?.reasoning
+        if (thinking) {
+          yield { type: 'thinking', content: thinking }
+        }
+        if (delta?.content) {
+          answer += delta.content
+          yield { type: 'text', content: delta.content }
+        }
+        if (chunk.usage) {
+          yield {
+            type: 'usage',
+            usage: {
+              model: chunk.model || this.options.model || 'unknown',
+              inputTokens: chunk.usage.prompt_tokens ?? 0,
+              outputTokens: chunk.usage.completion_tokens ?? 0,
+              cacheReadTokens: chunk.usage.prompt_tokens_details?.cached_tokens ?? 0,
+              cacheWriteTokens: 0,
+              premiumRequests: 0,
+            }
+          }
+        }
+      }
+    } catch (error) {
+      // WHY: An aborted turn ends quietly like the Copilot one does — the partial
+      // answer is kept and the conversation can continue
+      if (!controller.signal.aborted) throw error
+      debug('openai', 'Chat aborted', { answerLength: answer.length })
+    } finally {
+      if (this.controller === controller) this.controller = null
+    }
+
+    this.messages.push({ role: 'user', content }, { role: 'assistant', content: answer })
+  }
+
+  async abort(): Promise<void> {
+    debug('openai', 'Aborting chat')
+    this.controller?.abort()
+  }
+
+  async stop(): Promise<void> {
+    debug('openai', 'Stopping client')
+    this.controller?.abort()
+    this.messages = []
+  }
+}
+
+// Chunks of an OpenAI-style event stream: "data: {json}" lines, ending with "data: [DONE]"
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatCompletionChunk> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop()!
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '')
+        if (!line.trim().startsWith('data:') || !data) continue
+        if (data === '[DONE]') return
+        let chunk: ChatCompletionChunk
+        try {
+          chunk = JSON.parse(data)
+        } catch {
+          debug('openai', 'Skipping unparseable chunk', { data: data.slice(0, 100) })
+          continue
+        }
+        yield chunk
+      }
+    }
+  } finally {
+    // Frees the connection when the caller stops reading early
+    reader.cancel().catch(() => {})
+  }
+}
@@ -0,0 +1,118 @@
+import type { AgentManager } from './agent-manager.js'
+import type { AgentTool } from './agent-provider.js'
+import type { Database } from './database.js'
+import type { WorkspaceManager } from './workspace-manager.js'
+import type { Session } from './types.js'
+
+// A child's answer is cut here — the orchestrator needs the outcome, not every detail,
+// and several children's answers share its context window
+const MAX_RESULT_CHARS = 8000
+const DEFAULT_WAIT_SECONDS = 600
+const MAX_WAIT_SECONDS = 1800
+
+// Appended to the system agent's instructions, next to the tools below
+export const ORCHESTRATOR_INSTRUCTIONS = `You are Accrew's system agent. You don't work in a workspace yourself — you coordinate work across the user's workspaces by delegating it to sessions that run in them.
+- list_workspaces shows the workspaces there are. "@name" in a prompt refers to one of them.
+- spawn_session starts an agent in a workspace with a prompt you write. Give it everything it needs: it doesn't see this conversation. Independent tasks can run in parallel.
+- wait_for_sessions waits until the sessions you started finish their turn and returns their answers; read_session_result reads one answer again.
+When one change depends on another (e.g. a frontend adapting to a changed API), wait for the first session and put what it reports into the next one's prompt. Finish with a summary of what each session did.`
+
+// The tools that let a system agent session delegate to workspace sessions
+export function createOrchestratorTools(parentSessionId: string, agentManager: AgentManager, workspaceManager: WorkspaceManager, database: Database): AgentTool[] {
+  // WHY: Only the orchestrator's own children can be waited on or read — the
+  // conversations of the user's other sessions stay out of its reach
+  const child = (sessionId: unknown): Session => {
+    const session = typeof sessionId === 'string' ? database.getSession(sessionId) : null
+    if (!session || session.parentSessionId !== parentSessionId) {
+      throw new Error(`${String(sessionId)} is not a session you started — use the sessionId spawn_session returned`)
+    }
+    return session
+  }
+
+  const result = (session: Session) => {
+    const busy = agentManager.isBusy(session.id)
+    const answer = [...database.getMessages(session.id)].reverse().find(m => m.role === 'assistant')
+    const content = answer?.content ?? ''
+    return {
+      sessionId: session.id,
+      workspace: session.workspace,
+      title: session.title,
+      status: busy ? 'running' : session.status === 'error' ? 'failed' : 'finished',
+      ...(!busy && {
+        answer: content.length > MAX_RESULT_CHARS ? content.slice(0, MAX_RESULT_CHARS) + '…' : content,
+        changedFiles: (answer?.fileChanges ?? []).map(c => ({ path: c.path, type: c.type, ...(c.oldPath && { oldPath: c.oldPath }) }))
+      })
+    }
+  }
+
+  return [
+    {
+      name: 'list_workspaces',
+      description: 'List the workspaces (projects) sessions can be started in.',
+      parameters: { type: 'object', properties: {} },
+      handler: async () => {
+        const workspaces = await workspaceManager.listWorkspaces()
+        return workspaces.map(w => ({
+          name: w.displayName,
+          path: w.path,
+          ...(w.readme && { readme: w.readme.slice(0, 300) })
+        }))
+      }
+    },
+    {
+      name: 'spawn_session',
+      description: 'Start an agent session in a workspace with a prompt. Returns right away with the sessionId; the session runs in the background and shows up under this one in Accrew.',
+      parameters: {
+        type: 'object',
+        properties: {
+          workspace: { type: 'string', description: 'Workspace name from list_workspaces' },
+          prompt: { type: 'string', description: 'Complete instructions for the agent — it does not see this conversation' },
+          worktree: { type: 'boolean', description: 'Run in a git worktree of its own, leaving the workspace\'s working tree alone' }
+        },
+        required: ['workspace', 'prompt']
+      },
+      handler: async (args) => {
+        if (typeof args.workspace !== 'string' || typeof args.prompt !== 'string' || !args.prompt.trim()) {
+          throw new Error('workspace and prompt are required')
+        }
+        const session = await agentManager.spawnChildSession(parentSessionId, args.workspace, args.prompt, { worktree: args.worktree === true })
+        return { sessionId: session.id, workspace: session.workspace }
+      }
+    },
+    {
+      name: 'wait_for_sessions',
+      description: 'Wait until the given sessions have finished their current turn, then return their answers and changed files.',
+      parameters: {
+        type: 'object',
+        properties: {
+          sessionIds: { type: 'array', items: { type: 'string' }, description: 'Sessions started with spawn_session' },
+          timeoutSeconds: { type: 'number', description: `Give up waiting after this long; default ${DEFAULT_WAIT_SECONDS}, at most ${MAX_WAIT_SECONDS}` }
+        },
+        required: ['sessionIds']
+      },
+      handler: async (args) => {
+        const sessions = (Array.isArray(args.sessionIds) ? args.sessionIds : []).map(child)
+        if (sessions.length === 0) {
+          throw new Error('sessionIds is empty')
+        }
+        const seconds = typeof args.timeoutSeconds === 'number' && args.timeoutSeconds > 0
+          ? Math.min(args.timeoutSeconds, MAX_WAIT_SECONDS)
+          : DEFAULT_WAIT_SECONDS
+        await agentManager.waitForSessions(parentSessionId, sessions.map(s => s.id), seconds * 1000)
+        return sessions.map(s => result(database.getSession(s.id) ?? s))
+      }
+    },
+    {
+      name: 'read_session_result',
+      description: 'Read the latest answer and changed files of a session you started, without waiting.',
+      parameters: {
+        type: 'object',
+        properties: {
+          sessionId: { type: 'string' }
+        },
+        required: ['sessionId']
+      },
+      handler: async (args) => result(child(args.sessionId))
+    }
+  ]
+}
@@ -1,17 +1,18 @@
-const { contextBridge, ipcRenderer, shell } = require('electron')
+const { contextBridge, ipcRenderer, shell, webUtils } = require('electron')
 
 const api = {
   // Shell operations
   shell: {
     // WHY: Open links in default system browser instead of inside Electron app
     openExternal: (url) => shell.openExternal(url),
+    openPath: (path) => shell.openPath(path),
   },
   // Session operations
   session: {
-    create: (workspace, prompt, sessionId) => 
-      ipcRenderer.invoke('session:create', { workspace, prompt, sessionId }),
-    send: (sessionId, content) => 
-      ipcRenderer.invoke('session:send', { sessionId, content }),
+    create: (workspace, prompt, sessionId, worktree, attachments) => 
+      ipcRenderer.invoke('session:create', { workspace, prompt, sessionId, worktree, attachments }),
+    send: (sessionId, content, attachments) => 
+      ipcRenderer.invoke('session:send', { sessionId, content, attachments }),
     abort: (sessionId) => 
       ipcRenderer.invoke('session:abort', { sessionId }),
     list: () => 
@@ -30,8 +31,117 @@ const api = {
       ipcRenderer.invoke('session:archive', { sessionId }),
     unarchive: (sessionId) => 
       ipcRenderer.invoke('session:unarchive', { sessionId }),
+    setPinned: (sessionId, pinned) =>
+      ipcRenderer.invoke('session:set-pinned', { sessionId, pinned }),
+    mergeWorktree: (sessionId) =>
+      ipcRenderer.invoke('session:merge-worktree', { sessionId }),
+    discardWorktree: (sessionId) =>
+      ipcRenderer.invoke('session:discard-worktree', { sessionId }),
+    fork: (sessionId, messageId) =>
+      ipcRenderer.invoke('session:fork', { sessionId, messageId }),
+    editMessage: (sessionId, messageId, content, mode, options) =>
+      ipcRenderer.invoke('session:edit-message', { sessionId, messageId, content, mode, ...options }),
     regenerateTitle: (sessionId) =>
       ipcRenderer.invoke('session:regenerate-title', { sessionId }),
+    search: (query, limit) =>
+      ipcRenderer.invoke('session:search', { query, limit }),
+    export: (sessionId, format) =>
+      ipcRenderer.invoke('session:export', { sessionId, format }),
+    import: () =>
+      ipcRenderer.invoke('session:import'),
+  },
+
+  // Tool permission operations
+  permission: {
+    respond: (requestId, decision) =>
+      ipcRenderer.invoke('permission:respond', { requestId, decision }),
+    pending: () =>
+      ipcRenderer.invoke('permission:pending'),
+    rules: () =>
+      ipcRenderer.invoke('permission:rules'),
+    deleteRule: (id) =>
+      ipcRenderer.invoke('permission:delete-rule', { id }),
+  },
+
+  // Turn checkpoint operations
+  checkpoint: {
+    revert: (messageId, force) =>
+      ipcRenderer.invoke('checkpoint:revert', { messageId, force }),
+  },
+
+  // Message queue operations
+  queue: {
+    list: () =>
+      ipcRenderer.invoke('queue:list'),
+    add: (sessionId, content, attachments) =>
+      ipcRenderer.invoke('queue:add', { sessionId, content, attachments }),
+    update: (sessionId, id, content) =>
+      ipcRenderer.invoke('queue:update', { sessionId, id, content }),
+    remove: (sessionId, id) =>
+      ipcRenderer.invoke('queue:remove', { sessionId, id }),
+    move: (sessionId, id, toIndex) =>
+      ipcRenderer.invoke('queue:move', { sessionId, id, toIndex }),
+    sendNow: (sessionId, id) =>
+      ipcRenderer.invoke('queue:send-now', { sessionId, id }),
+  },
+
+  // Run queue — turns waiting for a free run slot
+  run: {
+    list: () =>
+      ipcRenderer.invoke('run:list'),
+    prioritize: (sessionId) =>
+      ipcRenderer.invoke('run:prioritize', { sessionId }),
+    cancel: (sessionId) =>
+      ipcRenderer.invoke('run:cancel', { sessionId }),
+  },
+
+  // Usage operations
+  usage: {
+    summary: (days) =>
+      ipcRenderer.invoke('usage:summary', { days }),
+  },
+
+  // Session retention
+  retention: {
+    preview: (rules) =>
+      ipcRenderer.invoke('retention:preview', rules),
+  },
+
+  // Scheduled jobs
+  schedule: {
+    list: () =>
+      ipcRenderer.invoke('schedule:list'),
+    create: (prompt, scheduleText, worktree) =>
+      ipcRenderer.invoke('schedule:create', { prompt, scheduleText, worktree }),
+    preview: (scheduleText) =>
+      ipcRenderer.invoke('schedule:preview', { scheduleText }),
+    setEnabled: (id, enabled) =>
+      ipcRenderer.invoke('schedule:set-enabled', { id, enabled }),
+    delete: (id) =>
+      ipcRenderer.invoke('schedule:delete', { id }),
+    runNow: (id) =>
+      ipcRenderer.invoke('schedule:run-now', { id }),
+  },
+
+  // Attachment operations
+  attachments: {
+    // WHY: Electron no longer exposes File.path to the renderer — resolve it here.
+    // Returns '' for content that isn't a file on disk (pasted screenshots)
+    pathForFile: (file) => webUtils.getPathForFile(file),
+    fromPaths: (paths) =>
+      ipcRenderer.invoke('attachment:from-paths', { paths }),
+    save: (name, data, mimeType) =>
+      ipcRenderer.invoke('attachment:save', { name, data, mimeType }),
+    pick: (defaultPath) =>
+      ipcRenderer.invoke('attachment:pick', { defaultPath }),
+  },
+
+  // Prompt template operations
+  prompts: {
+    list: (scope) =>
+      ipcRenderer.invoke('prompt:list', scope),
+    expand: (content, scope) =>
+      ipcRenderer.invoke('prompt:expand', { ...scope, content }),
   },
 
   // Workspace operations
@@ -72,6 +182,22 @@ const api = {
       ipcRenderer.invoke('git:status', { path }),
     diff: (path, filePath) =>
       ipcRenderer.invoke('git:diff', { path, filePath }),
+    stage: (path, filePath) =>
+      ipcRenderer.invoke('git:stage', { path, filePath }),
+    unstage: (path, filePath) =>
+      ipcRenderer.invoke('git:unstage', { path, filePath }),
+    discard: (path, filePath) =>
+      ipcRenderer.invoke('git:discard', { path, filePath }),
+    hunks: (path, filePath) =>
+      ipcRenderer.invoke('git:hunks', { path, filePath }),
+    stageHunk: (path, filePath, hunkIndex, header) =>
+      ipcRenderer.invoke('git:stage-hunk', { path, filePath, hunkIndex, header }),
+    unstageHunk: (path, filePath, hunkIndex, header) =>
+      ipcRenderer.invoke('git:unstage-hunk', { path, filePath, hunkIndex, header }),
+    commit: (path, message) =>
+      ipcRenderer.invoke('git:commit', { path, message }),
+    draftCommitMessage: (sessionId, stagedFiles) =>
+      ipcRenderer.invoke('git:draft-commit-message', { sessionId, stagedFiles }),
   },
 
   // Theme
@@ -133,6 +259,51 @@ const api = {
       ipcRenderer.on('session:updated', listener)
       return () => ipcRenderer.removeListener('session:updated', listener)
     },
+    sessionCreated: (callback) => {
+      const listener = (_, data) => callback(data)
+      ipcRenderer.on('session:created', listener)
+      return () => ipcRenderer.removeListener('session:created', listener)
+    },
+    permissionRequest: (callback) => {
+      const listener = (_, data) => callback(data)
+      ipcRenderer.on('permission:request', listener)
+      return () => ipcRenderer.removeListener('permission:request', listener)
+    },
+    permissionResolved: (callback) => {
+      const listener = (_, data) => callback(data)
+      ipcRenderer.on('permission:resolved', listener)
+      return () => ipcRenderer.removeListener('permission:resolved', listener)
+    },
+    queueUpdated: (callback) => {
+      const listener = (_, data) => callback(data)
+      ipcRenderer.on('queue:updated', listener)
+      return () => ipcRenderer.removeListener('queue:updated', listener)
+    },
+    queueSent: (callback) => {
+      const listener = (_, data) => callback(data)
+      ipcRenderer.on('queue:sent', listener)
+      return () => ipcRenderer.removeListener('queue:sent', listener)
+    },
+    scheduleUpdated: (callback) => {
+      const listener = (_, data) => callback(data)
+      ipcRenderer.on('schedule:updated', listener)
+      return () => ipcRenderer.removeListener('schedule:updated', listener)
+    },
+    sessionOpen: (callback) => {
+      const listener = (_, data) => callback(data)
+      ipcRenderer.on('session:open', listener)
+      return () => ipcRenderer.removeListener('session:open', listener)
+    },
+    sessionDeleted: (callback) => {
+      const listener = (_, data) => callback(data)
+      ipcRenderer.on('session:deleted', listener)
+      return () => ipcRenderer.removeListener('session:deleted', listener)
+    },
+    runQueueUpdated: (callback) => {
+      const listener = (_, data) => callback(data)
+      ipcRenderer.on('run:queue-updated', listener)
+      return () => ipcRenderer.removeListener('run:queue-updated', listener)
+    },
     themeChanged: (callback) => {
       const listener = (_, theme) => callback(theme)
       ipcRenderer.on('theme:changed', listener)
@@ -1,5 +1,6 @@
-import { contextBridge, ipcRenderer, shell } from 'electron'
-import type { Session, Message, Workspace, Config, WorkspaceMatch, FileChange, ToolCall } from './types.js'
+import { contextBridge, ipcRenderer, shell, webUtils } from 'electron'
+import type { Session, Message, Workspace, Config, WorkspaceMatch, FileChange, ToolCall, PermissionRequest, PermissionDecision, PermissionRule, SearchResult, RevertResult, QueuedMessage, QueuedRun, UsageSummary, SessionExportFormat, PromptTemplate, PromptScope, Attachment, ScheduledJob, MessageEditMode, EditResult, RetentionRules, RetentionPreview } from './types.js'
+import type { GitFileStatus, GitFileHunks } from './git-manager.js'
 
 export type AccrewAPI = typeof api
 
@@ -8,13 +9,14 @@ const api = {
   shell: {
     // WHY: Open links in default system browser instead of inside Electron app
     openExternal: (url: string) => shell.openExternal(url),
+    openPath: (path: string) => shell.openPath(path),
   },
   // Session operations
   session: {
-    create: (workspace: string | undefined, prompt: string, sessionId: string) => 
-      ipcRenderer.invoke('session:create', { workspace, prompt, sessionId }) as Promise<Session>,
-    send: (sessionId: string, content: string) => 
-      ipcRenderer.invoke('session:send', { sessionId, content }) as Promise<void>,
+    create: (workspace: string | undefined, prompt: string, sessionId: string, worktree?: boolean, attachments?: Attachment[]) => 
+      ipcRenderer.invoke('session:create', { workspace, prompt, sessionId, worktree, attachments }) as Promise<Session>,
+    send: (sessionId: string, content: string, attachments?: Attachment[]) => 
+      ipcRenderer.invoke('session:send', { sessionId, content, attachments }) as Promise<void>,
     abort: (sessionId: string) =>
       ipcRenderer.invoke('session:abort', { sessionId }) as Promise<void>,
     list: () => 
@@ -33,8 +35,118 @@ const api = {
       ipcRenderer.invoke('session:archive', { sessionId }) as Promise<Session>,
     unarchive: (sessionId: string) =>
       ipcRenderer.invoke('session:unarchive', { sessionId }) as Promise<Session>,
+    setPinned: (sessionId: string, pinned: boolean) =>
+      ipcRenderer.invoke('session:set-pinned', { sessionId, pinned }) as Promise<Session>,
+    mergeWorktree: (sessionId: string) =>
+      ipcRenderer.invoke('session:merge-worktree', { sessionId }) as Promise<Session>,
+    discardWorktree: (sessionId: string) =>
+      ipcRenderer.invoke('session:discard-worktree', { sessionId }) as Promise<Session>,
+    fork: (sessionId: string, messageId: string) =>
+      ipcRenderer.invoke('session:fork', { sessionId, messageId }) as Promise<Session>,
+    editMessage: (sessionId: string, messageId: string, content: string, mode: MessageEditMode, options?: { revert?: boolean; force?: boolean }) =>
+      ipcRenderer.invoke('session:edit-message', { sessionId, messageId, content, mode, ...options }) as Promise<EditResult>,
     regenerateTitle: (sessionId: string) =>
       ipcRenderer.invoke('session:regenerate-title', { sessionId }) as Promise<string | null>,
+    search: (query: string, limit?: number) =>
+      ipcRenderer.invoke('session:search', { query, limit }) as Promise<SearchResult[]>,
+    export: (sessionId: string, format: SessionExportFormat) =>
+      ipcRenderer.invoke('session:export', { sessionId, format }) as Promise<string | null>,
+    import: () =>
+      ipcRenderer.invoke('session:import') as Promise<Session | null>,
+  },
+
+  // Tool permission operations
+  permission: {
+    respond: (requestId: string, decision: PermissionDecision) =>
+      ipcRenderer.invoke('permission:respond', { requestId, decision }) as Promise<void>,
+    pending: () =>
+      ipcRenderer.invoke('permission:pending') as Promise<PermissionRequest[]>,
+    rules: () =>
+      ipcRenderer.invoke('permission:rules') as Promise<PermissionRule[]>,
+    deleteRule: (id: number) =>
+      ipcRenderer.invoke('permission:delete-rule', { id }) as Promise<PermissionRule[]>,
+  },
+
+  // Turn checkpoint operations
+  checkpoint: {
+    revert: (messageId: string, force?: boolean) =>
+      ipcRenderer.invoke('checkpoint:revert', { messageId, force }) as Promise<RevertResult>,
+  },
+
+  // Message queue operations
+  queue: {
+    list: () =>
+      ipcRenderer.invoke('queue:list') as Promise<Record<string, QueuedMessage[]>>,
+    add: (sessionId: string, content: string, attachments?: Attachment[]) =>
+      ipcRenderer.invoke('queue:add', { sessionId, content, attachments }) as Promise<QueuedMessage[]>,
+    update: (sessionId: string, id: string, content: string) =>
+      ipcRenderer.invoke('queue:update', { sessionId, id, content }) as Promise<QueuedMessage[]>,
+    remove: (sessionId: string, id: string) =>
+      ipcRenderer.invoke('queue:remove', { sessionId, id }) as Promise<QueuedMessage[]>,
+    move: (sessionId: string, id: string, toIndex: number) =>
+      ipcRenderer.invoke('queue:move', { sessionId, id, toIndex }) as Promise<QueuedMessage[]>,
+    sendNow: (sessionId: string, id: string) =>
+      ipcRenderer.invoke('queue:send-now', { sessionId, id }) as Promise<void>,
+  },
+
+  // Run queue — turns waiting for a free run slot
+  run: {
+    list: () =>
+      ipcRenderer.invoke('run:list') as Promise<QueuedRun[]>,
+    prioritize: (sessionId: string) =>
+      ipcRenderer.invoke('run:prioritize', { sessionId }) as Promise<void>,
+    cancel: (sessionId: string) =>
+      ipcRenderer.invoke('run:cancel', { sessionId }) as Promise<void>,
+  },
+
+  // Usage operations
+  usage: {
+    summary: (days?: number) =>
+      ipcRenderer.invoke('usage:summary', { days }) as Promise<UsageSummary>,
+  },
+
+  // Session retention
+  retention: {
+    // Pass rules to preview them before they're saved
+    preview: (rules?: Partial<RetentionRules>) =>
+      ipcRenderer.invoke('retention:preview', rules) as Promise<RetentionPreview>,
+  },
+
+  // Scheduled jobs
+  schedule: {
+    list: () =>
+      ipcRenderer.invoke('schedule:list') as Promise<ScheduledJob[]>,
+    create: (prompt: string, scheduleText: string, worktree?: boolean) =>
+      ipcRenderer.invoke('schedule:create', { prompt, scheduleText, worktree }) as Promise<ScheduledJob>,
+    preview: (scheduleText: string) =>
+      ipcRenderer.invoke('schedule:preview', { scheduleText }) as Promise<number | null>,
+    setEnabled: (id: string, enabled: boolean) =>
+      ipcRenderer.invoke('schedule:set-enabled', { id, enabled }) as Promise<void>,
+    delete: (id: string) =>
+      ipcRenderer.invoke('schedule:delete', { id }) as Promise<void>,
+    runNow: (id: string) =>
+      ipcRenderer.invoke('schedule:run-now', { id }) as Promise<string>,
+  },
+
+  // Attachment operations
+  attachments: {
+    // WHY: Electron no longer exposes File.path to the renderer — resolve it here.
+    // Returns '' for content that isn't a file on disk (pasted screenshots)
+    pathForFile: (file: File) => webUtils.getPathForFile(file),
+    fromPaths: (paths: string[]) =>
+      ipcRenderer.invoke('attachment:from-paths', { paths }) as Promise<Attachment[]>,
+    save: (name: string, data: ArrayBuffer, mimeType: string) =>
+      ipcRenderer.invoke('attachment:save', { name, data, mimeType }) as Promise<Attachment>,
+    pick: (defaultPath?: string) =>
+      ipcRenderer.invoke('attachment:pick', { defaultPath }) as Promise<Attachment[]>,
+  },
+
+  // Prompt template operations
+  prompts: {
+    list: (scope: PromptScope) =>
+      ipcRenderer.invoke('prompt:list', scope) as Promise<PromptTemplate[]>,
+    expand: (content: string, scope: PromptScope) =>
+      ipcRenderer.invoke('prompt:expand', { ...scope, content }) as Promise<string>,
   },
 
   // Workspace operations
@@ -65,6 +177,34 @@ const api = {
       ipcRenderer.invoke('file:get-diff', { sessionId, messageId, filePath }) as Promise<{ oldContent: string; newContent: string }>,
   },
 
+  // Git operations
+  git: {
+    isRepo: (path: string) =>
+      ipcRenderer.invoke('git:is-repo', { path }) as Promise<boolean>,
+    branch: (path: string) =>
+      ipcRenderer.invoke('git:branch', { path }) as Promise<string | null>,
+    status: (path: string) =>
+      ipcRenderer.invoke('git:status', { path }) as Promise<GitFileStatus[]>,
+    diff: (path: string, filePath: string) =>
+      ipcRenderer.invoke('git:diff', { path, filePath }) as Promise<string | null>,
+    stage: (path: string, filePath: string) =>
+      ipcRenderer.invoke('git:stage', { path, filePath }) as Promise<void>,
+    unstage: (path: string, filePath: string) =>
+      ipcRenderer.invoke('git:unstage', { path, filePath }) as Promise<void>,
+    discard: (path: string, filePath: string) =>
+      ipcRenderer.invoke('git:discard', { path, filePath }) as Promise<void>,
+    hunks: (path: string, filePath: string) =>
+      ipcRenderer.invoke('git:hunks', { path, filePath }) as Promise<GitFileHunks>,
+    stageHunk: (path: string, filePath: string, hunkIndex: number, header: string) =>
+      ipcRenderer.invoke('git:stage-hunk', { path, filePath, hunkIndex, header }) as Promise<void>,
+    unstageHunk: (path: string, filePath: string, hunkIndex: number, header: string) =>
+      ipcRenderer.invoke('git:unstage-hunk', { path, filePath, hunkIndex, header }) as Promise<void>,
+    commit: (path: string, message: string) =>
+      ipcRenderer.invoke('git:commit', { path, message }) as Promise<string>,
+    draftCommitMessage: (sessionId: string, stagedFiles: string[]) =>
+      ipcRenderer.invoke('git:draft-commit-message', { sessionId, stagedFiles }) as Promise<string>,
+  },
+
   // Theme
   theme: {
     get: () => 
@@ -124,6 +264,51 @@ const api = {
       ipcRenderer.on('session:updated', listener)
       return () => ipcRenderer.removeListener('session:updated', listener)
     },
+    sessionCreated: (callback: (data: { session: Session }) => void) => {
+      const listener = (_: unknown, data: { session: Session }) => callback(data)
+      ipcRenderer.on('session:created', listener)
+      return () => ipcRenderer.removeListener('session:created', listener)
+    },
+    permissionRequest: (callback: (data: { request: PermissionRequest }) => void) => {
+      const listener = (_: unknown, data: { request: PermissionRequest }) => callback(data)
+      ipcRenderer.on('permission:request', listener)
+      return () => ipcRenderer.removeListener('permission:request', listener)
+    },
+    permissionResolved: (callback: (data: { requestId: string; sessionId: string }) => void) => {
+      const listener = (_: unknown, data: { requestId: string; sessionId: string }) => callback(data)
+      ipcRenderer.on('permission:resolved', listener)
+      return () => ipcRenderer.removeListener('permission:resolved', listener)
+    },
+    queueUpdated: (callback: (data: { sessionId: string; queue: QueuedMessage[] }) => void) => {
+      const listener = (_: unknown, data: { sessionId: string; queue: QueuedMessage[] }) => callback(data)
+      ipcRenderer.on('queue:updated', listener)
+      return () => ipcRenderer.removeListener('queue:updated', listener)
+    },
+    queueSent: (callback: (data: { sessionId: string; message: Message }) => void) => {
+      const listener = (_: unknown, data: { sessionId: string; message: Message }) => callback(data)
+      ipcRenderer.on('queue:sent', listener)
+      return () => ipcRenderer.removeListener('queue:sent', listener)
+    },
+    scheduleUpdated: (callback: (data: { jobs: ScheduledJob[] }) => void) => {
+      const listener = (_: unknown, data: { jobs: ScheduledJob[] }) => callback(data)
+      ipcRenderer.on('schedule:updated', listener)
+      return () => ipcRenderer.removeListener('schedule:updated', listener)
+    },
+    sessionOpen: (callback: (data: { sessionId: string }) => void) => {
+      const listener = (_: unknown, data: { sessionId: string }) => callback(data)
+      ipcRenderer.on('session:open', listener)
+      return () => ipcRenderer.removeListener('session:open', listener)
+    },
+    sessionDeleted: (callback: (data: { sessionId: string }) => void) => {
+      const listener = (_: unknown, data: { sessionId: string }) => callback(data)
+      ipcRenderer.on('session:deleted', listener)
+      return () => ipcRenderer.removeListener('session:deleted', listener)
+    },
+    runQueueUpdated: (callback: (data: { runs: QueuedRun[] }) => void) => {
+      const listener = (_: unknown, data: { runs: QueuedRun[] }) => callback(data)
+      ipcRenderer.on('run:queue-updated', listener)
+      return () => ipcRenderer.removeListener('run:queue-updated', listener)
+    },
     themeChanged: (callback: (theme: 'light' | 'dark') => void) => {
       const listener = (_: unknown, theme: 'light' | 'dark') => callback(theme)
       ipcRenderer.on('theme:changed', listener)
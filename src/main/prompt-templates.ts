@@ -0,0 +1,147 @@
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+import type { Database } from './database.js'
+import type { WorkspaceManager } from './workspace-manager.js'
+import type { PromptTemplate, PromptScope } from './types.js'
+
+const GLOBAL_PROMPTS_DIR = path.join(os.homedir(), '.accrew', 'prompts')
+// Same location VS Code uses for Copilot prompt files, so a repo's existing prompts just work
+const WORKSPACE_PROMPTS_DIR = path.join('.github', 'prompts')
+
+// {{name}} or {{name:default}}
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w-]+)\s*(?::([^}]*))?\}\}/g
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/
+// Receives the free text typed after the command
+const INPUT_PLACEHOLDER = 'input'
+
+interface LoadedTemplate extends PromptTemplate {
+  body: string
+  defaults: Record<string, string>
+}
+
+export class PromptTemplateManager {
+  private database: Database
+  private workspaceManager: WorkspaceManager
+
+  constructor(database: Database, workspaceManager: WorkspaceManager) {
+    this.database = database
+    this.workspaceManager = workspaceManager
+  }
+
+  async list(scope: PromptScope): Promise<PromptTemplate[]> {
+    const templates = await this.load(scope)
+    return [...templates.values()]
+      .map(({ body, defaults, ...template }) => template)
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  // Turns "/name free text key=value" into the template's text. A leading @workspace
+  // mention is kept and picks whose templates apply. Anything that isn't a known
+  // command is returned unchanged.
+  async expand(content: string, scope: PromptScope): Promise<string> {
+    const match = content.match(/^(@\S+\s+)?\/([\w.-]+)(?:\s+([\s\S]*))?$/)
+    if (!match) return content
+    const [, mention = '', name, args = ''] = match
+
+    const templates = await this.load(mention ? { ...scope, workspace: mention.trim().slice(1) } : scope)
+    // WHY: Unknown commands pass through — a prompt can legitimately start with a slash
+    const template = templates.get(name)
+    if (!template) return content
+
+    return mention + fillTemplate(template, args.trim())
+  }
+
+  // WHY: Read from disk on every call — templates are a handful of small files, and
+  // edits should apply on the next prompt without restarting the app
+  private async load(scope: PromptScope): Promise<Map<string, LoadedTemplate>> {
+    const templates = new Map<string, LoadedTemplate>()
+    for (const template of readTemplates(GLOBAL_PROMPTS_DIR, 'global')) {
+      templates.set(template.name, template)
+    }
+    const workspacePath = await this.resolveWorkspacePath(scope)
+    if (workspacePath) {
+      // Workspace templates replace global ones with the same name
+      for (const template of readTemplates(path.join(workspacePath, WORKSPACE_PROMPTS_DIR), 'workspace')) {
+        templates.set(template.name, template)
+      }
+    }
+    return templates
+  }
+
+  private async resolveWorkspacePath(scope: PromptScope): Promise<string | null> {
+    if (scope.sessionId) {
+      return this.database.getSession(scope.sessionId)?.workspacePath ?? null
+    }
+    if (scope.workspace) {
+      return (await this.workspaceManager.getWorkspace(scope.workspace))?.path ?? null
+    }
+    return null
+  }
+}
+
+function readTemplates(dir: string, source: PromptTemplate['source']): LoadedTemplate[] {
+  if (!fs.existsSync(dir)) return []
+
+  const templates: LoadedTemplate[] = []
+  for (const file of fs.readdirSync(dir)) {
+    const name = file.replace(/(\.prompt)?\.md$/, '')
+    // Names become "/name" — skip non-Markdown files and names that can't be typed as one word
+    if (name === file || !/^[\w.-]+$/.test(name)) continue
+
+    const filePath = path.join(dir, file)
+    let text: string
+    try {
+      text = fs.readFileSync(filePath, 'utf-8')
+    } catch {
+      continue
+    }
+
+    const frontmatter = text.match(FRONTMATTER_PATTERN)
+    const body = frontmatter ? text.slice(frontmatter[0].length) : text
+    const description = frontmatter?.[1].match(/^description:\s*(.+)$/m)?.[1].trim().replace(/^(['"])(.*)\1$/, '$2') || null
+
+    const placeholders: string[] = []
+    const defaults: Record<string, string> = {}
+    for (const [, key, fallback] of body.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!placeholders.includes(key)) placeholders.push(key)
+      if (fallback !== undefined && !(key in defaults)) defaults[key] = fallback
+    }
+
+    templates.push({ name, description, placeholders, source, path: filePath, body: body.trim(), defaults })
+  }
+  return templates
+}
+
+// WHY: Free text goes to {{input}}, or to the only placeholder still missing a value,
+// or is appended — so "/review-pr 42" works without having to type "pr=42"
+function fillTemplate(template: LoadedTemplate, args: string): string {
+  const values: Record<string, string> = {}
+  // Only keys the template knows are taken as values; other "a=b" text stays in the prompt
+  const freeText = args.replace(/(^|\s)([\w-]+)=(?:"([^"]*)"|(\S*))/g, (whole, lead: string, key: string, quoted?: string, bare?: string) => {
+    if (!template.placeholders.includes(key)) return whole
+    values[key] = quoted ?? bare ?? ''
+    return lead
+  }).trim()
+
+  let append = ''
+  if (freeText) {
+    const unfilled = template.placeholders.filter(key => !(key in values) && !(key in template.defaults))
+    if (template.placeholders.includes(INPUT_PLACEHOLDER) && !(INPUT_PLACEHOLDER in values)) {
+      values[INPUT_PLACEHOLDER] = freeText
+    } else if (unfilled.length === 1) {
+      values[unfilled[0]] = freeText
+    } else {
+      append = freeText
+    }
+  }
+
+  const missing = template.placeholders.filter(key => !(key in values) && !(key in template.defaults))
+  if (missing.length > 0) {
+    const needed = missing.map(key => key === INPUT_PLACEHOLDER ? 'text after the command' : `${key}=…`)
+    throw new Error(`/${template.name} needs ${needed.join(', ')}`)
+  }
+
+  const text = template.body.replace(PLACEHOLDER_PATTERN, (_, key: string) => values[key] ?? template.defaults[key])
+  return append ? `${text}\n\n${append}` : text
+}
@@ -0,0 +1,99 @@
+import fs from 'fs'
+import path from 'path'
+import { debug } from './logger.js'
+import type { StreamEvent, ToolPermissionRequest } from './agent-provider.js'
+
+// Stands in for the recording's working directory, so a fixture replays in any workspace
+const WORKSPACE_PLACEHOLDER = '{{workspace}}'
+
+// One step of a turn; delay is the time since the previous step, in ms
+export type FixtureStep =
+  | { delay: number; event: StreamEvent }
+  | { delay: number; permission: ToolPermissionRequest }
+
+export interface FixtureTurn {
+  // Case-insensitive regex — a matching prompt gets this turn wherever it is in the file.
+  // Turns without one answer the other prompts in order
+  match?: string
+  prompt?: string // What was sent when it was recorded, for reference
+  steps: FixtureStep[]
+}
+
+export interface ReplayFixture {
+  version: 1
+  turns: FixtureTurn[]
+}
+
+export function loadFixture(filePath: string): ReplayFixture {
+  let fixture: ReplayFixture
+  try {
+    fixture = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+  } catch (error) {
+    throw new Error(`Can't read replay fixture ${filePath}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  if (fixture?.version !== 1 || !Array.isArray(fixture.turns)) {
+    throw new Error(`${filePath} is not a replay fixture`)
+  }
+  return fixture
+}
+
+// Put the replaying session's working directory where the recording's was
+export function resolveWorkspace<T>(value: T, workingDirectory: string): T {
+  const escaped = JSON.stringify(workingDirectory).slice(1, -1)
+  return JSON.parse(JSON.stringify(value).split(WORKSPACE_PLACEHOLDER).join(escaped))
+}
+
+// Captures what one conversation streamed, with its timing, as a replay fixture.
+// The file is rewritten after every turn, so a crash loses at most the turn in flight
+export class FixtureRecorder {
+  private filePath: string
+  private workingDirectory: string | undefined
+  private fixture: ReplayFixture = { version: 1, turns: [] }
+  private turn: FixtureTurn | null = null
+  private lastStepAt = 0
+
+  constructor(directory: string, workingDirectory?: string) {
+    this.filePath = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}.json`)
+    this.workingDirectory = workingDirectory
+  }
+
+  startTurn(prompt: string): void {
+    this.turn = { prompt: this.anonymize(prompt), steps: [] }
+    this.lastStepAt = Date.now()
+  }
+
+  recordEvent(event: StreamEvent): void {
+    this.record(delay => ({ delay, event: this.anonymize(event) }))
+  }
+
+  recordPermission(permission: ToolPermissionRequest): void {
+    this.record(delay => ({ delay, permission: this.anonymize(permission) }))
+  }
+
+  endTurn(): void {
+    if (!this.turn) return
+    this.fixture.turns.push(this.turn)
+    this.turn = null
+    // WHY: A failed write must not fail the turn being recorded — the fixture is a side product
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      fs.writeFileSync(this.filePath, JSON.stringify(this.fixture, null, 2))
+      debug('fixture', 'Turn recorded', { filePath: this.filePath, turns: this.fixture.turns.length })
+    } catch (error) {
+      debug('fixture', 'Recording failed', { filePath: this.filePath, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  private record(step: (delay: number) => FixtureStep): void {
+    if (!this.turn) return
+    const now = Date.now()
+    this.turn.steps.push(step(now - this.lastStepAt))
+    this.lastStepAt = now
+  }
+
+  private anonymize<T>(value: T): T {
+    if (!this.workingDirectory) return value
+    const escaped = JSON.stringify(this.workingDirectory).slice(1, -1)
+    return JSON.parse(JSON.stringify(value).split(escaped).join(WORKSPACE_PLACEHOLDER))
+  }
+}
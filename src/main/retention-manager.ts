@@ -0,0 +1,99 @@
+import type { Database } from './database.js'
+import type { AgentManager } from './agent-manager.js'
+import type { ConfigManager, WorkspaceSettings } from './config-manager.js'
+import { debug } from './logger.js'
+import type { Config, RetentionPreview, RetentionRules } from './types.js'
+
+type EventEmitter = (event: string, data: unknown) => void
+
+// Retention is counted in days — checking more often than hourly changes nothing
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Archives idle sessions and deletes long-archived ones. Pinned sessions are never
+// touched; each workspace may set its own archiveAfterDays/deleteAfterDays
+export class RetentionManager {
+  private database: Database
+  private agentManager: AgentManager
+  private configManager: ConfigManager
+  private emit: EventEmitter
+  private timer: ReturnType<typeof setInterval> | null = null
+  private cleaning = false
+
+  constructor(database: Database, agentManager: AgentManager, configManager: ConfigManager, emit: EventEmitter) {
+    this.database = database
+    this.agentManager = agentManager
+    this.configManager = configManager
+    this.emit = emit
+  }
+
+  // The startup pass is awaited separately so unused attachments can be pruned after it
+  start(): void {
+    if (this.timer) return
+    this.timer = setInterval(() => this.cleanup(), CLEANUP_INTERVAL_MS)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  // What a cleanup would remove right now; `rules` previews global settings not saved yet
+  preview(rules?: Partial<RetentionRules>): RetentionPreview {
+    return this.plan({ ...this.configManager.get(), ...rules })
+  }
+
+  async cleanup(): Promise<{ archived: number; deleted: number }> {
+    if (this.cleaning) return { archived: 0, deleted: 0 }
+    this.cleaning = true
+    try {
+      const plan = this.plan(this.configManager.get())
+      for (const session of plan.archive) {
+        this.database.archiveSession(session.id)
+        this.emit('session:updated', { session: this.database.getSession(session.id) })
+      }
+      for (const session of plan.delete) {
+        // Through the agent manager so a worktree the session made is removed with it
+        await this.agentManager.deleteSession(session.id)
+        this.emit('session:deleted', { sessionId: session.id })
+      }
+      if (plan.archive.length > 0 || plan.delete.length > 0) {
+        debug('retention', 'Sessions cleaned up', { archived: plan.archive.length, deleted: plan.delete.length })
+      }
+      return { archived: plan.archive.length, deleted: plan.delete.length }
+    } finally {
+      this.cleaning = false
+    }
+  }
+
+  private plan(globals: Config): RetentionPreview {
+    const now = Date.now()
+    const settings = new Map<string, WorkspaceSettings>()
+    const result: RetentionPreview = { archive: [], delete: [] }
+    const viewed = this.agentManager.getViewedSession()
+
+    for (const session of this.database.getSessions()) {
+      // WHY: The session on screen is in use even when nobody typed in it for days
+      if (session.pinned || session.id === viewed) continue
+      const key = `${session.workspace}:${session.workspacePath}`
+      if (!settings.has(key)) {
+        settings.set(key, this.configManager.forWorkspace(session.workspace, session.workspacePath, globals))
+      }
+      const { archiveAfterDays, deleteAfterDays } = settings.get(key)!
+
+      if (session.status === 'archived') {
+        // updated_at is set when a session is archived, so this counts time in the archive
+        if (deleteAfterDays > 0 && session.updatedAt < now - deleteAfterDays * DAY_MS) {
+          result.delete.push(session)
+        }
+      } else if (archiveAfterDays > 0 && session.updatedAt < now - archiveAfterDays * DAY_MS) {
+        // A running agent keeps its session out of the archive until it finishes
+        if (this.agentManager.isBusy(session.id)) continue
+        result.archive.push(session)
+      }
+    }
+    return result
+  }
+}
@@ -0,0 +1,287 @@
+import { v4 as uuid } from 'uuid'
+import type { Database } from './database.js'
+import type { AgentManager } from './agent-manager.js'
+import type { PromptTemplateManager } from './prompt-templates.js'
+import { debug } from './logger.js'
+import type { JobSchedule, ScheduledJob } from './types.js'
+
+type EventEmitter = (event: string, data: unknown) => void
+
+// WHY: Poll instead of arming a timer for the next run — a timer set hours ahead drifts
+// or fires late after the machine sleeps, while a short poll notices due jobs within
+// half a minute of waking up
+const CHECK_INTERVAL_MS = 30_000
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+const WEEKDAYS = [1, 2, 3, 4, 5]
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6]
+// When the text doesn't say what time
+const DEFAULT_TIME = { hour: 9, minute: 0 }
+const TONIGHT = { hour: 22, minute: 0 }
+
+export class Scheduler {
+  private database: Database
+  private agentManager: AgentManager
+  private promptTemplates: PromptTemplateManager
+  private emit: EventEmitter
+  private timer: ReturnType<typeof setInterval> | null = null
+  private checking = false
+
+  constructor(database: Database, agentManager: AgentManager, promptTemplates: PromptTemplateManager, emit: EventEmitter) {
+    this.database = database
+    this.agentManager = agentManager
+    this.promptTemplates = promptTemplates
+    this.emit = emit
+  }
+
+  // Runs anything that came due while the app was closed, then keeps checking
+  start(): void {
+    if (this.timer) return
+    this.check()
+    this.timer = setInterval(() => this.check(), CHECK_INTERVAL_MS)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  list(): ScheduledJob[] {
+    return this.database.getScheduledJobs()
+  }
+
+  create(prompt: string, scheduleText: string, worktree = false): ScheduledJob {
+    if (!prompt.trim()) {
+      throw new Error('The prompt is empty')
+    }
+    const schedule = parseSchedule(scheduleText)
+    const job: ScheduledJob = {
+      id: uuid(),
+      prompt: prompt.trim(),
+      schedule,
+      scheduleText: scheduleText.trim(),
+      worktree,
+      enabled: true,
+      nextRunAt: firstRun(schedule, Date.now()),
+      lastRunAt: null,
+      lastSessionId: null,
+      lastError: null,
+      createdAt: Date.now()
+    }
+    this.database.addScheduledJob(job)
+    debug('scheduler', 'Job created', { id: job.id, schedule: job.scheduleText, nextRunAt: job.nextRunAt })
+    this.emitJobs()
+    return job
+  }
+
+  // Next run for schedule text, so the form can confirm what it understood
+  preview(scheduleText: string): number | null {
+    return firstRun(parseSchedule(scheduleText), Date.now())
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    const job = this.database.getScheduledJob(id)
+    if (!job) return
+    // WHY: Re-enabling starts from now — runs skipped while paused were skipped on purpose
+    const nextRunAt = enabled ? nextRunAfter(job.schedule, Date.now()) : job.nextRunAt
+    this.database.updateScheduledJob(id, { enabled, nextRunAt })
+    this.emitJobs()
+  }
+
+  delete(id: string): void {
+    this.database.deleteScheduledJob(id)
+    this.emitJobs()
+  }
+
+  // Start a session for the job right away; its schedule is left as it was
+  async runNow(id: string): Promise<string> {
+    const job = this.database.getScheduledJob(id)
+    if (!job) {
+      throw new Error('Scheduled job not found')
+    }
+    return this.run(job)
+  }
+
+  private async check(): Promise<void> {
+    // A slow run (workspace matching, worktree setup) must not let the next poll start it twice
+    if (this.checking) return
+    this.checking = true
+    try {
+      const now = Date.now()
+      const due = this.database.getScheduledJobs().filter(job => job.enabled && job.nextRunAt !== null && job.nextRunAt <= now)
+      for (const job of due) {
+        // WHY: A job that missed several runs while the app was closed runs once — a
+        // daily audit shouldn't start a session for every day the laptop was shut
+        if (now - job.nextRunAt! > CHECK_INTERVAL_MS * 2) {
+          debug('scheduler', 'Catching up on missed run', { id: job.id, dueAt: job.nextRunAt })
+        }
+        // Advance before running so a crash mid-run doesn't repeat it on the next start
+        const nextRunAt = nextRunAfter(job.schedule, now)
+        this.database.updateScheduledJob(job.id, { nextRunAt, ...(nextRunAt === null && { enabled: false }) })
+        try {
+          await this.run(job)
+        } catch {
+          // Recorded on the job by run()
+        }
+      }
+    } finally {
+      this.checking = false
+    }
+  }
+
+  private async run(job: ScheduledJob): Promise<string> {
+    debug('scheduler', 'Running job', { id: job.id, schedule: job.scheduleText })
+    try {
+      const prompt = await this.promptTemplates.expand(job.prompt, {})
+      const session = await this.agentManager.createSession(undefined, prompt, uuid(), { worktree: job.worktree })
+      // The user didn't start this session — make sure it stands out in the sidebar
+      this.database.markSessionUnread(session.id)
+      this.emit('session:created', { session: this.database.getSession(session.id) ?? session })
+      this.database.updateScheduledJob(job.id, { lastRunAt: Date.now(), lastSessionId: session.id, lastError: null })
+      return session.id
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      debug('scheduler', 'Job failed', { id: job.id, error: message })
+      this.database.updateScheduledJob(job.id, { lastRunAt: Date.now(), lastError: message })
+      throw error
+    } finally {
+      this.emitJobs()
+    }
+  }
+
+  private emitJobs(): void {
+    this.emit('schedule:updated', { jobs: this.list() })
+  }
+}
+
+// Understands:
+//   every 30 minutes · every 2 hours · hourly
+//   every day at 9:00 · daily · every weekday at 8am · every weekend · every monday and thursday at 14:30
+//   tonight · today at 17:00 · tomorrow at 7am · at 18:00 · in 2 hours · 2026-03-01 09:00
+export function parseSchedule(text: string, now = new Date()): JobSchedule {
+  const input = text.trim().toLowerCase().replace(/\s+/g, ' ')
+  if (!input) {
+    throw new Error('Say when the job should run, e.g. "every weekday at 9:00"')
+  }
+  const fail = (): never => {
+    throw new Error(`Can't tell when "${text.trim()}" is — try "every weekday at 9:00", "tonight" or "tomorrow at 7am"`)
+  }
+
+  if (input === 'hourly') return { type: 'interval', minutes: 60 }
+  const interval = input.match(/^every (?:(\d+) )?(minute|hour)s?$/)
+  if (interval) {
+    const minutes = Number(interval[1] ?? 1) * (interval[2] === 'hour' ? 60 : 1)
+    if (minutes < 5) throw new Error('Scheduled jobs can run at most every 5 minutes')
+    return { type: 'interval', minutes }
+  }
+
+  const relative = input.match(/^in (\d+) (minute|hour|day)s?$/)
+  if (relative) {
+    const unit = relative[2] === 'day' ? 24 * 60 : relative[2] === 'hour' ? 60 : 1
+    return { type: 'once', at: now.getTime() + Number(relative[1]) * unit * 60_000 }
+  }
+
+  const absolute = input.match(/^(\d{4})-(\d{2})-(\d{2})(?:(?: at)? (.+))?$/)
+  if (absolute) {
+    const time = absolute[4] ? parseTime(absolute[4]) ?? fail() : DEFAULT_TIME
+    const at = new Date(Number(absolute[1]), Number(absolute[2]) - 1, Number(absolute[3]), time.hour, time.minute).getTime()
+    if (Number.isNaN(at)) fail()
+    if (at <= now.getTime()) throw new Error(`${text.trim()} is in the past`)
+    return { type: 'once', at }
+  }
+
+  // "<when> [at <time>]"
+  const [, when, timeText] = input.match(/^(.*?)(?:(?:^| )at (.+))?$/)!
+  const time = timeText ? parseTime(timeText) ?? fail() : null
+
+  if (when === 'tonight') {
+    const at = atTime(now, 0, time ?? TONIGHT)
+    // Already later than that tonight — run as soon as possible instead of tomorrow
+    return { type: 'once', at: Math.max(at, now.getTime()) }
+  }
+  if (when === 'today' || when === '') {
+    if (!time) fail()
+    const at = atTime(now, 0, time!)
+    // A bare "at 18:00" means the next 18:00; "today at 8:00" at noon is a mistake
+    if (at > now.getTime()) return { type: 'once', at }
+    if (when === 'today') throw new Error(`${timeText} today has already passed`)
+    return { type: 'once', at: atTime(now, 1, time!) }
+  }
+  if (when === 'tomorrow') {
+    return { type: 'once', at: atTime(now, 1, time ?? DEFAULT_TIME) }
+  }
+
+  const days = parseDays(when)
+  if (!days) fail()
+  return { type: 'weekly', days: days!, ...(time ?? DEFAULT_TIME) }
+}
+
+// First run strictly after `after`; null when a one-off job has nothing left to run
+export function nextRunAfter(schedule: JobSchedule, after: number): number | null {
+  switch (schedule.type) {
+    case 'once':
+      return schedule.at > after ? schedule.at : null
+    case 'interval':
+      return after + schedule.minutes * 60_000
+    case 'weekly': {
+      const from = new Date(after)
+      // Today's slot may still be ahead; a week later the same weekday comes round again
+      for (let offset = 0; offset <= 7; offset++) {
+        const at = atTime(from, offset, schedule)
+        if (at > after && schedule.days.includes(new Date(at).getDay())) return at
+      }
+      return null
+    }
+  }
+}
+
+// A one-off time can be a moment ago ("tonight" after 22:00) — it runs right away
+function firstRun(schedule: JobSchedule, now: number): number | null {
+  return schedule.type === 'once' ? schedule.at : nextRunAfter(schedule, now)
+}
+
+// WHY: Built from local date parts rather than adding 24h multiples — days around a
+// daylight saving change aren't 24 hours long, and 9:00 must stay 9:00
+function atTime(from: Date, dayOffset: number, time: { hour: number; minute: number }): number {
+  return new Date(from.getFullYear(), from.getMonth(), from.getDate() + dayOffset, time.hour, time.minute).getTime()
+}
+
+// "9", "9:30", "9am", "9:30 pm", "21:15", "noon", "midnight"
+function parseTime(text: string): { hour: number; minute: number } | null {
+  if (text === 'noon') return { hour: 12, minute: 0 }
+  if (text === 'midnight') return { hour: 0, minute: 0 }
+  const match = text.match(/^(\d{1,2})(?:[:.](\d{2}))? ?(am|pm)?$/)
+  if (!match) return null
+  let hour = Number(match[1])
+  const minute = Number(match[2] ?? 0)
+  if (match[3]) {
+    if (hour < 1 || hour > 12) return null
+    hour = hour % 12 + (match[3] === 'pm' ? 12 : 0)
+  }
+  if (hour > 23 || minute > 59) return null
+  return { hour, minute }
+}
+
+// "every day", "daily", "every weekday", "weekends", "every monday, wednesday and friday", "mondays"
+function parseDays(text: string): number[] | null {
+  const words = text.replace(/^every /, '').replace(/,/g, ' ').split(' ').filter(word => word && word !== 'and')
+  if (words.length === 0) return null
+  const days = new Set<number>()
+  for (const word of words) {
+    if (word === 'day' || word === 'daily') {
+      EVERY_DAY.forEach(day => days.add(day))
+    } else if (word === 'weekday' || word === 'weekdays') {
+      WEEKDAYS.forEach(day => days.add(day))
+    } else if (word === 'weekend' || word === 'weekends') {
+      days.add(0).add(6)
+    } else {
+      // Full names, plurals ("mondays") and three-letter abbreviations
+      const index = DAY_NAMES.findIndex(name => word === name || word === `${name}s` || (word.length >= 3 && name.startsWith(word)))
+      if (index === -1) return null
+      days.add(index)
+    }
+  }
+  return [...days].sort((a, b) => a - b)
+}
@@ -0,0 +1,371 @@
+import { v4 as uuid } from 'uuid'
+import { createTwoFilesPatch } from 'diff'
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkGfm from 'remark-gfm'
+import remarkRehype from 'remark-rehype'
+import { toHtml } from 'hast-util-to-html'
+import type { Database, FileSnapshot } from './database.js'
+import type { WorkspaceManager } from './workspace-manager.js'
+import type { Session, Message, ToolCall, SessionExportFormat, LinkedWorkspace } from './types.js'
+
+// Bump when the JSON layout changes in a way older readers can't handle
+export const SESSION_EXPORT_VERSION = 1
+
+// WHY: Tool results (file reads, command output) can run to megabytes — Markdown and
+// HTML are for reading, so they show the start; the JSON export keeps everything
+const MAX_RESULT_CHARS = 4000
+
+export interface SessionExport {
+  version: number
+  exportedAt: number
+  session: Session
+  messages: Message[]
+  snapshots?: FileSnapshot[] // Missing in exports written before diffs were included
+}
+
+// WHY: remark-rehype drops raw HTML unless explicitly allowed — message content comes
+// from the model and tool output, and must not inject markup into the exported page
+const markdownProcessor = unified().use(remarkParse).use(remarkGfm).use(remarkRehype)
+// Link and image URLs may be relative or use one of these — the rule react-markdown's
+// defaultUrlTransform applies in the app, so javascript: links don't reach the page
+const SAFE_URL_PROTOCOL = /^(https?|ircs?|mailto|xmpp)$/i
+
+interface HtmlNode {
+  properties?: Record<string, unknown>
+  children?: HtmlNode[]
+}
+
+export class SessionExporter {
+  private database: Database
+  private workspaceManager: WorkspaceManager
+
+  constructor(database: Database, workspaceManager: WorkspaceManager) {
+    this.database = database
+    this.workspaceManager = workspaceManager
+  }
+
+  export(sessionId: string, format: SessionExportFormat): string {
+    const { session, messages, snapshots } = this.load(sessionId)
+    switch (format) {
+      case 'markdown':
+        return this.toMarkdown(session, messages, snapshots)
+      case 'html':
+        return this.toHtml(session, messages, snapshots)
+      case 'json':
+        return this.toJson(session, messages, snapshots)
+    }
+  }
+
+  // Suggested file name for a save dialog, e.g. "fix-the-login-bug.md"
+  fileName(sessionId: string, format: SessionExportFormat): string {
+    const title = this.database.getSession(sessionId)?.title ?? 'session'
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'session'
+    const extension = format === 'markdown' ? 'md' : format
+    return `${slug}.${extension}`
+  }
+
+  // WHY: Everything gets a fresh ID — importing the same file twice, or a session exported
+  // from this very machine, must not collide with rows that already exist
+  async import(json: string): Promise<Session> {
+    let data: SessionExport
+    try {
+      data = JSON.parse(json)
+    } catch {
+      throw new Error('Not a valid session export: the file is not JSON')
+    }
+    if (typeof data?.version !== 'number' || !data.session || !Array.isArray(data.messages)) {
+      throw new Error('Not a valid session export: session or messages are missing')
+    }
+    if (data.version > SESSION_EXPORT_VERSION) {
+      throw new Error(`This export was written by a newer version of Accrew (format ${data.version})`)
+    }
+    // WHY: Checked up front — a malformed message would otherwise fail the import partway
+    // through with a database constraint error instead of saying what's wrong with the file
+    const invalid = data.messages.findIndex(message => !isValidMessage(message))
+    if (typeof data.session.title !== 'string' || invalid !== -1) {
+      throw new Error(`Not a valid session export: ${invalid !== -1 ? `message ${invalid + 1} is malformed` : 'the session has no title'}`)
+    }
+
+    // WHY: A workspace that doesn't exist on this machine falls back to the system agent —
+    // continuing the session would otherwise run the agent in whatever directory Accrew
+    // was launched from
+    const workspace = data.session.workspace
+      ? await this.workspaceManager.getWorkspace(data.session.workspace)
+      : null
+
+    // Linked workspaces are matched by name too; ones missing here are dropped
+    const linkedWorkspaces: LinkedWorkspace[] = []
+    for (const linked of workspace ? data.session.linkedWorkspaces ?? [] : []) {
+      const match = await this.workspaceManager.getWorkspace(linked.name)
+      if (match) linkedWorkspaces.push({ name: linked.name, path: match.path, logo: match.logo })
+    }
+
+    const now = Date.now()
+    const session: Session = {
+      id: uuid(),
+      title: data.session.title,
+      workspace: workspace ? data.session.workspace : null,
+      workspacePath: workspace?.path ?? null,
+      logo: workspace?.logo ?? null,
+      createdAt: data.session.createdAt ?? now,
+      updatedAt: now,
+      hasUnread: false,
+      status: 'completed',
+      ...(linkedWorkspaces.length > 0 ? { linkedWorkspaces } : {})
+    }
+
+    const messageIds = new Map<string, string>()
+    const messages: Message[] = data.messages.map(message => {
+      const id = uuid()
+      messageIds.set(message.id, id)
+      return {
+        id,
+        sessionId: session.id,
+        role: message.role,
+        content: message.content ?? '',
+        thinking: message.thinking,
+        toolCalls: message.toolCalls,
+        fileChanges: message.fileChanges,
+        status: message.status ? 'interrupted' : undefined,
+        attachments: message.attachments,
+        createdAt: message.createdAt
+      }
+    })
+    // Checkpoints and usage stay behind — they describe files and billing on the exporting machine
+    const snapshots = (data.snapshots ?? [])
+      .filter(snapshot => messageIds.has(snapshot.messageId))
+      .map(snapshot => ({ ...snapshot, messageId: messageIds.get(snapshot.messageId)! }))
+
+    this.database.importSession(session, messages, snapshots)
+    return session
+  }
+
+  private load(sessionId: string): { session: Session; messages: Message[]; snapshots: FileSnapshot[] } {
+    const session = this.database.getSession(sessionId)
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`)
+    }
+    return {
+      session,
+      messages: this.database.getMessages(sessionId),
+      snapshots: this.database.getFileSnapshots(sessionId)
+    }
+  }
+
+  private toJson(session: Session, messages: Message[], snapshots: FileSnapshot[]): string {
+    const data: SessionExport = {
+      version: SESSION_EXPORT_VERSION,
+      exportedAt: Date.now(),
+      session,
+      messages,
+      snapshots
+    }
+    return JSON.stringify(data, null, 2)
+  }
+
+  private toMarkdown(session: Session, messages: Message[], snapshots: FileSnapshot[]): string {
+    const lines: string[] = [`# ${session.title}`, '']
+    lines.push(`- Workspace: ${[session.workspace ?? 'system agent', ...(session.linkedWorkspaces ?? []).map(w => w.name)].join(', ')}`)
+    lines.push(`- Started: ${new Date(session.createdAt).toISOString()}`)
+    lines.push(`- Session: ${session.id}`)
+
+    for (const message of messages) {
+      lines.push('', '---', '')
+      if (message.role === 'user') {
+        lines.push('## User', '', message.content)
+        if (message.attachments?.length) {
+          lines.push('', `_Attached: ${message.attachments.map(a => a.name).join(', ')}_`)
+        }
+        continue
+      }
+
+      lines.push(message.role === 'system' ? '## System' : '## Assistant', '')
+      if (message.thinking) {
+        lines.push('<details>', '<summary>Thinking</summary>', '', message.thinking, '', '</details>', '')
+      }
+      for (const toolCall of message.toolCalls ?? []) {
+        const target = toolCallTarget(toolCall)
+        lines.push('<details>', `<summary>${escapeHtml(`${toolCall.name}${target ? ` ${target}` : ''}`)}</summary>`, '')
+        lines.push('Arguments:', '', fence(formatValue(toolCall.arguments), 'json'), '')
+        if (toolCall.result !== undefined) {
+          lines.push('Result:', '', fence(truncate(formatValue(toolCall.result))), '')
+        }
+        lines.push('</details>', '')
+      }
+      if (message.content) {
+        lines.push(message.content, '')
+      }
+      for (const snapshot of snapshots.filter(s => s.messageId === message.id)) {
+        lines.push(`### ${snapshot.path} (${snapshot.type})`, '', fence(unifiedDiff(snapshot), 'diff'), '')
+      }
+      if (message.status === 'interrupted') {
+        lines.push('_Interrupted before the turn finished_', '')
+      }
+    }
+
+    return lines.join('\n').trimEnd() + '\n'
+  }
+
+  private toHtml(session: Session, messages: Message[], snapshots: FileSnapshot[]): string {
+    const body: string[] = []
+    for (const message of messages) {
+      const parts: string[] = []
+      if (message.thinking) {
+        parts.push(`<details class="thinking"><summary>Thinking</summary>${renderMarkdown(message.thinking)}</details>`)
+      }
+      for (const toolCall of message.toolCalls ?? []) {
+        const target = toolCallTarget(toolCall)
+        parts.push([
+          `<details class="tool ${toolCall.status}"><summary><code>${escapeHtml(toolCall.name)}</code>`,
+          target ? ` ${escapeHtml(target)}` : '',
+          '</summary>',
+          `<p>Arguments</p><pre>${escapeHtml(formatValue(toolCall.arguments))}</pre>`,
+          toolCall.result !== undefined ? `<p>Result</p><pre>${escapeHtml(truncate(formatValue(toolCall.result)))}</pre>` : '',
+          '</details>'
+        ].join(''))
+      }
+      if (message.content) {
+        parts.push(`<div class="content">${renderMarkdown(message.content)}</div>`)
+      }
+      if (message.attachments?.length) {
+        parts.push(`<p class="attachments">Attached: ${message.attachments.map(a => escapeHtml(a.name)).join(', ')}</p>`)
+      }
+      for (const snapshot of snapshots.filter(s => s.messageId === message.id)) {
+        parts.push(`<details class="diff" open><summary>${escapeHtml(snapshot.path)} <span>${snapshot.type}</span></summary><pre>${renderDiff(unifiedDiff(snapshot))}</pre></details>`)
+      }
+      if (message.status === 'interrupted') {
+        parts.push('<p class="interrupted">Interrupted before the turn finished</p>')
+      }
+      const time = new Date(message.createdAt).toLocaleString()
+      body.push(`<section class="message ${message.role}"><header>${message.role} · ${escapeHtml(time)}</header>${parts.join('\n')}</section>`)
+    }
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(session.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(session.title)}</h1>
+<p class="meta">${escapeHtml([session.workspace ?? 'System agent', ...(session.linkedWorkspaces ?? []).map(w => w.name)].join(', '))} · ${escapeHtml(new Date(session.createdAt).toLocaleString())} · Exported from Accrew</p>
+${body.join('\n')}
+</body>
+</html>
+`
+  }
+}
+
+// The argument that identifies what a tool acted on, if it has an obvious one
+export function toolCallTarget(toolCall: ToolCall): string | null {
+  const args = toolCall.arguments || {}
+  const target = args.path ?? args.filePath ?? args.command ?? args.pattern ?? args.url
+  return typeof target === 'string' && target ? target : null
+}
+
+function unifiedDiff(snapshot: FileSnapshot): string {
+  const patch = createTwoFilesPatch(
+    snapshot.type === 'created' ? '/dev/null' : `a/${snapshot.oldPath ?? snapshot.path}`,
+    snapshot.type === 'deleted' ? '/dev/null' : `b/${snapshot.path}`,
+    snapshot.oldContent ?? '',
+    snapshot.newContent ?? ''
+  )
+  // Drop the "====" separator line createTwoFilesPatch puts first
+  return patch.split('\n').slice(1).join('\n').trimEnd()
+}
+
+function renderDiff(diff: string): string {
+  return diff.split('\n').map(line => {
+    const kind = line.startsWith('@@') ? 'hunk'
+      : line.startsWith('+') && !line.startsWith('+++') ? 'add'
+      : line.startsWith('-') && !line.startsWith('---') ? 'del'
+      : ''
+    return `<span${kind ? ` class="${kind}"` : ''}>${escapeHtml(line) || ' '}</span>`
+  }).join('')
+}
+
+function renderMarkdown(markdown: string): string {
+  const tree = markdownProcessor.runSync(markdownProcessor.parse(markdown))
+  sanitizeUrls(tree as HtmlNode)
+  return toHtml(tree)
+}
+
+function sanitizeUrls(node: HtmlNode): void {
+  for (const key of ['href', 'src']) {
+    const value = node.properties?.[key]
+    if (typeof value === 'string') node.properties![key] = safeUrl(value)
+  }
+  node.children?.forEach(sanitizeUrls)
+}
+
+function safeUrl(url: string): string {
+  const colon = url.indexOf(':')
+  const before = (char: string) => {
+    const index = url.indexOf(char)
+    return index !== -1 && index < colon
+  }
+  // No protocol: the colon is missing or comes after the path, query or fragment starts
+  if (colon === -1 || before('/') || before('?') || before('#')) return url
+  return SAFE_URL_PROTOCOL.test(url.slice(0, colon)) ? url : ''
+}
+
+// What the import needs of a message; the optional parts are passed through as they are
+function isValidMessage(value: unknown): value is Message {
+  if (!value || typeof value !== 'object') return false
+  const message = value as Record<string, unknown>
+  return typeof message.id === 'string'
+    && (message.role === 'user' || message.role === 'assistant' || message.role === 'system')
+    && (message.content === undefined || typeof message.content === 'string')
+    && typeof message.createdAt === 'number' && Number.isFinite(message.createdAt)
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2) ?? ''
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_RESULT_CHARS
+    ? `${text.slice(0, MAX_RESULT_CHARS)}\n… ${(text.length - MAX_RESULT_CHARS).toLocaleString()} more characters`
+    : text
+}
+
+// A code fence longer than any backtick run inside, so the content can't close it early
+function fence(text: string, language = ''): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length))
+  const marker = '`'.repeat(Math.max(3, longest + 1))
+  return `${marker}${language}\n${text}\n${marker}`
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const HTML_STYLES = `
+:root { color-scheme: light dark; --fg: #1f2328; --muted: #656d76; --border: #d0d7de; --bg-soft: #f6f8fa; --add: #dafbe1; --del: #ffebe9; }
+@media (prefers-color-scheme: dark) { :root { --fg: #e6edf3; --muted: #8d96a0; --border: #30363d; --bg-soft: #161b22; --add: #12261e; --del: #25171c; } }
+body { font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; color: var(--fg); max-width: 860px; margin: 2rem auto; padding: 0 1rem; }
+h1 { font-size: 1.6rem; margin-bottom: 0; }
+.meta, header, summary span, details > p, .attachments { color: var(--muted); font-size: 0.85rem; }
+.message { border-top: 1px solid var(--border); padding: 1rem 0; }
+header { text-transform: capitalize; margin-bottom: 0.5rem; }
+.message.user .content { background: var(--bg-soft); border-radius: 8px; padding: 0.25rem 1rem; }
+details { border: 1px solid var(--border); border-radius: 6px; padding: 0.25rem 0.75rem; margin: 0.5rem 0; }
+summary { cursor: pointer; font-size: 0.9rem; overflow-wrap: anywhere; }
+.tool.error summary code { color: #cf222e; }
+pre { background: var(--bg-soft); border-radius: 6px; padding: 0.75rem; overflow-x: auto; font-size: 0.8rem; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+.diff pre span { display: block; }
+.diff .add { background: var(--add); }
+.diff .del { background: var(--del); }
+.diff .hunk { color: var(--muted); }
+.interrupted { color: #bc4c00; font-style: italic; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid var(--border); padding: 0.25rem 0.5rem; }
+`
@@ -1,2 +1,6 @@
 // Shared types between main and renderer
 export const STREAMING_MESSAGE_ID = 'streaming'
+
+// Private-use characters that can't collide with message text
+export const SEARCH_MATCH_START = '\uE000'
+export const SEARCH_MATCH_END = '\uE001'
@@ -2,6 +2,10 @@
 
 export const STREAMING_MESSAGE_ID = 'streaming'
 
+// Private-use characters that can't collide with message text
+export const SEARCH_MATCH_START = '\uE000'
+export const SEARCH_MATCH_END = '\uE001'
+
 export interface Session {
   id: string
   title: string
@@ -12,6 +16,25 @@ export interface Session {
   updatedAt: number
   hasUnread: boolean
   status: 'active' | 'completed' | 'error' | 'archived'
+  worktree?: SessionWorktree // Set when the session runs in its own git worktree
+  linkedWorkspaces?: LinkedWorkspace[] // Other workspaces the session works across
+  forkedFrom?: string // Session this one was forked from
+  parentSessionId?: string // System agent session that started this one to delegate work
+  pinned?: boolean // Never archived or deleted by the retention rules
+}
+
+// A workspace a session works in besides its primary one — set by mentioning more
+// than one @workspace
+export interface LinkedWorkspace {
+  name: string
+  path: string
+  logo: string | null
+}
+
+// Dedicated git worktree and branch a session works in; workspacePath points at the worktree
+export interface SessionWorktree {
+  branch: string
+  repoPath: string // Main working tree the branch merges back into
 }
 
 export interface ToolCall {
@@ -24,7 +47,8 @@ export interface ToolCall {
 
 export interface FileChange {
   path: string
-  type: 'created' | 'modified' | 'deleted'
+  type: 'created' | 'modified' | 'deleted' | 'renamed'
+  oldPath?: string // Where a renamed file was before
   oldContent?: string
   newContent?: string
 }
@@ -32,6 +56,19 @@ export interface FileChange {
 export interface GitFileStatus {
   path: string
   status: 'A' | 'M' | 'D' | '?'
+  staged: boolean // Index differs from HEAD
+  unstaged: boolean // Working tree differs from index (or file is untracked)
+}
+
+export interface GitHunk {
+  index: number // Position within the file's diff, used to stage/unstage it
+  header: string // "@@ -a,b +c,d @@ context" line
+  patch: string // Hunk body including the header line
+}
+
+export interface GitFileHunks {
+  staged: GitHunk[]
+  unstaged: GitHunk[]
 }
 
 export interface GitInfo {
@@ -42,7 +79,10 @@ export interface GitInfo {
 
 export interface ChangedFile {
   path: string
-  status: 'created' | 'modified' | 'deleted' | 'untracked'
+  status: 'created' | 'modified' | 'deleted' | 'renamed' | 'untracked'
+  staged?: boolean // Git repos only
+  unstaged?: boolean
+  workspace?: string // Linked workspace the path is relative to; unset = the session's primary workspace
 }
 
 export interface Message {
@@ -53,9 +93,84 @@ export interface Message {
   thinking?: string
   toolCalls?: ToolCall[]
   fileChanges?: FileChange[]
+  checkpoint?: TurnCheckpoint
+  usage?: MessageUsage
+  status?: 'streaming' | 'interrupted' // Unset once the turn completed
+  attachments?: Attachment[] // User messages only
+  edits?: MessageEdit[] // Earlier versions of an edited prompt, oldest first
   createdAt: number
 }
 
+// A user prompt as it read before it was edited and run again
+export interface MessageEdit {
+  content: string
+  editedAt: number
+}
+
+// A file or folder sent to the agent along with a prompt. Pasted or dropped content
+// that has no path on disk (screenshots, images from a browser) is saved first.
+export interface Attachment {
+  type: 'file' | 'directory'
+  path: string
+  name: string
+  size?: number // Bytes, files only
+  mimeType?: string // Set for images
+}
+
+// Tokens and Copilot premium requests consumed, summed over model calls
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  premiumRequests: number
+  calls: number // Model calls made
+}
+
+// What one assistant turn consumed
+export interface MessageUsage extends TokenUsage {
+  models: string[]
+}
+
+export interface UsageBucket extends TokenUsage {
+  key: string // Workspace name, model ID or local date (YYYY-MM-DD)
+}
+
+export interface UsageSummary {
+  total: TokenUsage
+  byWorkspace: UsageBucket[] // key '' = system agent
+  byModel: UsageBucket[]
+  byDay: UsageBucket[] // Oldest first
+}
+
+// Files whose content was captured before an assistant turn first touched them
+export interface TurnCheckpoint {
+  files: string[]
+  revertedAt: number | null
+}
+
+// How a file differs from the state the turn left it in
+export interface CheckpointConflict {
+  path: string
+  reason: 'modified' | 'created' | 'deleted' | 'unknown'
+}
+
+export interface RevertResult {
+  reverted: boolean
+  restored: string[]
+  conflicts: CheckpointConflict[] // Non-empty without force means nothing was written
+}
+
+// 'replace' drops the turns after the edited prompt; 'branch' keeps them and runs the
+// edited prompt in a fork instead
+export type MessageEditMode = 'replace' | 'branch'
+
+export interface EditResult {
+  edited: boolean
+  session: Session | null // Session the edited prompt runs in — the fork when branching
+  conflicts: CheckpointConflict[] // Reverting later turns was blocked; nothing was edited
+}
+
 export interface Workspace {
   name: string
   displayName: string // Qualified name when duplicates exist (e.g., "parent/name")
@@ -76,6 +191,102 @@ export interface Config {
   changesFileListHeight: number
   model: string
   debug: boolean
+  notifications: boolean // Native notifications when an agent finishes, fails or needs permission
+  archiveAfterDays: number // Archive sessions idle this long; 0 never archives
+  deleteAfterDays: number // Delete sessions archived this long; 0 never deletes
+  provider: AgentProviderName // Agent backend that runs sessions
+  openaiCompatible?: OpenAICompatibleConfig // Server for the 'openai-compatible' provider
+  fakeProvider?: FakeProviderConfig
+  recordFixtures?: string // Folder to save Copilot conversations to as replay fixtures
+  maxConcurrentRuns: number // Turns running at once across all sessions; 0 is no limit
+  workspaces?: Record<string, WorkspaceConfig> // Overrides keyed by workspace name
+}
+
+// Settings a workspace can override — in a .accrew.json at its root, or in the
+// `workspaces` section of ~/.accrew/config.json (which wins)
+// copilot: GitHub Copilot SDK agent with tools. openai-compatible: chat-only model
+// behind an OpenAI-style /chat/completions endpoint (Ollama, LM Studio, vLLM, ...).
+// fake: replays recorded sessions, no login or network needed
+export type AgentProviderName = 'copilot' | 'openai-compatible' | 'fake'
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string // e.g. http://localhost:11434/v1
+  apiKey?: string
+}
+
+export interface FakeProviderConfig {
+  fixture?: string // Replay fixture file; the built-in demo when unset
+  speed?: number // Playback rate: 1 as recorded, 2 twice as fast, 0 without waiting
+}
+
+export interface WorkspaceConfig {
+  provider?: AgentProviderName
+  model?: string
+  promptPrefix?: string // Put before every prompt sent to the agent
+  env?: Record<string, string> // Extra environment variables for the agent and its tools; config.json only
+  allowedTools?: string[] // When set, the agent can use only these tools
+  archiveAfterDays?: number
+  deleteAfterDays?: number
+  maxConcurrentRuns?: number // Turns running at once in this workspace, within the global limit
+}
+
+// A turn waiting for a free run slot; the run queue lists them in the order they start
+export interface QueuedRun {
+  sessionId: string
+  workspace: string | null
+  queuedAt: number
+}
+
+export type RetentionRules = Pick<Config, 'archiveAfterDays' | 'deleteAfterDays'>
+
+// Sessions the retention rules would archive and delete if they ran now
+export interface RetentionPreview {
+  archive: Session[]
+  delete: Session[]
+}
+
+export type PermissionKind = 'shell' | 'write' | 'mcp' | 'read' | 'url' | 'custom-tool'
+
+// A tool permission request awaiting a decision from the user
+export interface PermissionRequest {
+  id: string
+  sessionId: string
+  kind: PermissionKind
+  summary: string // Human-readable description (command line, file path, URL)
+  target: string // Matched against PermissionRule.pattern
+  intention?: string
+  createdAt: number
+}
+
+export type PermissionDecision = 'allow-once' | 'allow-session' | 'allow-always' | 'deny' | 'deny-always'
+
+export interface PermissionRule {
+  id: number
+  workspace: string | null // null = system agent
+  kind: PermissionKind
+  pattern: string // Exact target or '*' for every request of this kind
+  action: 'allow' | 'deny'
+  createdAt: number
+}
+
+// Full-text search hit; snippet marks matched terms with SEARCH_MATCH_START/END
+export interface SearchResult {
+  messageId: string
+  sessionId: string
+  sessionTitle: string
+  workspace: string | null
+  role: Message['role']
+  snippet: string
+  createdAt: number
+}
+
+// Follow-up prompt waiting for the session's current turn to finish
+export interface QueuedMessage {
+  id: string // Becomes the user message ID once sent
+  sessionId: string
+  content: string
+  attachments?: Attachment[]
+  createdAt: number
 }
 
 export interface WorkspaceMatch {
@@ -84,6 +295,45 @@ export interface WorkspaceMatch {
   reason: string
 }
 
+// Reusable prompt run as "/name"; {{placeholders}} are filled from the text after the command
+export interface PromptTemplate {
+  name: string
+  description: string | null
+  placeholders: string[]
+  source: 'global' | 'workspace' // ~/.accrew/prompts or the workspace's .github/prompts
+  path: string
+}
+
+// Whose prompt templates apply — an existing session's workspace, or a workspace by name
+export interface PromptScope {
+  sessionId?: string
+  workspace?: string
+}
+
+// When a scheduled job runs, parsed from text like "every weekday at 9:00" or "tonight"
+export type JobSchedule =
+  | { type: 'once'; at: number }
+  | { type: 'weekly'; days: number[]; hour: number; minute: number } // days: 0 = Sunday
+  | { type: 'interval'; minutes: number }
+
+// Prompt that starts a new session on a schedule
+export interface ScheduledJob {
+  id: string
+  prompt: string // Like a new-session prompt: may start with @workspace or a /command
+  schedule: JobSchedule
+  scheduleText: string // As the user wrote it
+  worktree: boolean
+  enabled: boolean
+  nextRunAt: number | null // null once a one-off job has run
+  lastRunAt: number | null
+  lastSessionId: string | null
+  lastError: string | null
+  createdAt: number
+}
+
+// Formats a session can be exported to; only JSON can be imported back
+export type SessionExportFormat = 'markdown' | 'html' | 'json'
+
 // IPC Channel types
 export type IpcChannels = {
   // Main -> Renderer
@@ -96,18 +346,70 @@ export type IpcChannels = {
   'agent:error': { sessionId: string; error: string }
   'session:title-updated': { sessionId: string; title: string }
   'session:updated': { session: Session }
+  'session:created': { session: Session } // Started in the main process (scheduled jobs)
+  'permission:request': { request: PermissionRequest }
+  'permission:resolved': { requestId: string; sessionId: string }
+  'queue:updated': { sessionId: string; queue: QueuedMessage[] }
+  'queue:sent': { sessionId: string; message: Message }
+  'schedule:updated': { jobs: ScheduledJob[] }
+  'session:open': { sessionId: string } // A notification was clicked
+  'session:deleted': { sessionId: string } // Removed by the retention rules
+  'run:queue-updated': { runs: QueuedRun[] }
   
   // Renderer -> Main (invoke)
-  'session:create': { workspace?: string; prompt: string }
-  'session:send': { sessionId: string; content: string }
+  'session:create': { workspace?: string; prompt: string; worktree?: boolean; attachments?: Attachment[] }
+  'session:send': { sessionId: string; content: string; attachments?: Attachment[] }
   'session:list': void
   'session:get': { sessionId: string }
   'session:delete': { sessionId: string }
   'session:mark-read': { sessionId: string }
   'session:mark-unread': { sessionId: string }
+  'session:search': { query: string; limit?: number }
+  'session:merge-worktree': { sessionId: string }
+  'session:discard-worktree': { sessionId: string }
+  'session:fork': { sessionId: string; messageId: string }
+  'session:set-pinned': { sessionId: string; pinned: boolean }
+  'session:edit-message': { sessionId: string; messageId: string; content: string; mode: MessageEditMode; revert?: boolean; force?: boolean }
+  'session:export': { sessionId: string; format: SessionExportFormat }
+  'session:import': void
+  'prompt:list': PromptScope
+  'prompt:expand': PromptScope & { content: string }
   'workspace:list': void
   'workspace:match': { prompt: string }
   'config:get': void
   'config:set': Partial<Config>
   'file:get-diff': { sessionId: string; messageId: string; filePath: string }
+  'permission:respond': { requestId: string; decision: PermissionDecision }
+  'permission:pending': void
+  'permission:rules': void
+  'permission:delete-rule': { id: number }
+  'checkpoint:revert': { messageId: string; force?: boolean }
+  'queue:list': void
+  'queue:add': { sessionId: string; content: string; attachments?: Attachment[] }
+  'queue:update': { sessionId: string; id: string; content: string }
+  'queue:remove': { sessionId: string; id: string }
+  'queue:move': { sessionId: string; id: string; toIndex: number }
+  'queue:send-now': { sessionId: string; id: string }
+  'run:list': void
+  'run:prioritize': { sessionId: string }
+  'run:cancel': { sessionId: string }
+  'usage:summary': { days?: number }
+  'retention:preview': Partial<RetentionRules> | undefined
+  'schedule:list': void
+  'schedule:create': { prompt: string; scheduleText: string; worktree?: boolean }
+  'schedule:preview': { scheduleText: string }
+  'schedule:set-enabled': { id: string; enabled: boolean }
+  'schedule:delete': { id: string }
+  'schedule:run-now': { id: string }
+  'attachment:from-paths': { paths: string[] }
+  'attachment:save': { name: string; data: ArrayBuffer; mimeType: string }
+  'attachment:pick': { defaultPath?: string }
+  'git:stage': { path: string; filePath: string }
+  'git:unstage': { path: string; filePath: string }
+  'git:discard': { path: string; filePath: string }
+  'git:hunks': { path: string; filePath: string }
+  'git:stage-hunk': { path: string; filePath: string; hunkIndex: number; header: string }
+  'git:unstage-hunk': { path: string; filePath: string; hunkIndex: number; header: string }
+  'git:commit': { path: string; message: string }
+  'git:draft-commit-message': { sessionId: string; stagedFiles: string[] }
 }
@@ -1,5 +1,5 @@
 import { create } from 'zustand'
-import type { Session, Message, Workspace, Config, FileChange, ToolCall, GitInfo, ChangedFile } from './shared/types'
+import type { Session, Message, Workspace, Config, FileChange, ToolCall, GitInfo, ChangedFile, GitFileHunks, GitHunk, PermissionRequest, PermissionDecision, SearchResult, RevertResult, QueuedMessage, QueuedRun, SessionExportFormat, PromptTemplate, Attachment, ScheduledJob, MessageEditMode, EditResult } from './shared/types'
 
 interface DiffSelection {
   sessionId: string
@@ -7,7 +7,7 @@ interface DiffSelection {
   filePath: string
   oldContent: string
   newContent: string
-  changeType: 'created' | 'modified' | 'deleted'
+  changeType: FileChange['type']
 }
 
 interface StreamingState {
@@ -21,9 +21,11 @@ interface ChangesPanelState {
   open: boolean
   files: ChangedFile[]
   selectedFile: string | null
+  selectedWorkspace: string | null  // Linked workspace of the selected file; null = the primary one
   userClosed: boolean
   diffContent: string | null  // Raw git diff string or null
   diffType: 'git' | 'tool' | null  // Source of the diff
+  hunks: GitFileHunks | null  // Stageable hunks of the selected file (git only)
 }
 
 // WHY: pendingOperations tracks async operations that lack UI feedback — used by
@@ -59,16 +61,32 @@ interface Store {
   aborting: boolean
   loadSessions: () => Promise<void>
   setActiveSession: (id: string | null) => void
-  createSession: (workspace: string | undefined, prompt: string) => Promise<void>
+  createSession: (workspace: string | undefined, prompt: string, options?: { worktree?: boolean; attachments?: Attachment[] }) => Promise<void>
   deleteSession: (id: string) => Promise<void>
   archiveSession: (id: string) => Promise<void>
   unarchiveSession: (id: string) => Promise<void>
+  // Pinned sessions are never archived or deleted by the retention rules
+  setSessionPinned: (id: string, pinned: boolean) => Promise<void>
+  // Archive a worktree session, merging its branch back or throwing it away first
+  mergeWorktree: (id: string) => Promise<void>
+  discardWorktree: (id: string) => Promise<void>
+  // Continue the conversation as it was at messageId in a new session, and open it
+  forkSession: (id: string, messageId: string) => Promise<void>
   markSessionUnread: (id: string) => Promise<void>
   regenerateTitle: (id: string) => Promise<string | null>
+  exportSession: (id: string, format: SessionExportFormat) => Promise<string | null>
+  importSession: () => Promise<void>
   abortSession: () => Promise<void>
   navigateToPreviousSession: () => void
   navigateToNextSession: () => void
 
+  // Full-text search across all conversations
+  searchMessages: (query: string) => Promise<SearchResult[]>
+  openSearchResult: (result: SearchResult) => Promise<void>
+  // Message to scroll to once it renders (consumed by ConversationNav)
+  messageScrollTarget: { sessionId: string; messageId: string } | null
+  clearMessageScrollTarget: () => void
+
   // Git info per session
   sessionGitInfo: Record<string, GitInfo>
   loadGitInfo: (sessionId: string, workspacePath: string) => Promise<void>
@@ -77,15 +95,28 @@ interface Store {
   // Changes panel
   changesPanel: ChangesPanelState
   loadChangedFiles: (sessionId: string) => Promise<void>
-  selectChangedFile: (filePath: string) => Promise<void>
+  selectChangedFile: (filePath: string, workspace?: string) => Promise<void>
   openChangesPanel: () => Promise<void>
   closeChangesPanel: () => void
   resetUserClosed: () => void
 
+  // Git actions (ChangesPanel) — paths are relative to the active session's workspace,
+  // or to the linked workspace named by `workspace`
+  stageFile: (filePath: string, workspace?: string) => Promise<void>
+  unstageFile: (filePath: string, workspace?: string) => Promise<void>
+  discardFile: (filePath: string, workspace?: string) => Promise<void>
+  stageHunk: (hunk: GitHunk) => Promise<void>
+  unstageHunk: (hunk: GitHunk) => Promise<void>
+  commitChanges: (message: string) => Promise<string>
+  draftCommitMessage: () => Promise<string>
+
   // Messages
   messages: Message[]
   loadMessages: (sessionId: string) => Promise<void>
-  sendMessage: (content: string) => Promise<void>
+  sendMessage: (content: string, attachments?: Attachment[]) => Promise<void>
+  revertTurn: (messageId: string, force?: boolean) => Promise<RevertResult>
+  // Run a changed prompt again, dropping the turns after it or continuing in a fork
+  editMessage: (messageId: string, content: string, mode: MessageEditMode, options?: { revert?: boolean; force?: boolean }) => Promise<EditResult>
 
   // Streaming state per session (keyed by sessionId)
   streamingStates: Map<string, StreamingState>
@@ -97,10 +128,34 @@ interface Store {
   updateToolCallForSession: (sessionId: string, toolCallId: string, result: unknown) => void
   addFileChangeForSession: (sessionId: string, change: FileChange) => void
 
+  // Follow-up prompts waiting for a turn to finish (keyed by sessionId, send order)
+  messageQueues: Record<string, QueuedMessage[]>
+  loadMessageQueues: () => Promise<void>
+  queueMessage: (content: string, attachments?: Attachment[]) => Promise<void>
+  updateQueuedMessage: (id: string, content: string) => Promise<void>
+  removeQueuedMessage: (id: string) => Promise<void>
+  moveQueuedMessage: (id: string, toIndex: number) => Promise<void>
+  sendQueuedNow: (id: string) => Promise<void>
+
+  // Turns waiting for a free run slot, in the order they'll start
+  runQueue: QueuedRun[]
+  loadRunQueue: () => Promise<void>
+  prioritizeRun: (sessionId: string) => Promise<void>
+  cancelRun: (sessionId: string) => Promise<void>
+
+  // Tool permission requests awaiting a decision (all sessions, oldest first)
+  pendingPermissions: PermissionRequest[]
+  loadPendingPermissions: () => Promise<void>
+  respondToPermission: (requestId: string, decision: PermissionDecision) => Promise<void>
+
   // Workspaces
   workspaces: Workspace[]
   loadWorkspaces: () => Promise<void>
 
+  // Prompt templates for the active session, or for the mentioned workspace in a new one
+  promptTemplates: PromptTemplate[]
+  loadPromptTemplates: (workspace?: string) => Promise<void>
+
   // Config
   config: Config | null
   loadConfig: () => Promise<void>
@@ -108,14 +163,24 @@ interface Store {
 
   // Diff viewer
   selectedDiff: DiffSelection | null
-  selectDiff: (sessionId: string, messageId: string, filePath: string, changeType: 'created' | 'modified' | 'deleted') => Promise<void>
-  setDiffFromData: (data: { filePath: string; oldContent: string; newContent: string; changeType: 'created' | 'modified' | 'deleted' }) => void
+  selectDiff: (sessionId: string, messageId: string, filePath: string, changeType: FileChange['type']) => Promise<void>
+  setDiffFromData: (data: { filePath: string; oldContent: string; newContent: string; changeType: FileChange['type'] }) => void
   closeDiff: () => void
 
   // Settings dialog
   settingsOpen: boolean
   setSettingsOpen: (open: boolean) => void
 
+  // Usage dashboard
+  usageOpen: boolean
+  setUsageOpen: (open: boolean) => void
+
+  // Scheduled jobs
+  schedulesOpen: boolean
+  setSchedulesOpen: (open: boolean) => void
+  scheduledJobs: ScheduledJob[]
+  loadScheduledJobs: () => Promise<void>
+
   // Event listeners
   setupEventListeners: () => () => void
 }
@@ -130,6 +195,57 @@ function rendererDebug(category: string, message: string, data?: unknown): void
   window.accrew?.debug?.log(category, message, data)
 }
 
+// WHY: Every git action changes what the ChangesPanel shows — refresh the file list,
+// the selected file's diff and hunks, and the branch indicator after each one, even
+// when the action fails part-way (e.g. discard removed the file but errored after)
+async function runGitAction<T>(get: () => Store, action: (workspacePath: string) => Promise<T>, workspace?: string): Promise<T> {
+  const { activeSessionId, sessions } = get()
+  const session = sessions.find(s => s.id === activeSessionId)
+  const workspacePath = session && workspaceRoot(session, workspace)
+  if (!activeSessionId || !session?.workspacePath || !workspacePath) {
+    throw new Error('No workspace for this session')
+  }
+  try {
+    return await action(workspacePath)
+  } finally {
+    await get().loadGitInfo(activeSessionId, session.workspacePath)
+    await get().loadChangedFiles(activeSessionId)
+    const { selectedFile, selectedWorkspace } = get().changesPanel
+    if (selectedFile) {
+      await get().selectChangedFile(selectedFile, selectedWorkspace ?? undefined)
+    }
+  }
+}
+
+// Folder a changed file's path is relative to — a linked workspace by name, else the primary one
+function workspaceRoot(session: Session, workspace?: string): string | null {
+  if (!workspace) return session.workspacePath
+  return session.linkedWorkspaces?.find(w => w.name === workspace)?.path ?? null
+}
+
+// Linked workspace an agent-reported (absolute) path lies in; undefined for the primary
+// workspace and for paths outside all of them
+function linkedWorkspaceOf(session: Session, filePath: string): string | undefined {
+  return session.linkedWorkspaces?.find(w => filePath.startsWith(w.path + '/'))?.name
+}
+
+function relativeTo(root: string, filePath: string): string {
+  return filePath.startsWith(root) ? filePath.slice(root.length).replace(/^\//, '') : filePath
+}
+
+// Empty queues are dropped so the map only holds sessions with something waiting
+function setQueue(set: (fn: (state: Store) => Partial<Store>) => void, sessionId: string, queue: QueuedMessage[]): void {
+  set((state) => {
+    const messageQueues = { ...state.messageQueues }
+    if (queue.length > 0) {
+      messageQueues[sessionId] = queue
+    } else {
+      delete messageQueues[sessionId]
+    }
+    return { messageQueues }
+  })
+}
+
 export const useStore = create<Store>((set, get) => ({
   // Pending operations tracking
   pendingOperations: new Set<PendingOperation>(),
@@ -185,7 +301,7 @@ export const useStore = create<Store>((set, get) => ({
       activeSessionId: id, 
       messages: [], 
       selectedDiff: null,
-      changesPanel: { open: false, files: [], selectedFile: null, userClosed: false, diffContent: null, diffType: null }
+      changesPanel: { open: false, files: [], selectedFile: null, selectedWorkspace: null, userClosed: false, diffContent: null, diffType: null, hunks: null }
     })
     await window.accrew.session.setViewed(id)
     if (id) {
@@ -206,7 +322,11 @@ export const useStore = create<Store>((set, get) => ({
       }))
     }
   },
-  createSession: async (workspace, prompt) => {
+  createSession: async (workspace, prompt, options) => {
+    // WHY: Expanded before any optimistic state — a template missing a value fails
+    // here, before the pane switches to a session that will never start
+    prompt = await window.accrew.prompts.expand(prompt, { workspace })
+
     // Generate session ID locally and set state BEFORE IPC to avoid race with streaming events
     const sessionId = crypto.randomUUID()
     
@@ -216,6 +336,7 @@ export const useStore = create<Store>((set, get) => ({
       sessionId,
       role: 'user',
       content: prompt,
+      ...(options?.attachments?.length && { attachments: options.attachments }),
       createdAt: Date.now()
     }
     
@@ -233,7 +354,27 @@ export const useStore = create<Store>((set, get) => ({
     // Mark as viewed BEFORE creating session to prevent race with agent completion
     await window.accrew.session.setViewed(sessionId)
     
-    const session = await window.accrew.session.create(workspace, prompt, sessionId)
+    let session: Session
+    try {
+      session = await window.accrew.session.create(workspace, prompt, sessionId, options?.worktree, options?.attachments)
+    } catch (error) {
+      // WHY: Roll back the optimistic state — otherwise the pane stays "Working" on a
+      // session that doesn't exist (e.g. the worktree could not be created)
+      set((state) => {
+        const newStreamingStates = new Map(state.streamingStates)
+        newStreamingStates.delete(sessionId)
+        const newStreamingSessions = new Set(state.streamingSessions)
+        newStreamingSessions.delete(sessionId)
+        return {
+          activeSessionId: state.activeSessionId === sessionId ? null : state.activeSessionId,
+          messages: state.activeSessionId === sessionId ? [] : state.messages,
+          streamingStates: newStreamingStates,
+          streamingSessions: newStreamingSessions
+        }
+      })
+      await window.accrew.session.setViewed(null)
+      throw error
+    }
     set((state) => ({
       sessions: [session, ...state.sessions]
     }))
@@ -257,12 +398,35 @@ export const useStore = create<Store>((set, get) => ({
       sessions: state.sessions.map(s => s.id === id ? session : s)
     }))
   },
+  mergeWorktree: async (id) => {
+    const session = await window.accrew.session.mergeWorktree(id)
+    set((state) => ({
+      sessions: state.sessions.map(s => s.id === id ? session : s)
+    }))
+  },
+  discardWorktree: async (id) => {
+    const session = await window.accrew.session.discardWorktree(id)
+    set((state) => ({
+      sessions: state.sessions.map(s => s.id === id ? session : s)
+    }))
+  },
+  forkSession: async (id, messageId) => {
+    const session = await window.accrew.session.fork(id, messageId)
+    set((state) => ({ sessions: [session, ...state.sessions] }))
+    await get().setActiveSession(session.id)
+  },
   unarchiveSession: async (id) => {
     const session = await window.accrew.session.unarchive(id)
     set((state) => ({
       sessions: state.sessions.map(s => s.id === id ? session : s)
     }))
   },
+  setSessionPinned: async (id, pinned) => {
+    const session = await window.accrew.session.setPinned(id, pinned)
+    set((state) => ({
+      sessions: state.sessions.map(s => s.id === id ? session : s)
+    }))
+  },
   markSessionUnread: async (id) => {
     const session = await window.accrew.session.markUnread(id)
     set((state) => ({
@@ -277,6 +441,15 @@ export const useStore = create<Store>((set, get) => ({
       get().endOperation('regenerateTitle')
     }
   },
+  exportSession: async (id, format) => {
+    return window.accrew.session.export(id, format)
+  },
+  importSession: async () => {
+    const session = await window.accrew.session.import()
+    if (!session) return
+    set((state) => ({ sessions: [session, ...state.sessions] }))
+    await get().setActiveSession(session.id)
+  },
   abortSession: async () => {
     const { activeSessionId, streamingStates } = get()
     if (!activeSessionId || !streamingStates.has(activeSessionId)) return
@@ -333,6 +506,22 @@ export const useStore = create<Store>((set, get) => ({
     }
   },
 
+  // Full-text search
+  searchMessages: async (query) => {
+    if (!query.trim()) return []
+    return window.accrew.session.search(query)
+  },
+  openSearchResult: async (result) => {
+    // WHY: Set the target before switching — setActiveSession clears and reloads
+    // messages, and ConversationNav scrolls as soon as the target message renders
+    set({ messageScrollTarget: { sessionId: result.sessionId, messageId: result.messageId } })
+    if (get().activeSessionId !== result.sessionId) {
+      await get().setActiveSession(result.sessionId)
+    }
+  },
+  messageScrollTarget: null,
+  clearMessageScrollTarget: () => set({ messageScrollTarget: null }),
+
   // Git info per session
   // WHY: Using plain object instead of Map for Zustand reactivity — Map.get() doesn't
   // trigger re-renders when internal contents change, only when reference changes
@@ -361,9 +550,11 @@ export const useStore = create<Store>((set, get) => ({
     open: false,
     files: [],
     selectedFile: null,
+    selectedWorkspace: null,
     userClosed: false,
     diffContent: null,
-    diffType: null
+    diffType: null,
+    hunks: null
   },
   loadChangedFiles: async (sessionId) => {
     const { sessions, streamingStates, changesPanel } = get()
@@ -371,108 +562,113 @@ export const useStore = create<Store>((set, get) => ({
     if (!session?.workspacePath) return
 
     const gitInfo = get().sessionGitInfo[sessionId]
-    let files: ChangedFile[] = []
-    
-    if (gitInfo?.isRepo) {
-      // Git repo: use git status
-      const gitFiles = await window.accrew.git.status(session.workspacePath)
-      files = gitFiles.map(f => ({
-        path: f.path,
-        status: f.status === 'A' ? 'created' 
-              : f.status === 'D' ? 'deleted'
-              : f.status === '?' ? 'untracked'
-              : 'modified'
-      }))
-      
-      // Update hasChanges in gitInfo
-      set((state) => ({
-        sessionGitInfo: {
-          ...state.sessionGitInfo,
-          [sessionId]: { ...state.sessionGitInfo[sessionId], hasChanges: files.length > 0 }
-        }
-      }))
-    } else {
-      // Non-git: collect file changes from messages and current streaming state
-      // WHY: After agent:done, streamingState is cleared but fileChanges are saved to messages in DB.
-      // Must check both sources to show all changes across the session.
-      const { messages } = get()
-      const sessionMessages = messages.filter(m => m.sessionId === sessionId && m.role === 'assistant')
-      const workspacePath = session.workspacePath || ''
-      
-      // Collect from completed messages
-      const fileMap = new Map<string, ChangedFile>()
-      for (const msg of sessionMessages) {
-        if (msg.fileChanges) {
-          for (const fc of msg.fileChanges) {
-            // WHY: Make path relative to workspace for cleaner display
-            const relativePath = fc.path.startsWith(workspacePath) 
-              ? fc.path.slice(workspacePath.length).replace(/^\//, '')
-              : fc.path
-            fileMap.set(relativePath, {
-              path: relativePath,
-              status: fc.type === 'created' ? 'created'
-                    : fc.type === 'deleted' ? 'deleted'
-                    : 'modified'
-            })
-          }
-        }
-      }
-      
+    // WHY: Each workspace of a multi-workspace session is listed on its own — a linked
+    // workspace can be a git repo while the primary one isn't, or the other way round
+    const roots: { workspace?: string; path: string; isRepo: boolean }[] = [
+      { path: session.workspacePath, isRepo: gitInfo?.isRepo ?? false }
+    ]
+    for (const linked of session.linkedWorkspaces ?? []) {
+      roots.push({ workspace: linked.name, path: linked.path, isRepo: await window.accrew.git.isRepo(linked.path) })
+    }
+
+    // Non-git: collect file changes from messages and current streaming state
+    // WHY: After agent:done, streamingState is cleared but fileChanges are saved to messages in DB.
+    // Must check both sources to show all changes across the session.
+    const { messages } = get()
+    const toolChanges = [
+      ...messages.filter(m => m.sessionId === sessionId && m.role === 'assistant').flatMap(m => m.fileChanges || []),
       // Also check current streaming state (for in-flight changes)
-      const streaming = streamingStates.get(sessionId)
-      if (streaming?.fileChanges) {
-        for (const fc of streaming.fileChanges) {
-          const relativePath = fc.path.startsWith(workspacePath)
-            ? fc.path.slice(workspacePath.length).replace(/^\//, '')
-            : fc.path
+      ...(streamingStates.get(sessionId)?.fileChanges || [])
+    ]
+
+    const files: ChangedFile[] = []
+    for (const root of roots) {
+      if (root.isRepo) {
+        // Git repo: use git status
+        const gitFiles = await window.accrew.git.status(root.path)
+        files.push(...gitFiles.map(f => ({
+          path: f.path,
+          status: f.status === 'A' ? 'created' as const
+                : f.status === 'D' ? 'deleted' as const
+                : f.status === '?' ? 'untracked' as const
+                : 'modified' as const,
+          staged: f.staged,
+          unstaged: f.unstaged,
+          ...(root.workspace && { workspace: root.workspace })
+        })))
+
+        if (!root.workspace) {
+          // Update hasChanges in gitInfo
+          const hasChanges = gitFiles.length > 0
+          set((state) => ({
+            sessionGitInfo: {
+              ...state.sessionGitInfo,
+              [sessionId]: { ...state.sessionGitInfo[sessionId], hasChanges }
+            }
+          }))
+        }
+      } else {
+        const fileMap = new Map<string, ChangedFile>()
+        for (const fc of toolChanges) {
+          if (linkedWorkspaceOf(session, fc.path) !== root.workspace) continue
+          // WHY: Make path relative to workspace for cleaner display
+          const relativePath = relativeTo(root.path, fc.path)
+          if (fc.oldPath) fileMap.delete(relativeTo(root.path, fc.oldPath))
           fileMap.set(relativePath, {
             path: relativePath,
-            status: fc.type === 'created' ? 'created'
-                  : fc.type === 'deleted' ? 'deleted'
-                  : 'modified'
+            status: fc.type,
+            ...(root.workspace && { workspace: root.workspace })
           })
         }
+        files.push(...fileMap.values())
       }
-      
-      files = Array.from(fileMap.values())
     }
 
     // WHY: Clear selection if selected file no longer in list — prevents stale diff showing
-    const selectedStillExists = files.some(f => f.path === changesPanel.selectedFile)
+    const selectedStillExists = files.some(f =>
+      f.path === changesPanel.selectedFile && (f.workspace ?? null) === changesPanel.selectedWorkspace
+    )
     set((state) => ({
       changesPanel: {
         ...state.changesPanel,
         files,
         selectedFile: selectedStillExists ? state.changesPanel.selectedFile : null,
+        selectedWorkspace: selectedStillExists ? state.changesPanel.selectedWorkspace : null,
         diffContent: selectedStillExists ? state.changesPanel.diffContent : null,
-        diffType: selectedStillExists ? state.changesPanel.diffType : null
+        diffType: selectedStillExists ? state.changesPanel.diffType : null,
+        hunks: selectedStillExists ? state.changesPanel.hunks : null
       }
     }))
   },
-  selectChangedFile: async (filePath) => {
+  selectChangedFile: async (filePath, workspace) => {
     const { activeSessionId, sessions, sessionGitInfo, messages } = get()
     if (!activeSessionId) return
     
     const session = sessions.find(s => s.id === activeSessionId)
-    if (!session?.workspacePath) return
+    const workspacePath = session && workspaceRoot(session, workspace)
+    if (!session || !workspacePath) return
 
-    const gitInfo = sessionGitInfo[activeSessionId]
+    const isRepo = workspace
+      ? await window.accrew.git.isRepo(workspacePath)
+      : sessionGitInfo[activeSessionId]?.isRepo
     
     set((state) => ({
-      changesPanel: { ...state.changesPanel, selectedFile: filePath, diffContent: null, diffType: null }
+      changesPanel: { ...state.changesPanel, selectedFile: filePath, selectedWorkspace: workspace ?? null, diffContent: null, diffType: null, hunks: null }
     }))
 
-    if (gitInfo?.isRepo) {
+    if (isRepo) {
       // Git repo: get raw git diff
-      const diff = await window.accrew.git.diff(session.workspacePath, filePath)
+      const [diff, hunks] = await Promise.all([
+        window.accrew.git.diff(workspacePath, filePath),
+        window.accrew.git.hunks(workspacePath, filePath)
+      ])
       set((state) => ({
-        changesPanel: { ...state.changesPanel, diffContent: diff, diffType: 'git' }
+        changesPanel: { ...state.changesPanel, diffContent: diff, diffType: 'git', hunks }
       }))
     } else {
       // Non-git: find file change in messages to get diff content
       // WHY: For tool-tracked changes, oldContent/newContent are stored with each FileChange in DB
       const sessionMessages = messages.filter(m => m.sessionId === activeSessionId && m.role === 'assistant')
-      const workspacePath = session.workspacePath || ''
       
       // Find the most recent change for this file
       let foundChange = null
@@ -480,10 +676,8 @@ export const useStore = create<Store>((set, get) => ({
         const msg = sessionMessages[i]
         if (msg.fileChanges) {
           for (const fc of msg.fileChanges) {
-            const relativePath = fc.path.startsWith(workspacePath)
-              ? fc.path.slice(workspacePath.length).replace(/^\//, '')
-              : fc.path
-            if (relativePath === filePath) {
+            if (linkedWorkspaceOf(session, fc.path) !== workspace) continue
+            if (relativeTo(workspacePath, fc.path) === filePath) {
               foundChange = fc
               break
             }
@@ -527,15 +721,103 @@ export const useStore = create<Store>((set, get) => ({
     changesPanel: { ...state.changesPanel, userClosed: false }
   })),
 
+  // Git actions
+  stageFile: async (filePath, workspace) => {
+    await runGitAction(get, (path) => window.accrew.git.stage(path, filePath), workspace)
+  },
+  unstageFile: async (filePath, workspace) => {
+    await runGitAction(get, (path) => window.accrew.git.unstage(path, filePath), workspace)
+  },
+  discardFile: async (filePath, workspace) => {
+    await runGitAction(get, (path) => window.accrew.git.discard(path, filePath), workspace)
+  },
+  stageHunk: async (hunk) => {
+    const { selectedFile: filePath, selectedWorkspace } = get().changesPanel
+    if (!filePath) return
+    await runGitAction(get, (path) => window.accrew.git.stageHunk(path, filePath, hunk.index, hunk.header), selectedWorkspace ?? undefined)
+  },
+  unstageHunk: async (hunk) => {
+    const { selectedFile: filePath, selectedWorkspace } = get().changesPanel
+    if (!filePath) return
+    await runGitAction(get, (path) => window.accrew.git.unstageHunk(path, filePath, hunk.index, hunk.header), selectedWorkspace ?? undefined)
+  },
+  // WHY: One commit per workspace with staged files — a change that spans repos lands
+  // in each of them with the same message
+  commitChanges: async (message) => {
+    const staged = get().changesPanel.files.filter(f => f.staged)
+    const workspaces = [...new Set(staged.map(f => f.workspace))]
+    if (workspaces.length <= 1) {
+      return runGitAction(get, (path) => window.accrew.git.commit(path, message), workspaces[0])
+    }
+    const primary = get().sessions.find(s => s.id === get().activeSessionId)?.workspace
+    const hashes: string[] = []
+    for (const workspace of workspaces) {
+      const hash = await runGitAction(get, (path) => window.accrew.git.commit(path, message), workspace)
+      hashes.push(`${hash} in ${workspace ?? primary}`)
+    }
+    return hashes.join(', ')
+  },
+  draftCommitMessage: async () => {
+    const { activeSessionId, changesPanel } = get()
+    if (!activeSessionId) return ''
+    // Files in linked workspaces are prefixed with the workspace name
+    const stagedFiles = changesPanel.files.filter(f => f.staged).map(f => f.workspace ? `${f.workspace}/${f.path}` : f.path)
+    return window.accrew.git.draftCommitMessage(activeSessionId, stagedFiles)
+  },
+
   // Messages
   messages: [],
   loadMessages: async (sessionId) => {
     const { messages } = await window.accrew.session.get(sessionId)
     set({ messages })
   },
-  sendMessage: async (content) => {
+  revertTurn: async (messageId, force) => {
+    const result = await window.accrew.checkpoint.revert(messageId, force)
+    const sessionId = get().messages.find(m => m.id === messageId)?.sessionId
+    if (result.reverted && sessionId) {
+      await get().loadMessages(sessionId)
+      await get().loadChangedFiles(sessionId)
+    }
+    return result
+  },
+  editMessage: async (messageId, content, mode, options) => {
+    const original = get().messages.find(m => m.id === messageId)
+    if (!original) throw new Error('Message not found')
+    const sessionId = original.sessionId
+    content = await window.accrew.prompts.expand(content, { sessionId })
+    const result = await window.accrew.session.editMessage(sessionId, messageId, content, mode, options)
+    const runIn = result.session
+    if (!result.edited || !runIn) return result
+
+    set((state) => {
+      const newStreamingStates = new Map(state.streamingStates)
+      newStreamingStates.set(runIn.id, { thinking: '', content: '', toolCalls: [], fileChanges: [] })
+      const streaming = { streamingStates: newStreamingStates, streamingSessions: new Set([...state.streamingSessions, runIn.id]) }
+      if (mode === 'branch') {
+        return { ...streaming, sessions: [runIn, ...state.sessions] }
+      }
+      // Same as the main process now has it: everything before the prompt, then the prompt as edited
+      const index = state.messages.findIndex(m => m.id === messageId)
+      const edited: Message = {
+        ...original,
+        content,
+        edits: [...(original.edits ?? []), { content: original.content, editedAt: Date.now() }],
+        createdAt: Date.now()
+      }
+      return { ...streaming, messages: [...state.messages.slice(0, index), edited] }
+    })
+
+    if (mode === 'branch') {
+      await get().setActiveSession(runIn.id)
+    } else if (options?.revert) {
+      await get().loadChangedFiles(sessionId)
+    }
+    return result
+  },
+  sendMessage: async (content, attachments) => {
     const { activeSessionId } = get()
     if (!activeSessionId) return
+    content = await window.accrew.prompts.expand(content, { sessionId: activeSessionId })
 
     // Add user message immediately
     const userMessage: Message = {
@@ -543,6 +825,7 @@ export const useStore = create<Store>((set, get) => ({
       sessionId: activeSessionId,
       role: 'user',
       content,
+      ...(attachments?.length && { attachments }),
       createdAt: Date.now()
     }
     set((state) => {
@@ -555,7 +838,7 @@ export const useStore = create<Store>((set, get) => ({
       }
     })
 
-    await window.accrew.session.send(activeSessionId, content)
+    await window.accrew.session.send(activeSessionId, content, attachments)
   },
 
   // WHY: streamingStates is a Map keyed by sessionId — parallel sessions each need
@@ -612,10 +895,78 @@ export const useStore = create<Store>((set, get) => ({
     const current = state.streamingStates.get(sessionId)
     if (!current) return state
     const newStates = new Map(state.streamingStates)
-    newStates.set(sessionId, { ...current, fileChanges: [...current.fileChanges, change] })
+    // The main process reports a file's net change for the turn — replace what it reported before
+    const others = current.fileChanges.filter(c => c.path !== change.path && c.path !== change.oldPath)
+    newStates.set(sessionId, { ...current, fileChanges: [...others, change] })
     return { streamingStates: newStates }
   }),
 
+  // Message queue
+  messageQueues: {},
+  loadMessageQueues: async () => {
+    const messageQueues = await window.accrew.queue.list()
+    set({ messageQueues })
+  },
+  queueMessage: async (content, attachments) => {
+    const { activeSessionId } = get()
+    if (!activeSessionId) return
+    // Expanded now rather than when sent, so the queue shows (and edits) the real prompt
+    content = await window.accrew.prompts.expand(content, { sessionId: activeSessionId })
+    const queue = await window.accrew.queue.add(activeSessionId, content, attachments)
+    setQueue(set, activeSessionId, queue)
+  },
+  updateQueuedMessage: async (id, content) => {
+    const { activeSessionId } = get()
+    if (!activeSessionId) return
+    const queue = await window.accrew.queue.update(activeSessionId, id, content)
+    setQueue(set, activeSessionId, queue)
+  },
+  removeQueuedMessage: async (id) => {
+    const { activeSessionId } = get()
+    if (!activeSessionId) return
+    const queue = await window.accrew.queue.remove(activeSessionId, id)
+    setQueue(set, activeSessionId, queue)
+  },
+  moveQueuedMessage: async (id, toIndex) => {
+    const { activeSessionId } = get()
+    if (!activeSessionId) return
+    const queue = await window.accrew.queue.move(activeSessionId, id, toIndex)
+    setQueue(set, activeSessionId, queue)
+  },
+  sendQueuedNow: async (id) => {
+    const { activeSessionId } = get()
+    if (!activeSessionId) return
+    await window.accrew.queue.sendNow(activeSessionId, id)
+  },
+
+  // Run queue
+  runQueue: [],
+  loadRunQueue: async () => {
+    const runQueue = await window.accrew.run.list()
+    set({ runQueue })
+  },
+  prioritizeRun: async (sessionId) => {
+    await window.accrew.run.prioritize(sessionId)
+  },
+  cancelRun: async (sessionId) => {
+    await window.accrew.run.cancel(sessionId)
+  },
+
+  // Tool permissions
+  pendingPermissions: [],
+  loadPendingPermissions: async () => {
+    const pendingPermissions = await window.accrew.permission.pending()
+    set({ pendingPermissions })
+  },
+  respondToPermission: async (requestId, decision) => {
+    // WHY: Remove optimistically — the dialog must close immediately so a second
+    // click can't answer the same request twice while the IPC roundtrip is in flight
+    set((state) => ({
+      pendingPermissions: state.pendingPermissions.filter(p => p.id !== requestId)
+    }))
+    await window.accrew.permission.respond(requestId, decision)
+  },
+
   // Workspaces
   workspaces: [],
   loadWorkspaces: async () => {
@@ -628,6 +979,14 @@ export const useStore = create<Store>((set, get) => ({
     }
   },
 
+  // Prompt templates
+  promptTemplates: [],
+  loadPromptTemplates: async (workspace) => {
+    const { activeSessionId } = get()
+    const promptTemplates = await window.accrew.prompts.list(activeSessionId ? { sessionId: activeSessionId } : { workspace })
+    set({ promptTemplates })
+  },
+
   // Config
   config: null,
   loadConfig: async () => {
@@ -676,6 +1035,19 @@ export const useStore = create<Store>((set, get) => ({
   settingsOpen: false,
   setSettingsOpen: (open) => set({ settingsOpen: open }),
 
+  // Usage dashboard
+  usageOpen: false,
+  setUsageOpen: (open) => set({ usageOpen: open }),
+
+  // Scheduled jobs
+  schedulesOpen: false,
+  setSchedulesOpen: (open) => set({ schedulesOpen: open }),
+  scheduledJobs: [],
+  loadScheduledJobs: async () => {
+    const scheduledJobs = await window.accrew.schedule.list()
+    set({ scheduledJobs })
+  },
+
   // Event listeners
   setupEventListeners: () => {
     // Prevent duplicate registration
@@ -796,6 +1168,95 @@ export const useStore = create<Store>((set, get) => ({
       })
     )
 
+    unsubscribers.push(
+      window.accrew.on.sessionCreated(({ session }) => {
+        rendererDebug('store', 'session:created', { sessionId: session.id })
+        // WHY: A scheduled job starts its session from the main process — add it to the
+        // list and show it working, as createSession does for sessions started here
+        set((state) => {
+          if (state.sessions.some(s => s.id === session.id)) return {}
+          const newStreamingStates = new Map(state.streamingStates)
+          newStreamingStates.set(session.id, { thinking: '', content: '', toolCalls: [], fileChanges: [] })
+          return {
+            sessions: [session, ...state.sessions],
+            streamingStates: newStreamingStates,
+            streamingSessions: new Set([...state.streamingSessions, session.id])
+          }
+        })
+      })
+    )
+
+    unsubscribers.push(
+      window.accrew.on.scheduleUpdated(({ jobs }) => {
+        set({ scheduledJobs: jobs })
+      })
+    )
+
+    // A native notification was clicked
+    unsubscribers.push(
+      window.accrew.on.sessionOpen(({ sessionId }) => {
+        set({ settingsOpen: false, usageOpen: false, schedulesOpen: false })
+        get().setActiveSession(sessionId)
+      })
+    )
+
+    // Removed by the retention rules
+    unsubscribers.push(
+      window.accrew.on.sessionDeleted(({ sessionId }) => {
+        set((state) => ({
+          sessions: state.sessions.filter(s => s.id !== sessionId),
+          activeSessionId: state.activeSessionId === sessionId ? null : state.activeSessionId,
+          messages: state.activeSessionId === sessionId ? [] : state.messages
+        }))
+      })
+    )
+
+    unsubscribers.push(
+      window.accrew.on.permissionRequest(({ request }) => {
+        set((state) => ({
+          pendingPermissions: [...state.pendingPermissions.filter(p => p.id !== request.id), request]
+        }))
+      })
+    )
+
+    unsubscribers.push(
+      window.accrew.on.permissionResolved(({ requestId }) => {
+        set((state) => ({
+          pendingPermissions: state.pendingPermissions.filter(p => p.id !== requestId)
+        }))
+      })
+    )
+
+    unsubscribers.push(
+      window.accrew.on.queueUpdated(({ sessionId, queue }) => {
+        setQueue(set, sessionId, queue)
+      })
+    )
+
+    unsubscribers.push(
+      window.accrew.on.runQueueUpdated(({ runs }) => {
+        set({ runQueue: runs })
+      })
+    )
+
+    unsubscribers.push(
+      window.accrew.on.queueSent(({ sessionId, message }) => {
+        rendererDebug('store', 'queue:sent', { sessionId, messageId: message.id })
+        // WHY: A queued prompt starts its turn from the main process, with no
+        // sendMessage call in the renderer — set up streaming the same way here
+        set((state) => {
+          const newStreamingStates = new Map(state.streamingStates)
+          newStreamingStates.set(sessionId, { thinking: '', content: '', toolCalls: [], fileChanges: [] })
+          const showMessage = state.activeSessionId === sessionId && !state.messages.some(m => m.id === message.id)
+          return {
+            messages: showMessage ? [...state.messages, message] : state.messages,
+            streamingStates: newStreamingStates,
+            streamingSessions: new Set([...state.streamingSessions, sessionId])
+          }
+        })
+      })
+    )
+
     unsubscribers.push(
       window.accrew.on.themeChanged((theme) => {
         get().setTheme(theme)